@@ -4,12 +4,12 @@
  * This file demonstrates how to use the package in your app
  */
 
-import React, { useState } from 'react';
+import React from 'react';
 import { View, Button, Alert, ActivityIndicator } from 'react-native';
 import {
   configureUAEPass,
   useUAEPassAuth,
-  UAEPassWebViewAuth,
+  UAEPassProvider,
 } from 'expo-uae-pass';
 
 // ==================== Step 1: Configure (in App.tsx or index.ts) ====================
@@ -19,15 +19,7 @@ configureUAEPass({
   environment: __DEV__ ? 'staging' : 'production',
   clientId: 'your_client_id',
   redirectUri: 'yourapp://auth/uaepass',
-  authorizationEndpoint: __DEV__
-    ? 'https://stg-id.uaepass.ae/idshub/authorize'
-    : 'https://id.uaepass.ae/idshub/authorize',
-  tokenEndpoint: __DEV__
-    ? 'https://stg-id.uaepass.ae/idshub/token'
-    : 'https://id.uaepass.ae/idshub/token',
-  userInfoEndpoint: __DEV__
-    ? 'https://stg-id.uaepass.ae/idshub/userinfo'
-    : 'https://id.uaepass.ae/idshub/userinfo',
+  // Endpoints are filled in from the staging/production preset
   scopes: ['urn:uae:digitalid:profile:general'],
   channelName: 'Your App Name',
 });
@@ -35,50 +27,8 @@ configureUAEPass({
 // ==================== Step 2: Use in Your Login Screen ====================
 
 const LoginScreen = () => {
-  const [webViewProps, setWebViewProps] = useState<any>(null);
-
   // Use the hook
   const uaePassAuth = useUAEPassAuth({
-    onSuccess: async (result) => {
-      if (result.details?.useWebView) {
-        // UAE Pass app IS installed - show WebView
-        setWebViewProps({
-          visible: true,
-          authUrl: result.details.authUrl,
-          redirectUri: result.details.redirectUri,
-          expectedState: result.details.expectedState,
-          onSuccess: async (code: string, state: string) => {
-            setWebViewProps(null);
-            console.log('✅ Authorization code received:', code);
-            
-            // Send to your backend
-            // await sendToBackend({ code, state, codeVerifier: result.codeVerifier });
-            
-            Alert.alert('Success', 'UAE Pass authentication successful!');
-          },
-          onCancel: () => {
-            setWebViewProps(null);
-            console.log('User cancelled');
-          },
-          onError: (error: string) => {
-            setWebViewProps(null);
-            Alert.alert('Error', error);
-          },
-        });
-      } else if (result.success && result.authorizationCode) {
-        // Browser flow - already got the code
-        console.log('✅ Authorization code received:', result.authorizationCode);
-        
-        // Send to your backend
-        // await sendToBackend({
-        //   code: result.authorizationCode,
-        //   state: result.state,
-        //   codeVerifier: result.codeVerifier,
-        // });
-        
-        Alert.alert('Success', 'UAE Pass authentication successful!');
-      }
-    },
     onError: (error) => {
       Alert.alert('Error', error);
     },
@@ -87,24 +37,48 @@ const LoginScreen = () => {
     },
   });
 
+  const login = async () => {
+    // Resolves with the code whether UAE Pass ran in the app, the WebView or the browser
+    const result = await uaePassAuth.authenticate();
+    
+    if (result.success && result.authorizationCode) {
+      console.log('✅ Authorization code received:', result.authorizationCode);
+      
+      // Send to your backend
+      // await sendToBackend({
+      //   code: result.authorizationCode,
+      //   state: result.state,
+      //   codeVerifier: result.codeVerifier,
+      // });
+      
+      Alert.alert('Success', 'UAE Pass authentication successful!');
+    }
+  };
+
   return (
     <View style={{ flex: 1, justifyContent: 'center', padding: 20 }}>
       <Button
         title="Login with UAE Pass"
-        onPress={uaePassAuth.authenticate}
+        onPress={login}
         disabled={uaePassAuth.isLoading}
       />
       
       {uaePassAuth.isLoading && (
         <ActivityIndicator style={{ marginTop: 20 }} />
       )}
-      
-      {/* WebView Modal */}
-      {webViewProps && <UAEPassWebViewAuth {...webViewProps} />}
     </View>
   );
 };
 
+// ==================== Step 3: Mount the Provider at the App Root ====================
+
+// Shows the UAE Pass WebView modal whenever the app-to-app flow needs it
+const App = () => (
+  <UAEPassProvider>
+    <LoginScreen />
+  </UAEPassProvider>
+);
+
 // ==================== Alternative: Direct Service Usage ====================
 
 import {
@@ -128,5 +102,5 @@ const directAuthExample = async () => {
   }
 };
 
-export default LoginScreen;
+export default App;
 
@@ -0,0 +1,381 @@
+/**
+ * expo-uae-pass doctor
+ *
+ * Inspects a project for everything the UAE Pass config plugins are supposed to set up:
+ * app config plugin entry, AndroidManifest.xml queries, Info.plist queries schemes,
+ * redirect scheme registration and UAEPassPackage registration in MainApplication
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { resolvePluginProps, splitCallbackPath } = require('../expo-plugin/pluginProps');
+
+const PLUGIN_NAME = 'expo-uae-pass/expo-plugin';
+
+// ==================== Helpers ====================
+
+const readFile = (filePath) => {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Recursively find a file by name under a directory
+ */
+function findFile(dir, filename) {
+  if (!fs.existsSync(dir)) return null;
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+  for (const e of entries) {
+    const full = path.join(dir, e.name);
+    if (e.isFile() && e.name === filename) return full;
+    if (e.isDirectory()) {
+      const found = findFile(full, filename);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the app target's Info.plist (ios/<AppName>/Info.plist)
+ */
+function findInfoPlist(projectRoot) {
+  const iosRoot = path.join(projectRoot, 'ios');
+  if (!fs.existsSync(iosRoot)) return null;
+  const candidates = fs
+    .readdirSync(iosRoot, { withFileTypes: true })
+    .filter((e) => e.isDirectory() && e.name !== 'Pods' && !e.name.endsWith('Tests') && !e.name.includes('.'))
+    .map((e) => path.join(iosRoot, e.name, 'Info.plist'))
+    .filter((p) => fs.existsSync(p));
+  return candidates[0] || null;
+}
+
+/**
+ * Read the Expo config: @expo/config from the project (handles app.config.js/ts),
+ * falling back to app.json
+ */
+function readExpoConfig(projectRoot) {
+  try {
+    const expoConfigPath = require.resolve('@expo/config', { paths: [projectRoot] });
+    const { getConfig } = require(expoConfigPath);
+    const { exp } = getConfig(projectRoot, { skipSDKVersionRequirement: true, isPublicConfig: false });
+    return { config: exp, source: 'app config' };
+  } catch (error) {
+    // @expo/config not installed - fall back to app.json
+  }
+
+  const appJson = readFile(path.join(projectRoot, 'app.json'));
+  if (appJson) {
+    try {
+      const parsed = JSON.parse(appJson);
+      return { config: parsed.expo || parsed, source: 'app.json' };
+    } catch (error) {
+      return { config: null, source: 'app.json', error: `app.json is not valid JSON: ${error.message}` };
+    }
+  }
+
+  return { config: null, source: null };
+}
+
+const getPluginName = (entry) => (Array.isArray(entry) ? entry[0] : entry);
+
+/**
+ * Props of the combined plugin entry, e.g. ["expo-uae-pass/expo-plugin", { environments: [...] }]
+ */
+function getPluginProps(config) {
+  const entry = ((config && config.plugins) || []).find(
+    (plugin) => Array.isArray(plugin) && (plugin[0] === PLUGIN_NAME || plugin[0] === 'expo-uae-pass')
+  );
+  return (entry && entry[1]) || {};
+}
+
+/**
+ * Values of <string> entries in the <array> following a plist <key>
+ * Returns every matching array's values (CFBundleURLSchemes appears once per URL type)
+ */
+function readPlistArray(plist, key) {
+  const values = [];
+  const regex = new RegExp(`<key>${key}</key>\\s*<array>([\\s\\S]*?)</array>`, 'g');
+  let match;
+  while ((match = regex.exec(plist))) {
+    const strings = match[1].match(/<string>([^<]*)<\/string>/g) || [];
+    strings.forEach((s) => values.push(s.replace(/<\/?string>/g, '').trim()));
+  }
+  return values;
+}
+
+/**
+ * Attributes of the intent filter <data> elements outside <queries>
+ */
+function readIntentFilterData(manifest) {
+  const activities = manifest.replace(/<queries>[\s\S]*?<\/queries>/g, '');
+  return (activities.match(/<data\b[^>]*>/g) || []).map((tag) => {
+    const attributes = {};
+    tag.replace(/android:(\w+)="([^"]*)"/g, (match, name, value) => {
+      attributes[name] = value;
+    });
+    return attributes;
+  });
+}
+
+/**
+ * Whether an intent filter <data> element accepts scheme://host/path
+ */
+function dataAcceptsCallback(data, { scheme, host, pathPrefix }) {
+  if (data.scheme !== scheme || (data.host && data.host !== host)) return false;
+  const callbackPath = pathPrefix || '/';
+  if (data.path) return data.path === callbackPath;
+  if (data.pathPrefix) return callbackPath.startsWith(data.pathPrefix);
+  return true;
+}
+
+// ==================== Checks ====================
+
+const pass = (id, title, message) => ({ id, title, status: 'pass', message });
+const fail = (id, title, message, fix) => ({ id, title, status: 'fail', message, fix });
+const warn = (id, title, message, fix) => ({ id, title, status: 'warn', message, fix });
+const skip = (id, title, message) => ({ id, title, status: 'skip', message });
+
+function checkAppConfig(expo, checks) {
+  const { config, source, error } = expo;
+  if (!config) {
+    checks.push(fail('app-config', 'App config', error || 'No app.json or app.config found', 'Run doctor from your Expo project root or pass --project <dir>'));
+    return;
+  }
+  checks.push(pass('app-config', 'App config', `Read ${source}`));
+
+  const plugins = (config.plugins || []).map(getPluginName);
+  const hasPlugin = plugins.some((name) => name === PLUGIN_NAME || name === 'expo-uae-pass');
+  const hasModulePlugin = plugins.some((name) => typeof name === 'string' && name.startsWith(`${PLUGIN_NAME}/`));
+
+  if (hasPlugin) {
+    checks.push(pass('plugin', 'Config plugin', `"${PLUGIN_NAME}" is in plugins`));
+  } else if (hasModulePlugin) {
+    checks.push(warn('plugin', 'Config plugin', 'Only individual UAE Pass plugins are listed', `Replace them with "${PLUGIN_NAME}", which applies all of them`));
+  } else {
+    checks.push(fail('plugin', 'Config plugin', `"${PLUGIN_NAME}" is missing from plugins`, `Add "${PLUGIN_NAME}" to plugins in your app config and run npx expo prebuild`));
+  }
+
+  if (hasPlugin && hasModulePlugin) {
+    checks.push(warn('plugin-duplicate', 'Duplicate plugins', `"${PLUGIN_NAME}" and an individual UAE Pass plugin are both listed`, `Keep only "${PLUGIN_NAME}"`));
+  }
+}
+
+function checkAndroid(projectRoot, expected, redirectSchemes, checks) {
+  const androidRoot = path.join(projectRoot, 'android');
+  if (!fs.existsSync(androidRoot)) {
+    checks.push(skip('android', 'Android project', 'No android/ directory (run npx expo prebuild to check native files)'));
+    return;
+  }
+
+  // AndroidManifest.xml queries (withAndroidQueries)
+  const manifestPath = path.join(androidRoot, 'app', 'src', 'main', 'AndroidManifest.xml');
+  const manifest = readFile(manifestPath);
+  if (!manifest) {
+    checks.push(fail('android-manifest', 'AndroidManifest.xml', `Not found at ${path.relative(projectRoot, manifestPath)}`, 'Run npx expo prebuild'));
+  } else {
+    const queries = (manifest.match(/<queries>[\s\S]*?<\/queries>/g) || []).join('\n');
+    const missingPackages = expected.packages.filter((pkg) => !queries.includes(`android:name="${pkg}"`));
+    const missingSchemes = expected.schemes.filter((scheme) => !queries.includes(`android:scheme="${scheme}"`));
+
+    if (missingPackages.length === 0 && missingSchemes.length === 0) {
+      checks.push(pass('android-queries', 'Android package visibility', 'UAE Pass package and intent queries are present'));
+    } else {
+      const missing = [...missingPackages, ...missingSchemes.map((s) => `${s}://`)];
+      checks.push(fail('android-queries', 'Android package visibility', `<queries> is missing ${missing.join(', ')}`, `Add "${PLUGIN_NAME}" to plugins and run npx expo prebuild --clean`));
+    }
+
+    // Redirect scheme intent filter (outside <queries>)
+    const activities = manifest.replace(/<queries>[\s\S]*?<\/queries>/g, '');
+    redirectSchemes.forEach((scheme) => {
+      if (activities.includes(`android:scheme="${scheme}"`)) {
+        checks.push(pass('android-redirect-scheme', 'Android redirect scheme', `"${scheme}" is handled by an intent filter`));
+      } else {
+        checks.push(fail('android-redirect-scheme', 'Android redirect scheme', `No intent filter for "${scheme}://"`, `Set "scheme": "${scheme}" in your app config and run npx expo prebuild`));
+      }
+    });
+
+    // Redirect path and WebView resume path intent filters (withRedirectIntentFilter)
+    const intentData = readIntentFilterData(manifest);
+    const callbacks = [];
+    if (expected.redirectUri) {
+      callbacks.push({ id: 'android-redirect-path', title: 'Android redirect intent filter', scheme: expected.redirectUri.scheme, path: expected.redirectUri.path });
+    }
+    if (expected.resumePath && redirectSchemes[0]) {
+      callbacks.push({ id: 'android-resume-path', title: 'Android resume intent filter', scheme: redirectSchemes[0], path: expected.resumePath });
+    }
+    callbacks.forEach(({ id, title, scheme, path: callbackPath }) => {
+      const callback = { scheme, ...splitCallbackPath(callbackPath) };
+      const url = `${scheme}://${callbackPath}`;
+      if (intentData.some((data) => dataAcceptsCallback(data, callback))) {
+        checks.push(pass(id, title, `${url} is handled by an intent filter`));
+      } else {
+        checks.push(fail(id, title, `No intent filter for ${url}`, `Add "${PLUGIN_NAME}" to plugins and run npx expo prebuild`));
+      }
+    });
+
+    // MainActivity must be singleTask or callbacks start a second activity
+    const mainActivity = (manifest.match(/<activity\b[^>]*android:name="[\w.]*\.MainActivity"[^>]*>/) || [])[0];
+    const launchMode = mainActivity && (mainActivity.match(/android:launchMode="([^"]*)"/) || [])[1];
+    if (!mainActivity) {
+      checks.push(warn('android-launch-mode', 'MainActivity launchMode', 'MainActivity not found in AndroidManifest.xml'));
+    } else if (launchMode === 'singleTask') {
+      checks.push(pass('android-launch-mode', 'MainActivity launchMode', 'MainActivity is singleTask'));
+    } else {
+      checks.push(fail('android-launch-mode', 'MainActivity launchMode', `MainActivity launchMode is "${launchMode || 'standard'}" - UAE Pass callbacks will open a second activity`, 'Set android:launchMode="singleTask" on MainActivity (the plugin sets it when launchMode is missing)'));
+    }
+  }
+
+  // Native module (withUAEPassModule)
+  if (!expected.registerNativeModule) {
+    checks.push(skip('android-module', 'Native module', 'registerNativeModule is false in plugin props'));
+    return;
+  }
+  const srcRoot = path.join(androidRoot, 'app', 'src');
+  const modulePath = findFile(srcRoot, 'UAEPassModule.kt');
+  const packagePath = findFile(srcRoot, 'UAEPassPackage.kt');
+  if (modulePath && packagePath) {
+    const moduleSource = readFile(modulePath) || '';
+    if (moduleSource.includes('fun clearCookies')) {
+      checks.push(pass('android-module', 'Native module', 'UAEPassModule.kt and UAEPassPackage.kt exist'));
+    } else {
+      checks.push(warn('android-module', 'Native module', 'UAEPassModule.kt was generated by an older plugin version', 'Run npx expo prebuild --clean to regenerate it'));
+    }
+  } else {
+    checks.push(fail('android-module', 'Native module', 'UAEPassModule.kt / UAEPassPackage.kt not found', `Add "${PLUGIN_NAME}" to plugins and run npx expo prebuild --clean`));
+  }
+
+  const mainApplicationPath = findFile(srcRoot, 'MainApplication.kt') || findFile(srcRoot, 'MainApplication.java');
+  const mainApplication = mainApplicationPath && readFile(mainApplicationPath);
+  if (!mainApplication) {
+    checks.push(fail('android-registration', 'Package registration', 'MainApplication.kt/.java not found', 'Register UAEPassPackage manually in MainApplication'));
+    return;
+  }
+
+  const fileName = path.basename(mainApplicationPath);
+  const isJava = fileName.endsWith('.java');
+  const appPackage = (mainApplication.match(/package\s+([\w.]+)/) || [])[1];
+  const importStatement = `import ${appPackage}.uaepass.UAEPassPackage${isJava ? ';' : ''}`;
+  const hasImport = mainApplication.includes(importStatement) || /import\s+[\w.]+\.UAEPassPackage/.test(mainApplication);
+  const hasRegistration = /UAEPassPackage\s*\(\)/.test(mainApplication);
+
+  if (hasImport && hasRegistration) {
+    checks.push(pass('android-registration', 'Package registration', `UAEPassPackage is registered in ${fileName}`));
+  } else {
+    const addStatement = isJava ? 'packages.add(new UAEPassPackage());' : 'add(UAEPassPackage())';
+    const missing = [!hasImport && importStatement, !hasRegistration && addStatement].filter(Boolean);
+    checks.push(fail(
+      'android-registration',
+      'Package registration',
+      `${fileName} is missing: ${missing.join(' / ')}`,
+      isJava
+        ? `Add the import and ${addStatement} in getPackages(), then rebuild`
+        : 'Add the import and add(UAEPassPackage()) inside PackageList(this).packages.apply { }, then rebuild'
+    ));
+  }
+}
+
+function checkIOS(projectRoot, expected, redirectSchemes, checks) {
+  if (!fs.existsSync(path.join(projectRoot, 'ios'))) {
+    checks.push(skip('ios', 'iOS project', 'No ios/ directory (run npx expo prebuild to check native files)'));
+    return;
+  }
+
+  const plistPath = findInfoPlist(projectRoot);
+  const plist = plistPath && readFile(plistPath);
+  if (!plist) {
+    checks.push(fail('ios-info-plist', 'Info.plist', 'Info.plist not found under ios/', 'Run npx expo prebuild'));
+    return;
+  }
+
+  const querySchemes = readPlistArray(plist, 'LSApplicationQueriesSchemes');
+  const missingSchemes = expected.schemes.filter((scheme) => !querySchemes.includes(scheme));
+  if (missingSchemes.length === 0) {
+    checks.push(pass('ios-queries', 'iOS queries schemes', 'LSApplicationQueriesSchemes includes the UAE Pass schemes'));
+  } else {
+    checks.push(fail(
+      'ios-queries',
+      'iOS queries schemes',
+      `LSApplicationQueriesSchemes is missing ${missingSchemes.join(', ')}`,
+      `Add ${missingSchemes.map((s) => `"${s}"`).join(', ')} to ios.infoPlist.LSApplicationQueriesSchemes in your app config`
+    ));
+  }
+
+  const urlSchemes = readPlistArray(plist, 'CFBundleURLSchemes');
+  redirectSchemes.forEach((scheme) => {
+    if (urlSchemes.includes(scheme)) {
+      checks.push(pass('ios-redirect-scheme', 'iOS redirect scheme', `"${scheme}" is registered in CFBundleURLTypes`));
+    } else {
+      checks.push(fail('ios-redirect-scheme', 'iOS redirect scheme', `"${scheme}" is not in CFBundleURLSchemes`, `Set "scheme": "${scheme}" in your app config and run npx expo prebuild`));
+    }
+  });
+}
+
+// ==================== Doctor ====================
+
+/**
+ * Run every check against a project
+ *
+ * @param {object} [options]
+ * @param {string} [options.projectRoot] - Project directory (defaults to cwd)
+ * @param {string} [options.scheme] - Redirect scheme to check (defaults to the one the plugins use)
+ * @returns {{ projectRoot: string, ok: boolean, summary: object, checks: object[] }}
+ */
+function runDoctor(options = {}) {
+  const projectRoot = path.resolve(options.projectRoot || process.cwd());
+  const checks = [];
+
+  const expo = readExpoConfig(projectRoot);
+  checkAppConfig(expo, checks);
+
+  // Expected packages/schemes follow the plugin props, like the plugin itself
+  let expected;
+  try {
+    expected = resolvePluginProps(expo.config || {}, getPluginProps(expo.config));
+  } catch (error) {
+    checks.push(fail('plugin-props', 'Plugin props', error.message, 'Fix the expo-uae-pass plugin props in your app config'));
+    expected = resolvePluginProps(expo.config || {});
+  }
+
+  // Same redirect scheme as the plugins: redirectScheme prop, redirectUri scheme, then app config scheme
+  const redirectSchemes = options.scheme
+    ? [options.scheme]
+    : [].concat(expected.redirectScheme || []);
+
+  if (redirectSchemes.length === 0) {
+    checks.push(fail('redirect-scheme', 'Redirect scheme', 'No app scheme found for the redirect URI', 'Set "scheme" in your app config (e.g. "yourapp" for yourapp://auth/uaepass) or pass --scheme'));
+  }
+
+  checkAndroid(projectRoot, expected, redirectSchemes, checks);
+  checkIOS(projectRoot, expected, redirectSchemes, checks);
+
+  const summary = { pass: 0, fail: 0, warn: 0, skip: 0 };
+  checks.forEach((check) => {
+    summary[check.status] += 1;
+  });
+
+  return { projectRoot, ok: summary.fail === 0, summary, checks };
+}
+
+const STATUS_ICONS = { pass: '✅', fail: '❌', warn: '⚠️ ', skip: '⏭️ ' };
+
+/**
+ * Human-readable report
+ */
+function formatDoctorReport(report) {
+  const lines = [`UAE Pass doctor - ${report.projectRoot}`, ''];
+  report.checks.forEach((check) => {
+    lines.push(`${STATUS_ICONS[check.status]} ${check.title}: ${check.message}`);
+    if (check.fix) {
+      lines.push(`   Fix: ${check.fix}`);
+    }
+  });
+  const { pass: passed, fail: failed, warn: warnings, skip: skipped } = report.summary;
+  lines.push('', `${passed} passed, ${failed} failed, ${warnings} warnings, ${skipped} skipped`);
+  return lines.join('\n');
+}
+
+module.exports = { runDoctor, formatDoctorReport };
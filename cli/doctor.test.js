@@ -0,0 +1,103 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { runDoctor } = require('./doctor');
+
+const REDIRECT_URI = 'uaepassdemo://auth/uaepass';
+
+const intentFilter = (data) => `
+      <intent-filter>
+        <action android:name="android.intent.action.VIEW"/>
+        <category android:name="android.intent.category.DEFAULT"/>
+        <category android:name="android.intent.category.BROWSABLE"/>
+        <data ${data}/>
+      </intent-filter>`;
+
+let projectRoot;
+
+/**
+ * Write app.json and an AndroidManifest.xml whose MainActivity has the given intent filters
+ */
+const writeProject = (pluginProps, filters) => {
+  fs.writeFileSync(
+    path.join(projectRoot, 'app.json'),
+    JSON.stringify({ expo: { name: 'app', slug: 'app', scheme: 'myapp', plugins: [['expo-uae-pass/expo-plugin', pluginProps]] } })
+  );
+  const mainDir = path.join(projectRoot, 'android', 'app', 'src', 'main');
+  fs.mkdirSync(mainDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(mainDir, 'AndroidManifest.xml'),
+    `<manifest xmlns:android="http://schemas.android.com/apk/res/android">
+  <application>
+    <activity android:name=".MainActivity" android:launchMode="singleTask">${filters.join('')}
+    </activity>
+  </application>
+</manifest>`
+  );
+};
+
+const findCheck = (report, id) => report.checks.filter((check) => check.id === id);
+
+beforeEach(() => {
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'uaepass-doctor-'));
+});
+
+afterEach(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe('runDoctor', () => {
+  it('checks the redirectUri scheme instead of the app scheme', () => {
+    writeProject({ redirectUri: REDIRECT_URI }, [
+      intentFilter('android:scheme="uaepassdemo" android:host="auth" android:pathPrefix="/uaepass"'),
+    ]);
+
+    const report = runDoctor({ projectRoot });
+
+    expect(findCheck(report, 'android-redirect-scheme')).toEqual([
+      expect.objectContaining({ status: 'pass', message: expect.stringContaining('"uaepassdemo"') }),
+    ]);
+  });
+
+  it('passes when the redirect and resume paths have intent filters', () => {
+    writeProject({ redirectUri: REDIRECT_URI }, [
+      intentFilter('android:scheme="uaepassdemo" android:host="auth" android:pathPrefix="/uaepass"'),
+      intentFilter('android:scheme="uaepassdemo" android:host="auth" android:pathPrefix="/uaepass/resume"'),
+    ]);
+
+    const report = runDoctor({ projectRoot });
+
+    expect(findCheck(report, 'android-redirect-path')[0].status).toBe('pass');
+    expect(findCheck(report, 'android-resume-path')[0].status).toBe('pass');
+  });
+
+  it('fails when only the scheme is registered for another host', () => {
+    writeProject({ redirectUri: REDIRECT_URI }, [
+      intentFilter('android:scheme="uaepassdemo" android:host="payments"'),
+    ]);
+
+    const report = runDoctor({ projectRoot });
+
+    expect(findCheck(report, 'android-redirect-scheme')[0].status).toBe('pass');
+    expect(findCheck(report, 'android-redirect-path')[0]).toMatchObject({
+      status: 'fail',
+      message: 'No intent filter for uaepassdemo://auth/uaepass',
+    });
+    expect(findCheck(report, 'android-resume-path')[0]).toMatchObject({
+      status: 'fail',
+      message: 'No intent filter for uaepassdemo://auth/uaepass/resume',
+    });
+    expect(report.ok).toBe(false);
+  });
+
+  it('accepts a scheme-wide filter and skips the resume path when resumePath is false', () => {
+    writeProject({ redirectUri: REDIRECT_URI, resumePath: false }, [
+      intentFilter('android:scheme="uaepassdemo"'),
+    ]);
+
+    const report = runDoctor({ projectRoot });
+
+    expect(findCheck(report, 'android-redirect-path')[0].status).toBe('pass');
+    expect(findCheck(report, 'android-resume-path')).toEqual([]);
+  });
+});
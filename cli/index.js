@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+/**
+ * expo-uae-pass CLI
+ *
+ * Usage:
+ *   npx expo-uae-pass doctor [--project <dir>] [--scheme <scheme>] [--json]
+ */
+
+const { runDoctor, formatDoctorReport } = require('./doctor');
+
+const USAGE = `Usage: expo-uae-pass <command> [options]
+
+Commands:
+  doctor    Check the project's UAE Pass setup (plugin, manifest, Info.plist, MainApplication)
+
+Options:
+  --project <dir>    Project root (defaults to the current directory)
+  --scheme <scheme>  Redirect scheme to check (defaults to the plugin's redirect scheme)
+  --json             Print the report as JSON (for CI)
+  --help             Show this help`;
+
+/**
+ * Parse argv into a command and options
+ */
+function parseArgs(argv) {
+  const args = { command: null, json: false, help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json') args.json = true;
+    else if (arg === '--help' || arg === '-h') args.help = true;
+    else if (arg === '--project') args.projectRoot = argv[++i];
+    else if (arg === '--scheme') args.scheme = argv[++i];
+    else if (!args.command) args.command = arg;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return args;
+}
+
+function main() {
+  let args;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(error.message);
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  if (args.help || !args.command) {
+    console.log(USAGE);
+    process.exit(args.help ? 0 : 2);
+  }
+
+  if (args.command !== 'doctor') {
+    console.error(`Unknown command: ${args.command}`);
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  const report = runDoctor({ projectRoot: args.projectRoot, scheme: args.scheme });
+  console.log(args.json ? JSON.stringify(report, null, 2) : formatDoctorReport(report));
+  // exitCode (not exit()) so piped JSON output is fully flushed
+  process.exitCode = report.ok ? 0 : 1;
+}
+
+main();
@@ -1,25 +1,42 @@
 /**
  * Expo Config Plugin: UAE Pass
- * Combines both native module and Android queries plugins
+ * Combines the native module, Android queries, callback intent filter and iOS queries plugins
  * 
- * This is a convenience export that applies both required plugins:
+ * This is a convenience export that applies all required plugins:
  * 1. Native module for UAE Pass app detection and launching
  * 2. Android manifest queries for Android 11+ package visibility
+ * 3. Android intent filter for the UAE Pass resume callback
+ * 4. iOS query schemes and redirect URL type in Info.plist
  */
 
 const withUAEPassModule = require('./withUAEPassModule');
 const withAndroidQueries = require('./withAndroidQueries');
+const withRedirectIntentFilter = require('./withRedirectIntentFilter');
+const withIOSQueries = require('./withIOSQueries');
+const { resolvePluginProps } = require('./pluginProps');
 
 /**
- * Apply both UAE Pass plugins
+ * Apply all UAE Pass plugins
  * This is the recommended way to add UAE Pass support to your app
+ * 
+ * @param {object} config - Expo config
+ * @param {object} [props] - Plugin props, e.g. `["expo-uae-pass/expo-plugin", { environments: ["production"] }]`
  */
-function withUAEPass(config) {
-  // Apply native module plugin
-  config = withUAEPassModule(config);
+function withUAEPass(config, props = {}) {
+  // Validate props once up front so a typo fails prebuild with a clear message
+  const { registerNativeModule } = resolvePluginProps(config, props);
+
+  // Apply native module plugin, or remove a previously generated one
+  config = registerNativeModule ? withUAEPassModule(config) : withUAEPassModule.withoutUAEPassModule(config);
   
   // Apply Android queries plugin
-  config = withAndroidQueries(config);
+  config = withAndroidQueries(config, props);
+  
+  // Apply Android callback intent filter plugin
+  config = withRedirectIntentFilter(config, props);
+  
+  // Apply iOS Info.plist plugin
+  config = withIOSQueries(config, props);
   
   return config;
 }
@@ -28,4 +45,5 @@ function withUAEPass(config) {
 module.exports = withUAEPass;
 module.exports.withUAEPassModule = withUAEPassModule;
 module.exports.withAndroidQueries = withAndroidQueries;
-
+module.exports.withRedirectIntentFilter = withRedirectIntentFilter;
+module.exports.withIOSQueries = withIOSQueries;
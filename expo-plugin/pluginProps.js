@@ -0,0 +1,81 @@
+/**
+ * UAE Pass Config Plugin Props
+ * Normalises the props passed to `["expo-uae-pass/expo-plugin", { ... }]`
+ */
+
+/**
+ * UAE Pass app identifiers per environment
+ * `scheme` is used for Android intent queries and iOS LSApplicationQueriesSchemes
+ */
+const UAE_PASS_APPS = {
+  production: { package: 'ae.uaepass.mainapp', scheme: 'uaepass' },
+  staging: { package: 'ae.uaepass.mainapp.stg', scheme: 'uaepassstg' },
+  development: { package: 'ae.uaepass.mainapp.dev', scheme: null },
+};
+
+const DEFAULT_RESUME_PATH = 'auth/uaepass/resume';
+
+const unique = (values) => values.filter((value, index) => values.indexOf(value) === index);
+
+/**
+ * Split "yourapp://auth/uaepass" into scheme "yourapp" and path "auth/uaepass"
+ */
+function parseRedirectUri(redirectUri) {
+  const match = /^([a-zA-Z][a-zA-Z0-9+.-]*):\/\/([^?#]*)/.exec(redirectUri);
+  if (!match || !match[2]) {
+    throw new Error(`expo-uae-pass: redirectUri "${redirectUri}" in plugin props must look like "yourapp://auth/uaepass"`);
+  }
+  return { scheme: match[1], path: match[2].replace(/\/+$/, '') };
+}
+
+/**
+ * Split "auth/uaepass/resume" into host "auth" and path prefix "/uaepass/resume"
+ */
+function splitCallbackPath(callbackPath) {
+  const [host, ...segments] = callbackPath.split('/').filter(Boolean);
+  return { host, pathPrefix: segments.length > 0 ? `/${segments.join('/')}` : null };
+}
+
+/**
+ * Resolve plugin props against defaults and the Expo config
+ *
+ * @param {object} config - Expo config (for the default `scheme`)
+ * @param {object} [props]
+ * @param {string[]} [props.environments] - UAE Pass apps to declare: 'production', 'staging', 'development' (defaults to all)
+ * @param {string[]} [props.extraPackages] - Additional Android packages to query (custom environments)
+ * @param {string[]} [props.extraSchemes] - Additional UAE Pass app schemes to query (custom environments)
+ * @param {string} [props.redirectUri] - Your configureUAEPass() redirectUri, e.g. 'yourapp://auth/uaepass'
+ * @param {string} [props.redirectScheme] - Your app's redirect scheme (defaults to the redirectUri scheme, then expo `scheme`)
+ * @param {string|false} [props.resumePath] - Host/path of the WebView resume callback, or false to skip its intent filter;
+ *   must match `configureUAEPass({ resumePath })`
+ * @param {boolean} [props.registerNativeModule] - Generate and register the Android native module (defaults to true)
+ */
+function resolvePluginProps(config, props = {}) {
+  const environments = props.environments || Object.keys(UAE_PASS_APPS);
+
+  environments.forEach((environment) => {
+    if (!UAE_PASS_APPS[environment]) {
+      throw new Error(
+        `expo-uae-pass: unknown environment "${environment}" in plugin props. ` +
+          `Use ${Object.keys(UAE_PASS_APPS).join(', ')} or extraPackages/extraSchemes.`
+      );
+    }
+  });
+
+  const apps = environments.map((environment) => UAE_PASS_APPS[environment]);
+  const redirectUri = props.redirectUri ? parseRedirectUri(props.redirectUri) : null;
+  const redirectScheme =
+    props.redirectScheme || (redirectUri && redirectUri.scheme) || [].concat(config.scheme || [])[0] || null;
+
+  return {
+    packages: unique([...apps.map((app) => app.package), ...(props.extraPackages || [])]),
+    schemes: unique([...apps.map((app) => app.scheme).filter(Boolean), ...(props.extraSchemes || [])]),
+    redirectScheme,
+    redirectUri,
+    resumePath:
+      props.resumePath === false ? null : (props.resumePath || DEFAULT_RESUME_PATH).replace(/^\/+/, ''),
+    registerNativeModule: props.registerNativeModule !== false,
+  };
+}
+
+module.exports = { resolvePluginProps, splitCallbackPath, UAE_PASS_APPS, DEFAULT_RESUME_PATH };
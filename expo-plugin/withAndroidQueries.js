@@ -6,11 +6,15 @@
  */
 
 const { withAndroidManifest } = require('@expo/config-plugins');
+const { resolvePluginProps, UAE_PASS_APPS } = require('./pluginProps');
 
 /**
  * Add queries to AndroidManifest.xml for UAE Pass app detection and deep linking
+ * Packages and schemes follow the plugin props (see pluginProps.js)
  */
-function withAndroidQueries(config) {
+function withAndroidQueries(config, props) {
+  const { packages, schemes } = resolvePluginProps(config, props);
+
   return withAndroidManifest(config, async (config) => {
     const androidManifest = config.modResults.manifest;
 
@@ -36,20 +40,20 @@ function withAndroidQueries(config) {
       queries.package = [];
     }
 
-    const uaePassPackages = [
-      { $: { 'android:name': 'ae.uaepass.mainapp' } }, // Production
-      { $: { 'android:name': 'ae.uaepass.mainapp.stg' } }, // Staging
-      { $: { 'android:name': 'ae.uaepass.mainapp.dev' } }, // Development
-    ];
+    // Drop UAE Pass packages from a previous prebuild that are no longer selected
+    const knownPackages = Object.values(UAE_PASS_APPS).map((app) => app.package);
+    queries.package = queries.package.filter((existingPkg) => {
+      const packageName = existingPkg.$?.['android:name'];
+      return !knownPackages.includes(packageName) || packages.includes(packageName);
+    });
 
     // Add packages if they don't already exist
-    uaePassPackages.forEach((pkg) => {
-      const packageName = pkg.$['android:name'];
+    packages.forEach((packageName) => {
       const exists = queries.package.some(
         (existingPkg) => existingPkg.$?.['android:name'] === packageName
       );
       if (!exists) {
-        queries.package.push(pkg);
+        queries.package.push({ $: { 'android:name': packageName } });
       }
     });
 
@@ -58,40 +62,28 @@ function withAndroidQueries(config) {
       queries.intent = [];
     }
 
-    // UAE Pass staging scheme intent (scheme only - covers all hosts)
-    const uaePassStagingIntent = {
-      action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
-      data: [{ $: { 'android:scheme': 'uaepassstg' } }],
-      category: [
-        { $: { 'android:name': 'android.intent.category.DEFAULT' } },
-        { $: { 'android:name': 'android.intent.category.BROWSABLE' } },
-      ],
-    };
-
-    // UAE Pass production scheme intent (scheme only - covers all hosts)
-    const uaePassProductionIntent = {
-      action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
-      data: [{ $: { 'android:scheme': 'uaepass' } }],
-      category: [
-        { $: { 'android:name': 'android.intent.category.DEFAULT' } },
-        { $: { 'android:name': 'android.intent.category.BROWSABLE' } },
-      ],
-    };
-
-    // Check if intents already exist before adding
-    const hasStgIntent = queries.intent.some(
-      (intent) => intent.data?.[0]?.$?.['android:scheme'] === 'uaepassstg'
-    );
-    const hasProdIntent = queries.intent.some(
-      (intent) => intent.data?.[0]?.$?.['android:scheme'] === 'uaepass'
-    );
-
-    if (!hasStgIntent) {
-      queries.intent.push(uaePassStagingIntent);
-    }
-    if (!hasProdIntent) {
-      queries.intent.push(uaePassProductionIntent);
-    }
+    const knownSchemes = Object.values(UAE_PASS_APPS).map((app) => app.scheme).filter(Boolean);
+    queries.intent = queries.intent.filter((intent) => {
+      const scheme = intent.data?.[0]?.$?.['android:scheme'];
+      return !knownSchemes.includes(scheme) || schemes.includes(scheme);
+    });
+
+    // One VIEW intent per UAE Pass scheme (scheme only - covers all hosts)
+    schemes.forEach((scheme) => {
+      const exists = queries.intent.some(
+        (intent) => intent.data?.[0]?.$?.['android:scheme'] === scheme
+      );
+      if (!exists) {
+        queries.intent.push({
+          action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
+          data: [{ $: { 'android:scheme': scheme } }],
+          category: [
+            { $: { 'android:name': 'android.intent.category.DEFAULT' } },
+            { $: { 'android:name': 'android.intent.category.BROWSABLE' } },
+          ],
+        });
+      }
+    });
 
     console.log('✅ Added UAE Pass package and intent queries to AndroidManifest.xml');
 
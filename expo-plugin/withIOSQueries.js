@@ -0,0 +1,64 @@
+/**
+ * Expo Config Plugin: Add iOS Query Schemes and Redirect URL Type for UAE Pass
+ * Allows the app to check if UAE Pass app is installed (canOpenURL) and receive the redirect
+ * 
+ * Existing Info.plist entries are left untouched (except UAE Pass schemes that are no longer selected);
+ * nothing is added twice
+ */
+
+const { withInfoPlist } = require('@expo/config-plugins');
+const { resolvePluginProps, UAE_PASS_APPS } = require('./pluginProps');
+
+/**
+ * Add schemes to LSApplicationQueriesSchemes (keeps existing order)
+ * UAE Pass schemes from a previous prebuild that are no longer selected are dropped
+ */
+function addQuerySchemes(infoPlist, schemes) {
+  const knownSchemes = Object.values(UAE_PASS_APPS).map((app) => app.scheme).filter(Boolean);
+  const existing = (Array.isArray(infoPlist.LSApplicationQueriesSchemes)
+    ? infoPlist.LSApplicationQueriesSchemes
+    : []
+  ).filter((scheme) => !knownSchemes.includes(scheme) || schemes.includes(scheme));
+  const missing = schemes.filter((scheme) => !existing.includes(scheme));
+  infoPlist.LSApplicationQueriesSchemes = [...existing, ...missing];
+  return infoPlist;
+}
+
+/**
+ * Register redirect schemes in CFBundleURLTypes unless any URL type already declares them
+ */
+function addRedirectSchemes(infoPlist, schemes) {
+  const urlTypes = Array.isArray(infoPlist.CFBundleURLTypes) ? infoPlist.CFBundleURLTypes : [];
+  const registered = urlTypes.flatMap((urlType) => urlType.CFBundleURLSchemes || []);
+  const missing = schemes.filter((scheme) => !registered.includes(scheme));
+  if (missing.length > 0) {
+    urlTypes.push({ CFBundleURLSchemes: missing });
+  }
+  infoPlist.CFBundleURLTypes = urlTypes;
+  return infoPlist;
+}
+
+/**
+ * Add UAE Pass query schemes and the app's redirect scheme to Info.plist
+ * Schemes follow the plugin props (see pluginProps.js)
+ */
+function withIOSQueries(config, props) {
+  const { schemes, redirectScheme } = resolvePluginProps(config, props);
+
+  return withInfoPlist(config, (config) => {
+    addQuerySchemes(config.modResults, schemes);
+    if (redirectScheme) {
+      addRedirectSchemes(config.modResults, [redirectScheme]);
+    } else {
+      console.warn('⚠️  No redirect scheme (app config "scheme" or redirectScheme prop) - register your UAE Pass redirect scheme in CFBundleURLTypes manually');
+    }
+
+    console.log('✅ Added UAE Pass query schemes and redirect URL type to Info.plist');
+
+    return config;
+  });
+}
+
+module.exports = withIOSQueries;
+module.exports.addQuerySchemes = addQuerySchemes;
+module.exports.addRedirectSchemes = addRedirectSchemes;
@@ -0,0 +1,93 @@
+const fs = require('fs');
+const path = require('path');
+const plist = require('@expo/plist').default;
+const withIOSQueries = require('./withIOSQueries');
+
+const FIXTURES = path.join(__dirname, '__fixtures__', 'ios');
+
+const readFixture = (name) => plist.parse(fs.readFileSync(path.join(FIXTURES, name), 'utf8'));
+
+/**
+ * Run the plugin's Info.plist mod on a plist and return the written plist, re-parsed
+ */
+const applyPlugin = async (infoPlist, props = {}) => {
+  const config = withIOSQueries({ name: 'app', slug: 'app', scheme: 'myapp' }, props);
+  const result = await config.mods.ios.infoPlist({
+    ...config,
+    modResults: infoPlist,
+    modRequest: { platform: 'ios', modName: 'infoPlist', projectRoot: __dirname, introspect: true },
+  });
+  return plist.parse(plist.build(result.modResults));
+};
+
+const hasDuplicates = (values) => new Set(values).size !== values.length;
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('withIOSQueries', () => {
+  it('adds the query schemes and redirect URL type to an empty Info.plist', async () => {
+    const infoPlist = await applyPlugin(readFixture('Info.empty.plist'));
+
+    expect(infoPlist).toEqual({
+      LSApplicationQueriesSchemes: ['uaepass', 'uaepassstg'],
+      CFBundleURLTypes: [{ CFBundleURLSchemes: ['myapp'] }],
+    });
+  });
+
+  it('appends missing query schemes after the existing ones', async () => {
+    const infoPlist = await applyPlugin(readFixture('Info.querySchemes.plist'));
+
+    expect(infoPlist.LSApplicationQueriesSchemes).toEqual([
+      'whatsapp',
+      'uaepassstg',
+      'comgooglemaps',
+      'uaepass',
+    ]);
+    expect(infoPlist.CFBundleDisplayName).toBe('My App');
+  });
+
+  it('drops UAE Pass schemes that are no longer selected', async () => {
+    const infoPlist = await applyPlugin(readFixture('Info.querySchemes.plist'), { environments: ['production'] });
+
+    expect(infoPlist.LSApplicationQueriesSchemes).toEqual(['whatsapp', 'comgooglemaps', 'uaepass']);
+  });
+
+  it('keeps URL types that already declare the redirect scheme', async () => {
+    const original = readFixture('Info.urlTypes.plist');
+
+    const infoPlist = await applyPlugin(readFixture('Info.urlTypes.plist'));
+
+    expect(infoPlist).toEqual(original);
+  });
+
+  it('uses the redirectUri scheme over the app scheme', async () => {
+    const infoPlist = await applyPlugin(readFixture('Info.urlTypes.plist'), {
+      redirectUri: 'uaepassdemo://auth/uaepass',
+    });
+
+    expect(infoPlist.CFBundleURLTypes.map((urlType) => urlType.CFBundleURLSchemes)).toEqual([
+      ['com.example.myapp'],
+      ['fb123456', 'myapp'],
+      ['uaepassdemo'],
+    ]);
+  });
+
+  it.each(['Info.empty.plist', 'Info.querySchemes.plist', 'Info.urlTypes.plist'])(
+    'adds nothing twice when run again on %s',
+    async (fixture) => {
+      const once = await applyPlugin(readFixture(fixture), { extraSchemes: ['uaepass'] });
+      const twice = await applyPlugin(once, { extraSchemes: ['uaepass'] });
+
+      expect(twice).toEqual(once);
+      expect(hasDuplicates(twice.LSApplicationQueriesSchemes)).toBe(false);
+      expect(hasDuplicates(twice.CFBundleURLTypes.flatMap((urlType) => urlType.CFBundleURLSchemes))).toBe(false);
+    }
+  );
+});
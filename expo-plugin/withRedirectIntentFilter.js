@@ -0,0 +1,104 @@
+/**
+ * Expo Config Plugin: Add UAE Pass Callback Intent Filters to MainActivity
+ * Lets the redirect URI and the resume callback built by UAEPassWebViewAuth
+ * (yourapp://auth/uaepass/resume) reach the running app, and checks MainActivity is singleTask
+ */
+
+const { withAndroidManifest, AndroidConfig } = require('@expo/config-plugins');
+const { resolvePluginProps, splitCallbackPath } = require('./pluginProps');
+
+/**
+ * Add a VIEW/BROWSABLE intent filter for scheme://host/pathPrefix unless an equal one exists
+ */
+function addCallbackIntentFilter(activity, { scheme, host, pathPrefix }) {
+  const data = { 'android:scheme': scheme, 'android:host': host };
+  if (pathPrefix) {
+    data['android:pathPrefix'] = pathPrefix;
+  }
+
+  activity['intent-filter'] = activity['intent-filter'] || [];
+  const exists = activity['intent-filter'].some((filter) =>
+    (filter.data || []).some(
+      (d) =>
+        d.$?.['android:scheme'] === scheme &&
+        d.$?.['android:host'] === host &&
+        (d.$?.['android:pathPrefix'] || null) === pathPrefix
+    )
+  );
+  if (exists) return false;
+
+  activity['intent-filter'].push({
+    action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
+    category: [
+      { $: { 'android:name': 'android.intent.category.DEFAULT' } },
+      { $: { 'android:name': 'android.intent.category.BROWSABLE' } },
+    ],
+    data: [{ $: data }],
+  });
+  return true;
+}
+
+/**
+ * Make sure callbacks are delivered to the running MainActivity
+ * Without singleTask Android starts a second activity for the redirect and the login is lost.
+ * A missing launchMode is set; an explicit different one is left alone with a warning.
+ *
+ * @returns {'set' | 'ok' | 'mismatch'}
+ */
+function ensureSingleTaskLaunchMode(activity) {
+  const launchMode = activity.$['android:launchMode'];
+  if (!launchMode) {
+    activity.$['android:launchMode'] = 'singleTask';
+    return 'set';
+  }
+  return launchMode === 'singleTask' ? 'ok' : 'mismatch';
+}
+
+/**
+ * Add callback intent filters for the redirect URI and the WebView resume path to MainActivity
+ */
+function withRedirectIntentFilter(config, props) {
+  const { redirectScheme, redirectUri, resumePath } = resolvePluginProps(config, props);
+
+  return withAndroidManifest(config, async (config) => {
+    const mainActivity = AndroidConfig.Manifest.getMainActivityOrThrow(config.modResults);
+
+    const callbacks = [];
+    if (redirectUri) {
+      callbacks.push({ scheme: redirectUri.scheme, path: redirectUri.path });
+    }
+    if (resumePath) {
+      if (redirectScheme) {
+        callbacks.push({ scheme: redirectScheme, path: resumePath });
+      } else {
+        console.warn('⚠️  No redirect scheme (set "scheme" in app config or redirectScheme in plugin props) - skipping UAE Pass resume intent filter');
+      }
+    }
+
+    callbacks.forEach(({ scheme, path }) => {
+      const added = addCallbackIntentFilter(mainActivity, { scheme, ...splitCallbackPath(path) });
+      if (added) {
+        console.log(`✅ Added UAE Pass callback intent filter for ${scheme}://${path}`);
+      }
+    });
+
+    if (callbacks.length > 0) {
+      const launchMode = ensureSingleTaskLaunchMode(mainActivity);
+      if (launchMode === 'set') {
+        console.log('✅ Set MainActivity launchMode to singleTask');
+      } else if (launchMode === 'mismatch') {
+        console.warn(
+          `⚠️  MainActivity launchMode is "${mainActivity.$['android:launchMode']}". ` +
+            'Use singleTask or UAE Pass callbacks will open a second activity and the login will be lost.'
+        );
+      }
+    }
+
+    return config;
+  });
+}
+
+module.exports = withRedirectIntentFilter;
+module.exports.addCallbackIntentFilter = addCallbackIntentFilter;
+module.exports.splitCallbackPath = splitCallbackPath;
+module.exports.ensureSingleTaskLaunchMode = ensureSingleTaskLaunchMode;
@@ -0,0 +1,92 @@
+const fs = require('fs');
+const path = require('path');
+const { XML } = require('@expo/config-plugins');
+const withRedirectIntentFilter = require('./withRedirectIntentFilter');
+
+const FIXTURES = path.join(__dirname, '__fixtures__', 'android');
+const REDIRECT_URI = 'myapp://auth/uaepass';
+
+const readFixture = (name) => XML.parseXMLAsync(fs.readFileSync(path.join(FIXTURES, name), 'utf8'));
+
+/**
+ * Run the plugin's AndroidManifest.xml mod on a fixture and return the written XML
+ */
+const applyPlugin = async (manifest, props = { redirectUri: REDIRECT_URI }, appConfig = {}) => {
+  const config = withRedirectIntentFilter({ name: 'app', slug: 'app', ...appConfig }, props);
+  const result = await config.mods.android.manifest({
+    ...config,
+    modResults: manifest,
+    modRequest: { platform: 'android', modName: 'manifest', projectRoot: __dirname, introspect: true },
+  });
+  return XML.format(result.modResults);
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('withRedirectIntentFilter', () => {
+  it('sets singleTask when launchMode is missing', async () => {
+    const xml = await applyPlugin(await readFixture('AndroidManifest.noLaunchMode.xml'));
+
+    expect(xml).toContain('android:launchMode="singleTask"');
+    expect(xml).toMatchSnapshot();
+  });
+
+  it('keeps an explicit standard launchMode and warns', async () => {
+    const xml = await applyPlugin(await readFixture('AndroidManifest.standard.xml'));
+
+    expect(xml).toContain('android:launchMode="standard"');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('launchMode is "standard"'));
+    expect(xml).toMatchSnapshot();
+  });
+
+  it('adds the redirect and resume filters next to a scheme-only filter', async () => {
+    const xml = await applyPlugin(await readFixture('AndroidManifest.singleTask.xml'));
+
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(xml).toMatchSnapshot();
+  });
+
+  it('does not duplicate an identical redirect filter', async () => {
+    const xml = await applyPlugin(await readFixture('AndroidManifest.existingFilter.xml'));
+
+    expect(xml.match(/android:pathPrefix="\/uaepass"/g)).toHaveLength(1);
+    expect(xml.match(/android:pathPrefix="\/uaepass\/resume"/g)).toHaveLength(1);
+    expect(xml).toMatchSnapshot();
+  });
+
+  it('adds only the resume filter for the app scheme without a redirectUri', async () => {
+    const xml = await applyPlugin(await readFixture('AndroidManifest.singleTask.xml'), {}, { scheme: 'myapp' });
+
+    expect(xml).not.toContain('android:pathPrefix="/uaepass"');
+    expect(xml).toMatchSnapshot();
+  });
+
+  it('skips the resume filter when resumePath is false', async () => {
+    const xml = await applyPlugin(await readFixture('AndroidManifest.singleTask.xml'), {
+      redirectUri: REDIRECT_URI,
+      resumePath: false,
+    });
+
+    expect(xml).not.toContain('/uaepass/resume');
+    expect(xml).toMatchSnapshot();
+  });
+
+  it.each([
+    'AndroidManifest.noLaunchMode.xml',
+    'AndroidManifest.standard.xml',
+    'AndroidManifest.singleTask.xml',
+    'AndroidManifest.existingFilter.xml',
+  ])('is idempotent on %s', async (fixture) => {
+    const once = await applyPlugin(await readFixture(fixture));
+    const twice = await applyPlugin(await XML.parseXMLAsync(once));
+
+    expect(twice).toBe(once);
+  });
+});
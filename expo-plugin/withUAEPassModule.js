@@ -10,15 +10,23 @@ const { withDangerousMod } = require('@expo/config-plugins');
 const fs = require('fs');
 const path = require('path');
 
+/**
+ * Marks generated files and every line inserted into MainApplication so they can be found and removed
+ */
+const GENERATED_MARKER = '@generated expo-uae-pass';
+
 /**
  * Kotlin code for UAE Pass Module
  * Note: Package name will be dynamically determined from the project
+ * Methods must match the codegen spec in src/specs/NativeUAEPassModule.ts (checked by the tests)
  */
-const UAEPassModuleKt = `package PACKAGE_NAME_PLACEHOLDER
+const UAEPassModuleKt = `// @generated expo-uae-pass - regenerated on prebuild, do not edit
+package PACKAGE_NAME_PLACEHOLDER
 
 import android.content.Intent
 import android.content.pm.PackageManager
 import android.net.Uri
+import android.webkit.CookieManager
 import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.ReactContextBaseJavaModule
 import com.facebook.react.bridge.ReactMethod
@@ -112,13 +120,27 @@ class UAEPassModule(reactContext: ReactApplicationContext) : ReactContextBaseJav
             }
         }
     }
+
+    @ReactMethod
+    fun clearCookies(promise: Promise) {
+        try {
+            val cookieManager = CookieManager.getInstance()
+            cookieManager.removeAllCookies { removed ->
+                cookieManager.flush()
+                promise.resolve(removed)
+            }
+        } catch (e: Exception) {
+            promise.reject("ERROR", "Error clearing cookies: \${e.message}", e)
+        }
+    }
 }
 `;
 
 /**
  * Kotlin code for UAE Pass Package
  */
-const UAEPassPackageKt = `package PACKAGE_NAME_PLACEHOLDER
+const UAEPassPackageKt = `// @generated expo-uae-pass - regenerated on prebuild, do not edit
+package PACKAGE_NAME_PLACEHOLDER
 
 import com.facebook.react.ReactPackage
 import com.facebook.react.bridge.NativeModule
@@ -182,13 +204,128 @@ function findFile(dir, filename) {
 }
 
 /**
- * Read app package from MainApplication.kt (package declaration)
+ * Read app package from MainApplication (package declaration)
  */
 function getPackageFromMainApplication(content) {
   const m = content.match(/package\s+([\w.]+)/);
   return m ? m[1] : null;
 }
 
+/**
+ * Find MainApplication.kt or MainApplication.java under android/app/src
+ */
+function findMainApplication(androidSrcRoot) {
+  const kotlinPath = findFile(androidSrcRoot, 'MainApplication.kt');
+  if (kotlinPath) return { path: kotlinPath, language: 'kotlin' };
+  const javaPath = findFile(androidSrcRoot, 'MainApplication.java');
+  if (javaPath) return { path: javaPath, language: 'java' };
+  return null;
+}
+
+const lineEnding = (content) => (content.includes('\r\n') ? '\r\n' : '\n');
+
+const marked = (line) => `${line} // ${GENERATED_MARKER}`;
+
+/**
+ * Where and how to register the package, per MainApplication template shape
+ * - insert: add a line after the anchor
+ * - rewrite: replace the anchor line (the original is kept in the marker comment for undo)
+ */
+const REGISTRATION_SHAPES = {
+  kotlin: [
+    // Expo SDK 51+: val packages = PackageList(this).packages ... return packages
+    { anchor: /^(\s*)val packages = PackageList\(this\)\.packages\s*$/, insert: 'packages.add(UAEPassPackage())' },
+    // RN 0.73+: PackageList(this).packages.apply { ... }
+    { anchor: /^(\s*).*PackageList\(this\)\.packages\.apply\s*\{\s*$/, insert: 'add(UAEPassPackage())', indent: '  ' },
+    // Expo SDK 50: return PackageList(this).packages
+    {
+      anchor: /^(\s*)return PackageList\(this\)\.packages\s*$/,
+      rewrite: 'return PackageList(this).packages.apply { add(UAEPassPackage()) }',
+    },
+  ],
+  java: [
+    // RN 0.70-0.72 / Expo SDK 46-49: List<ReactPackage> packages = new PackageList(this).getPackages();
+    {
+      anchor: /^(\s*)List<ReactPackage> packages = new PackageList\(this\)\.getPackages\(\);\s*$/,
+      insert: 'packages.add(new UAEPassPackage());',
+    },
+    // Customised getPackages(): return new PackageList(this).getPackages();
+    {
+      anchor: /^(\s*)return new PackageList\(this\)\.getPackages\(\);\s*$/,
+      rewrite:
+        'List<ReactPackage> packages = new PackageList(this).getPackages(); packages.add(new UAEPassPackage()); return packages;',
+    },
+  ],
+};
+
+/**
+ * Register UAEPassPackage in MainApplication source
+ * Inserted lines carry GENERATED_MARKER; running it again leaves the source unchanged
+ *
+ * @returns {{ content: string, status: 'added' | 'present' | 'unsupported' }}
+ */
+function addPackageRegistration(content, { language, importPath }) {
+  if (/UAEPassPackage\s*\(\)/.test(content)) {
+    return { content, status: 'present' };
+  }
+
+  const eol = lineEnding(content);
+  const lines = content.split(/\r?\n/);
+  const shape = REGISTRATION_SHAPES[language]
+    .map((candidate) => ({ ...candidate, index: lines.findIndex((line) => candidate.anchor.test(line)) }))
+    .find((candidate) => candidate.index !== -1);
+
+  if (!shape) {
+    return { content, status: 'unsupported' };
+  }
+
+  const anchorLine = lines[shape.index];
+  const indent = anchorLine.match(shape.anchor)[1];
+  if (shape.rewrite) {
+    lines[shape.index] = `${indent}${shape.rewrite} // ${GENERATED_MARKER} original: ${anchorLine.trim()}`;
+  } else {
+    lines.splice(shape.index + 1, 0, marked(`${indent}${shape.indent || ''}${shape.insert}`));
+  }
+
+  // Import after PackageList, else after the package declaration
+  const importStatement = language === 'java' ? `import ${importPath};` : `import ${importPath}`;
+  if (!lines.some((line) => line.trim() === importStatement)) {
+    const packageListIndex = lines.findIndex((line) => /^import com\.facebook\.react\.PackageList;?\s*$/.test(line));
+    const packageIndex = lines.findIndex((line) => /^package\s+[\w.]+/.test(line));
+    const importIndex = packageListIndex !== -1 ? packageListIndex + 1 : packageIndex + 1;
+    lines.splice(importIndex, 0, marked(importStatement));
+  }
+
+  return { content: lines.join(eol), status: 'added' };
+}
+
+/**
+ * Remove everything addPackageRegistration inserted, restoring rewritten lines
+ */
+function removePackageRegistration(content) {
+  const eol = lineEnding(content);
+  const markerRegex = new RegExp(` // ${GENERATED_MARKER}(?: original: (.*))?$`);
+  const lines = [];
+  content.split(/\r?\n/).forEach((line) => {
+    const match = line.match(markerRegex);
+    if (!match) {
+      lines.push(line);
+    } else if (match[1]) {
+      lines.push(`${line.match(/^\s*/)[0]}${match[1]}`);
+    }
+  });
+  return lines.join(eol);
+}
+
+/**
+ * Java apps need the Kotlin Gradle plugin to compile the generated module
+ */
+function hasKotlinPlugin(projectRoot) {
+  const buildGradle = path.join(projectRoot, 'android', 'app', 'build.gradle');
+  if (!fs.existsSync(buildGradle)) return false;
+  return /kotlin-android|org\.jetbrains\.kotlin\.android/.test(fs.readFileSync(buildGradle, 'utf-8'));
+}
+
 /**
  * Add UAE Pass native module files to Android project
  */
@@ -199,17 +336,17 @@ function withUAEPassModule(config) {
       const projectRoot = config.modRequest.projectRoot;
       const androidSrcRoot = path.join(projectRoot, 'android', 'app', 'src');
 
-      // 1) Find MainApplication.kt first (Expo/RN can put it under any package path)
-      const mainApplicationPath = findFile(androidSrcRoot, 'MainApplication.kt');
+      // 1) Find MainApplication first (Expo/RN can put it under any package path)
+      const mainApplication = findMainApplication(androidSrcRoot);
       let appPackage = null;
       let mainApplicationContent = '';
 
-      if (mainApplicationPath) {
-        mainApplicationContent = fs.readFileSync(mainApplicationPath, 'utf-8');
+      if (mainApplication) {
+        mainApplicationContent = fs.readFileSync(mainApplication.path, 'utf-8');
         appPackage = getPackageFromMainApplication(mainApplicationContent);
       }
 
-      // 2) Resolve app package: from MainApplication.kt > build.gradle > fallback
+      // 2) Resolve app package: from MainApplication > build.gradle > fallback
       if (!appPackage) {
         appPackage = getPackageName(projectRoot);
       }
@@ -233,64 +370,33 @@ function withUAEPassModule(config) {
       fs.writeFileSync(path.join(moduleDir, 'UAEPassPackage.kt'), packageCode, 'utf-8');
       console.log('✅ Created UAEPassModule.kt and UAEPassPackage.kt in', uaePassSubpackage);
 
-      // 3) Patch MainApplication.kt to register UAEPassPackage
-      const importStatement = `import ${uaePassSubpackage}.UAEPassPackage`;
-      const addStatement = 'packages.add(UAEPassPackage())';
-      const alreadyHasRegistration =
-        mainApplicationContent.includes('UAEPassPackage()') ||
-        mainApplicationContent.includes('UAEPassPackage ()');
-
-      if (!mainApplicationPath) {
-        console.warn('⚠️  MainApplication.kt not found under android/app/src. Please manually register UAEPassPackage.');
+      // 3) Patch MainApplication to register UAEPassPackage
+      if (!mainApplication) {
+        console.warn('⚠️  MainApplication.kt/.java not found under android/app/src. Please manually register UAEPassPackage.');
         return config;
       }
 
-      if (alreadyHasRegistration) {
-        console.log('✅ UAEPassPackage already registered in MainApplication.kt');
-        return config;
+      const fileName = path.basename(mainApplication.path);
+      if (mainApplication.language === 'java' && !hasKotlinPlugin(projectRoot)) {
+        console.warn(`⚠️  ${fileName} is Java and android/app/build.gradle does not apply the Kotlin plugin.`);
+        console.warn('   Add apply plugin: "org.jetbrains.kotlin.android" so UAEPassModule.kt compiles.');
       }
 
-      // Add import after PackageList or any react import (handle \r\n)
-      if (!mainApplicationContent.includes(importStatement)) {
-        if (mainApplicationContent.includes('import com.facebook.react.PackageList')) {
-          mainApplicationContent = mainApplicationContent.replace(
-            /(import com\.facebook\.react\.PackageList)\s*[\r\n]+/,
-            `$1\n${importStatement}\n`
-          );
-        } else if (mainApplicationContent.includes('import com.facebook.react.soloader.OpenSourceMergedSoMapping')) {
-          mainApplicationContent = mainApplicationContent.replace(
-            /(import com\.facebook\.react\.soloader\.OpenSourceMergedSoMapping)\s*[\r\n]+/,
-            `$1\n${importStatement}\n`
-          );
-        } else {
-          mainApplicationContent = mainApplicationContent.replace(
-            /(package\s+[\w.]+)\s*[\r\n]+\s*[\r\n]+/,
-            `$1\n\n${importStatement}\n\n`
-          );
-        }
-      }
+      const { content, status } = addPackageRegistration(mainApplicationContent, {
+        language: mainApplication.language,
+        importPath: `${uaePassSubpackage}.UAEPassPackage`,
+      });
 
-      // Register package: insert packages.add(UAEPassPackage()) right after "val packages = PackageList(this).packages"
-      // Works with any number of comment lines between that and "return packages"
-      const valPackagesRegex = /(val packages = PackageList\(this\)\.packages)(\s*[\r\n]+)/;
-      if (valPackagesRegex.test(mainApplicationContent)) {
-        mainApplicationContent = mainApplicationContent.replace(
-          valPackagesRegex,
-          '$1\n            packages.add(UAEPassPackage())$2'
-        );
-        fs.writeFileSync(mainApplicationPath, mainApplicationContent, 'utf-8');
-        console.log('✅ Registered UAEPassPackage in MainApplication.kt');
-      } else if (/PackageList\(this\)\.packages\.apply\s*\{/.test(mainApplicationContent)) {
-        mainApplicationContent = mainApplicationContent.replace(
-          /(PackageList\(this\)\.packages\.apply\s*\{\s*)[\r\n]+/,
-          `$1\n            ${addStatement}\n            `
-        );
-        fs.writeFileSync(mainApplicationPath, mainApplicationContent, 'utf-8');
-        console.log('✅ Registered UAEPassPackage in MainApplication.kt (apply block)');
+      if (status === 'present') {
+        console.log(`✅ UAEPassPackage already registered in ${fileName}`);
+      } else if (status === 'added') {
+        fs.writeFileSync(mainApplication.path, content, 'utf-8');
+        console.log(`✅ Registered UAEPassPackage in ${fileName}`);
       } else {
-        console.warn('⚠️  Could not auto-register UAEPassPackage. Add manually to MainApplication.kt:');
-        console.warn(`   ${importStatement}`);
-        console.warn(`   ${addStatement}`);
+        const newPackage = mainApplication.language === 'java' ? 'new UAEPassPackage()' : 'UAEPassPackage()';
+        console.warn(`⚠️  Could not auto-register UAEPassPackage. Add manually to ${fileName}:`);
+        console.warn(`   import ${uaePassSubpackage}.UAEPassPackage${mainApplication.language === 'java' ? ';' : ''}`);
+        console.warn(`   packages.add(${newPackage})`);
       }
 
       return config;
@@ -298,5 +404,47 @@ function withUAEPassModule(config) {
   ]);
 }
 
-module.exports = withUAEPassModule;
+/**
+ * Undo withUAEPassModule: remove marked lines from MainApplication and delete the generated files
+ * Files without the generated marker and hand-written registrations are left alone
+ */
+function removeUAEPassModule(projectRoot) {
+  const androidSrcRoot = path.join(projectRoot, 'android', 'app', 'src');
+  const mainApplication = findMainApplication(androidSrcRoot);
+
+  if (mainApplication) {
+    const content = fs.readFileSync(mainApplication.path, 'utf-8');
+    const restored = removePackageRegistration(content);
+    if (restored !== content) {
+      fs.writeFileSync(mainApplication.path, restored, 'utf-8');
+      console.log(`✅ Removed UAEPassPackage registration from ${path.basename(mainApplication.path)}`);
+    }
+  }
 
+  ['UAEPassModule.kt', 'UAEPassPackage.kt'].forEach((fileName) => {
+    const filePath = findFile(androidSrcRoot, fileName);
+    if (filePath && fs.readFileSync(filePath, 'utf-8').includes(GENERATED_MARKER)) {
+      fs.unlinkSync(filePath);
+      console.log(`✅ Removed generated ${fileName}`);
+    }
+  });
+}
+
+/**
+ * Config plugin form of removeUAEPassModule (used when registerNativeModule is false)
+ */
+function withoutUAEPassModule(config) {
+  return withDangerousMod(config, [
+    'android',
+    async (config) => {
+      removeUAEPassModule(config.modRequest.projectRoot);
+      return config;
+    },
+  ]);
+}
+
+module.exports = withUAEPassModule;
+module.exports.withoutUAEPassModule = withoutUAEPassModule;
+module.exports.removeUAEPassModule = removeUAEPassModule;
+module.exports.addPackageRegistration = addPackageRegistration;
+module.exports.removePackageRegistration = removePackageRegistration;
@@ -0,0 +1,156 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { TypeScriptParser } = require('@react-native/codegen/lib/parsers/typescript/parser');
+const GenerateModuleJavaSpec = require('@react-native/codegen/lib/generators/modules/GenerateModuleJavaSpec');
+const withUAEPassModule = require('./withUAEPassModule');
+const { addPackageRegistration, removePackageRegistration } = withUAEPassModule;
+const { codegenConfig } = require('../package.json');
+
+const FIXTURES = path.join(__dirname, '__fixtures__', 'mainApplication');
+
+const readFixture = (name) => fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+
+const optionsFor = (fixture) =>
+  fixture.endsWith('.java')
+    ? { language: 'java', importPath: 'com.myapp.uaepass.UAEPassPackage' }
+    : { language: 'kotlin', importPath: 'com.myapp.uaepass.UAEPassPackage' };
+
+const FIXTURE_NAMES = [
+  'rn-0.70.java',
+  'rn-0.72.java',
+  'custom-getPackages.java',
+  'rn-0.73.kt',
+  'rn-0.76.kt',
+  'expo-sdk-50.kt',
+  'expo-sdk-52.kt',
+];
+
+describe('addPackageRegistration', () => {
+  it.each(FIXTURE_NAMES)('registers UAEPassPackage in %s', (fixture) => {
+    const { content, status } = addPackageRegistration(readFixture(fixture), optionsFor(fixture));
+
+    expect(status).toBe('added');
+    expect(content.match(/UAEPassPackage\(\)/g)).toHaveLength(1);
+    expect(content).toMatchSnapshot();
+  });
+
+  it.each(FIXTURE_NAMES)('leaves %s unchanged when run again', (fixture) => {
+    const once = addPackageRegistration(readFixture(fixture), optionsFor(fixture)).content;
+
+    expect(addPackageRegistration(once, optionsFor(fixture))).toEqual({ content: once, status: 'present' });
+  });
+
+  it('keeps CRLF line endings', () => {
+    const original = readFixture('rn-0.72.java').replace(/\n/g, '\r\n');
+
+    const { content } = addPackageRegistration(original, optionsFor('rn-0.72.java'));
+
+    expect(content.split('\n').every((line, index, lines) => index === lines.length - 1 || line.endsWith('\r'))).toBe(
+      true
+    );
+    expect(removePackageRegistration(content)).toBe(original);
+  });
+
+  it('reports a getPackages() it does not recognise', () => {
+    const original = readFixture('rn-0.76.kt').replace('PackageList(this).packages.apply {', 'buildPackages().apply {');
+
+    expect(addPackageRegistration(original, optionsFor('rn-0.76.kt'))).toEqual({
+      content: original,
+      status: 'unsupported',
+    });
+  });
+});
+
+describe('removePackageRegistration', () => {
+  it.each(FIXTURE_NAMES)('restores %s byte for byte', (fixture) => {
+    const original = readFixture(fixture);
+    const once = addPackageRegistration(original, optionsFor(fixture)).content;
+    const twice = addPackageRegistration(once, optionsFor(fixture)).content;
+
+    expect(removePackageRegistration(twice)).toBe(original);
+  });
+
+  it('leaves a file without the registration untouched', () => {
+    const original = readFixture('expo-sdk-52.kt');
+
+    expect(removePackageRegistration(original)).toBe(original);
+  });
+});
+
+describe('withUAEPassModule', () => {
+  let projectRoot;
+
+  /**
+   * Run the plugin's dangerous mod on a project with the given MainApplication
+   */
+  const applyPlugin = async (fixture) => {
+    const javaRoot = path.join(projectRoot, 'android', 'app', 'src', 'main', 'java', 'com', 'myapp');
+    fs.mkdirSync(javaRoot, { recursive: true });
+    fs.writeFileSync(path.join(javaRoot, 'MainApplication.kt'), readFixture(fixture));
+    const config = withUAEPassModule({ name: 'app', slug: 'app' });
+    await config.mods.android.dangerous({
+      ...config,
+      modResults: {},
+      modRequest: { platform: 'android', modName: 'dangerous', projectRoot, introspect: false },
+    });
+    return path.join(javaRoot, 'uaepass');
+  };
+
+  /**
+   * Abstract methods of the Java spec codegen generates from src/specs/NativeUAEPassModule.ts
+   */
+  const generatedSpecMethods = () => {
+    const schema = new TypeScriptParser().parseFile(
+      path.join(__dirname, '..', codegenConfig.jsSrcsDir, 'NativeUAEPassModule.ts')
+    );
+    const files = GenerateModuleJavaSpec.generate(codegenConfig.name, schema, codegenConfig.android.javaPackageName);
+    const [javaSpec] = [...files.values()];
+    const methods = [...javaSpec.matchAll(/public abstract void (\w+)\(([^)]*)\);/g)].map(([, name, params]) => ({
+      name,
+      params: params.split(', ').map((param) => param.split(' ').reverse().join(': ')),
+    }));
+    return { javaSpec, methods };
+  };
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'uaepass-plugin-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('implements every method of the codegen spec with the same signature', async () => {
+    const moduleDir = await applyPlugin('expo-sdk-52.kt');
+    const moduleSource = fs.readFileSync(path.join(moduleDir, 'UAEPassModule.kt'), 'utf8');
+    const { javaSpec, methods } = generatedSpecMethods();
+
+    const kotlinMethods = [...moduleSource.matchAll(/@ReactMethod\s+fun (\w+)\(([^)]*)\)/g)].map(([, name, params]) => ({
+      name,
+      params: params.split(', '),
+    }));
+
+    expect(methods.map((method) => method.name)).toEqual([
+      'isUAEPassInstalled',
+      'launchUAEPassApp',
+      'openUAEPassWithIntent',
+      'clearCookies',
+    ]);
+    expect(kotlinMethods).toEqual(methods);
+    expect(javaSpec).toContain('public static final String NAME = "UAEPassModule";');
+    expect(moduleSource).toContain('return "UAEPassModule"');
+  });
+
+  it('registers the package in MainApplication', async () => {
+    const moduleDir = await applyPlugin('expo-sdk-52.kt');
+    const mainApplication = fs.readFileSync(path.join(moduleDir, '..', 'MainApplication.kt'), 'utf8');
+
+    expect(fs.existsSync(path.join(moduleDir, 'UAEPassPackage.kt'))).toBe(true);
+    expect(mainApplication).toContain('import com.myapp.uaepass.UAEPassPackage');
+    expect(mainApplication).toContain('packages.add(UAEPassPackage())');
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Jest config for expo-uae-pass's own tests
+ * Library tests run with the react-native preset and the mocks from expo-uae-pass/testing
+ */
+module.exports = {
+  projects: [
+    {
+      displayName: 'library',
+      preset: 'react-native',
+      testMatch: ['<rootDir>/src/**/*.test.ts?(x)'],
+      setupFiles: ['<rootDir>/src/testing/jestSetup.ts'],
+      transform: {
+        '^.+\\.(js|ts|tsx)$': ['babel-jest', { presets: ['module:metro-react-native-babel-preset'] }],
+      },
+      transformIgnorePatterns: [
+        'node_modules/(?!((jest-)?react-native|@react-native(-community)?|expo(nent)?|@expo(nent)?/.*|expo-.*)/)',
+      ],
+    },
+    {
+      displayName: 'expo-plugin',
+      testEnvironment: 'node',
+      testMatch: ['<rootDir>/expo-plugin/**/*.test.js', '<rootDir>/cli/**/*.test.js'],
+    },
+  ],
+};
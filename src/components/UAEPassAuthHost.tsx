@@ -0,0 +1,97 @@
+/**
+ * UAE Pass Auth Host
+ *
+ * Mount once at the app root. Shows UAEPassWebViewAuth whenever an app-to-app flow needs it,
+ * so useUAEPassAuth().authenticate() resolves with the final code (or a typed error) on every path
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import UAEPassWebViewAuth from './UAEPassWebViewAuth';
+import {
+  registerUAEPassWebViewHost,
+  type UAEPassWebViewRequest,
+} from '../services/uaePassService';
+import { UAEPassError, UAE_PASS_ERROR_CODES, toFailureResult } from '../errors/uaePassError';
+import type { UAEPassStrings } from '../i18n/uaePassStrings';
+import type { UAEPassAuthResult, UAEPassLocale } from '../types';
+
+export interface UAEPassAuthHostProps {
+  /**
+   * WebView UI language when the flow did not set one (defaults to config.locale, then 'en')
+   */
+  locale?: UAEPassLocale;
+  /**
+   * Overrides for the WebView's bundled strings
+   */
+  strings?: Partial<UAEPassStrings>;
+}
+
+interface ActiveRequest {
+  request: UAEPassWebViewRequest;
+  complete: (result: UAEPassAuthResult) => void;
+}
+
+const UAEPassAuthHost: React.FC<UAEPassAuthHostProps> = ({ locale, strings }) => {
+  const [active, setActive] = useState<ActiveRequest | null>(null);
+  const activeRef = useRef<ActiveRequest | null>(null);
+
+  useEffect(() => {
+    const unregister = registerUAEPassWebViewHost((request, complete) => {
+      const entry = { request, complete };
+      activeRef.current = entry;
+      setActive(entry);
+      return () => {
+        if (activeRef.current === entry) {
+          activeRef.current = null;
+          setActive(null);
+        }
+      };
+    });
+
+    return () => {
+      unregister();
+      // A flow must not hang on a host that is gone
+      activeRef.current?.complete(toFailureResult(
+        new UAEPassError(UAE_PASS_ERROR_CODES.CANCELLED, 'UAEPassAuthHost was unmounted')
+      ));
+    };
+  }, []);
+
+  if (!active) {
+    return null;
+  }
+
+  const { request, complete } = active;
+
+  return (
+    <UAEPassWebViewAuth
+      visible
+      hosted
+      authUrl={request.authUrl}
+      redirectUri={request.redirectUri}
+      expectedState={request.expectedState}
+      locale={request.locale || locale}
+      strings={strings}
+      onSuccess={(authorizationCode, state) =>
+        complete({
+          success: true,
+          authorizationCode,
+          state,
+          codeVerifier: request.codeVerifier,
+        })
+      }
+      onCancel={() =>
+        complete(toFailureResult(
+          new UAEPassError(UAE_PASS_ERROR_CODES.CANCELLED, 'User cancelled authentication')
+        ))
+      }
+      onError={(message, uaePassError) =>
+        complete(toFailureResult(
+          uaePassError || new UAEPassError(UAE_PASS_ERROR_CODES.UNKNOWN, message)
+        ))
+      }
+    />
+  );
+};
+
+export default UAEPassAuthHost;
@@ -0,0 +1,21 @@
+/**
+ * UAE Pass Provider
+ *
+ * Wraps the app and mounts UAEPassAuthHost next to it
+ */
+
+import React from 'react';
+import UAEPassAuthHost, { type UAEPassAuthHostProps } from './UAEPassAuthHost';
+
+export interface UAEPassProviderProps extends UAEPassAuthHostProps {
+  children?: React.ReactNode;
+}
+
+const UAEPassProvider: React.FC<UAEPassProviderProps> = ({ children, ...hostProps }) => (
+  <>
+    {children}
+    <UAEPassAuthHost {...hostProps} />
+  </>
+);
+
+export default UAEPassProvider;
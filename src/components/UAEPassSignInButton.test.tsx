@@ -0,0 +1,128 @@
+import React from 'react';
+import { act, fireEvent, render, renderHook } from '@testing-library/react-native';
+import { configureUAEPass } from '../config/uaePassConfig';
+import { useUAEPassAuth } from '../hooks/useUAEPassAuth';
+import UAEPassSignInButton, { UAEPassSignInButtonView } from './UAEPassSignInButton';
+import { startMockUAEPassIdP, mockUAEPass, type MockUAEPassIdP } from '../testing';
+import type { UAEPassAuthResult } from '../types';
+
+let idp: MockUAEPassIdP;
+
+/**
+ * Press the button and wait for onResult
+ */
+const pressAndWait = async (button: ReturnType<typeof render>, onResult: jest.Mock) => {
+  await act(async () => {
+    const pressed = new Promise<void>((resolve) => {
+      onResult.mockImplementation(() => resolve());
+    });
+    fireEvent.press(button.getByTestId('sign-in'));
+    await pressed;
+  });
+};
+
+beforeAll(async () => {
+  idp = await startMockUAEPassIdP();
+});
+
+beforeEach(() => {
+  // TouchableOpacity warns that the native animated module is missing
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  configureUAEPass(idp.config({ logger: 'silent' }));
+  mockUAEPass.useIdentityProvider(idp);
+});
+
+afterEach(() => {
+  mockUAEPass.reset();
+  idp.reset();
+  jest.restoreAllMocks();
+});
+
+afterAll(() => idp.stop());
+
+describe('UAEPassSignInButton', () => {
+  it('passes its callbacks to its own hook instance', async () => {
+    const onSuccess = jest.fn();
+    const onEvent = jest.fn();
+    const onResult = jest.fn();
+    const button = render(
+      <UAEPassSignInButton testID="sign-in" onSuccess={onSuccess} onEvent={onEvent} onResult={onResult} />
+    );
+
+    await pressAndWait(button, onResult);
+
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    expect(onEvent).toHaveBeenCalled();
+    button.unmount();
+  });
+
+  it('ignores its callbacks when given an auth instance', async () => {
+    const hookOnSuccess = jest.fn();
+    const hookOnEvent = jest.fn();
+    const { result } = renderHook(() => useUAEPassAuth({ onSuccess: hookOnSuccess, onEvent: hookOnEvent }));
+    const onSuccess = jest.fn();
+    const onEvent = jest.fn();
+    const onResult = jest.fn<void, [UAEPassAuthResult]>();
+    const button = render(
+      <UAEPassSignInButton
+        testID="sign-in"
+        auth={result.current}
+        onSuccess={onSuccess}
+        onEvent={onEvent}
+        onResult={onResult}
+      />
+    );
+
+    await pressAndWait(button, onResult);
+
+    expect(hookOnSuccess).toHaveBeenCalledTimes(1);
+    expect(hookOnEvent).toHaveBeenCalled();
+    expect(onSuccess).not.toHaveBeenCalled();
+    expect(onEvent).not.toHaveBeenCalled();
+    button.unmount();
+  });
+
+  it('shows the Arabic label for the Arabic locale', () => {
+    const button = render(<UAEPassSignInButton testID="sign-in" locale="ar" />);
+
+    expect(button.getByText('تسجيل الدخول بالهوية الرقمية')).toBeTruthy();
+    button.unmount();
+  });
+});
+
+describe('UAEPassSignInButtonView', () => {
+  const authResult: UAEPassAuthResult = { success: true, authorizationCode: 'code-1' };
+
+  it('starts the flow of the auth it is given', async () => {
+    const authenticate = jest.fn(async () => authResult);
+    const onResult = jest.fn();
+    const button = render(
+      <UAEPassSignInButtonView
+        testID="sign-in"
+        auth={{ authenticate, isLoading: false }}
+        flowOptions={{ timeoutMs: 1000 }}
+        locale="ar"
+        onResult={onResult}
+      />
+    );
+
+    await pressAndWait(button, onResult);
+
+    expect(authenticate).toHaveBeenCalledWith({ locale: 'ar', timeoutMs: 1000 });
+    expect(onResult).toHaveBeenCalledWith(authResult);
+    button.unmount();
+  });
+
+  it('shows the loading label and is disabled while the flow runs', () => {
+    const authenticate = jest.fn(async () => authResult);
+    const button = render(
+      <UAEPassSignInButtonView testID="sign-in" auth={{ authenticate, isLoading: true }} />
+    );
+
+    expect(button.getByText('Signing in with UAE PASS...')).toBeTruthy();
+    expect(button.getByTestId('sign-in').props.accessibilityState).toEqual({ disabled: true, busy: true });
+    fireEvent.press(button.getByTestId('sign-in'));
+    expect(authenticate).not.toHaveBeenCalled();
+    button.unmount();
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * UAE Pass Sign In Button
+ *
+ * "Sign in with UAE PASS" button following the UAE PASS brand guidelines
+ * UAEPassSignInButtonView renders it for a given auth instance; UAEPassSignInButton
+ * uses the one it is given or owns a useUAEPassAuth() of its own
+ */
+
+import React, { useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  Text,
+  I18nManager,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+import { getUAEPassConfig } from '../config/uaePassConfig';
+import {
+  useUAEPassAuth,
+  type UseUAEPassAuthOptions,
+  type UseUAEPassAuthReturn,
+} from '../hooks/useUAEPassAuth';
+import { getUAEPassStrings, isRTLLocale, type UAEPassStrings } from '../i18n/uaePassStrings';
+import type { UAEPassAuthResult, UAEPassFlowOptions, UAEPassLocale } from '../types';
+
+/**
+ * Brand variants: dark (black), light (white, for dark backgrounds) and outline
+ */
+export type UAEPassSignInButtonVariant = 'dark' | 'light' | 'outline';
+
+export type UAEPassSignInButtonSize = 'small' | 'medium' | 'large';
+
+export interface UAEPassSignInButtonViewProps {
+  /**
+   * Hook instance the button starts and follows: authenticate() on press, spinner while isLoading
+   */
+  auth: Pick<UseUAEPassAuthReturn, 'authenticate' | 'isLoading'>;
+  /**
+   * Options passed to authenticate()
+   */
+  flowOptions?: UAEPassFlowOptions;
+  /**
+   * Called with the result of each press
+   */
+  onResult?: (result: UAEPassAuthResult) => void;
+  variant?: UAEPassSignInButtonVariant;
+  size?: UAEPassSignInButtonSize;
+  disabled?: boolean;
+  /**
+   * UI language (defaults to flowOptions.locale, config.locale, then 'en')
+   */
+  locale?: UAEPassLocale;
+  /**
+   * Overrides for the bundled strings of the active locale
+   */
+  strings?: Partial<UAEPassStrings>;
+  /**
+   * UAE PASS logo from the official brand kit, shown before the label
+   */
+  icon?: React.ReactNode;
+  accessibilityLabel?: string;
+  accessibilityHint?: string;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+}
+
+export interface UAEPassSignInButtonProps
+  extends Omit<UAEPassSignInButtonViewProps, 'auth'>, UseUAEPassAuthOptions {
+  /**
+   * Existing useUAEPassAuth() instance (e.g. to render UAEPassWebViewAuth from its result)
+   * When omitted the button creates its own, with onSuccess/onError/onCancel/onEvent from these props;
+   * when set those props are ignored - pass them to that useUAEPassAuth() call instead.
+   * Adding or removing it remounts the button
+   */
+  auth?: UseUAEPassAuthReturn;
+}
+
+const VARIANT_COLORS: Record<UAEPassSignInButtonVariant, { background: string; border: string; text: string }> = {
+  dark: { background: '#000000', border: '#000000', text: '#ffffff' },
+  light: { background: '#ffffff', border: '#ffffff', text: '#000000' },
+  outline: { background: 'transparent', border: '#000000', text: '#000000' },
+};
+
+const SIZES: Record<UAEPassSignInButtonSize, { height: number; fontSize: number; paddingHorizontal: number }> = {
+  small: { height: 40, fontSize: 14, paddingHorizontal: 16 },
+  medium: { height: 48, fontSize: 16, paddingHorizontal: 20 },
+  large: { height: 56, fontSize: 18, paddingHorizontal: 24 },
+};
+
+export const UAEPassSignInButtonView: React.FC<UAEPassSignInButtonViewProps> = ({
+  auth,
+  flowOptions,
+  onResult,
+  variant = 'dark',
+  size = 'medium',
+  disabled = false,
+  locale: localeProp,
+  strings: stringsProp,
+  icon,
+  accessibilityLabel,
+  accessibilityHint,
+  style,
+  testID,
+}) => {
+  const { authenticate, isLoading } = auth;
+
+  const config = getUAEPassConfig();
+  const locale = localeProp || flowOptions?.locale || config.locale || 'en';
+  const strings = getUAEPassStrings(locale, config.strings, stringsProp);
+  const isRTL = isRTLLocale(locale);
+  // Keep the logo on the leading side when the locale's direction differs from the app's layout
+  const mirrorLayout = isRTL !== I18nManager.isRTL;
+
+  const colors = VARIANT_COLORS[variant];
+  const dimensions = SIZES[size];
+  const inactive = disabled || isLoading;
+
+  const handlePress = useCallback(async () => {
+    const result = await authenticate({ locale, ...flowOptions });
+    onResult?.(result);
+  }, [authenticate, flowOptions, locale, onResult]);
+
+  const label = isLoading ? strings.signInButtonLoadingLabel : strings.signInButtonLabel;
+
+  return (
+    <TouchableOpacity
+      onPress={handlePress}
+      disabled={inactive}
+      activeOpacity={0.8}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel || label}
+      accessibilityHint={accessibilityHint}
+      accessibilityState={{ disabled: inactive, busy: isLoading }}
+      testID={testID}
+      style={[
+        styles.button,
+        {
+          height: dimensions.height,
+          paddingHorizontal: dimensions.paddingHorizontal,
+          backgroundColor: colors.background,
+          borderColor: colors.border,
+        },
+        mirrorLayout && styles.buttonMirrored,
+        disabled && styles.disabled,
+        style,
+      ]}
+    >
+      {isLoading ? (
+        <ActivityIndicator size="small" color={colors.text} style={styles.leading} />
+      ) : (
+        icon && <View style={styles.leading}>{icon}</View>
+      )}
+      <Text
+        numberOfLines={1}
+        style={[
+          styles.label,
+          { color: colors.text, fontSize: dimensions.fontSize, writingDirection: isRTL ? 'rtl' : 'ltr' },
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * Owns the hook when the app does not pass one
+ */
+const UAEPassSignInButtonWithOwnAuth: React.FC<Omit<UAEPassSignInButtonProps, 'auth'>> = ({
+  onSuccess,
+  onError,
+  onCancel,
+  onEvent,
+  ...props
+}) => {
+  const auth = useUAEPassAuth({ onSuccess, onError, onCancel, onEvent });
+  return <UAEPassSignInButtonView {...props} auth={auth} />;
+};
+
+const UAEPassSignInButton: React.FC<UAEPassSignInButtonProps> = ({
+  auth,
+  onSuccess,
+  onError,
+  onCancel,
+  onEvent,
+  ...props
+}) => {
+  // With an auth prop its own options already carry the callbacks - forwarding them again would
+  // call each one twice (onEvent is a global subscription)
+  if (auth) {
+    return <UAEPassSignInButtonView {...props} auth={auth} />;
+  }
+  return (
+    <UAEPassSignInButtonWithOwnAuth
+      {...props}
+      onSuccess={onSuccess}
+      onError={onError}
+      onCancel={onCancel}
+      onEvent={onEvent}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  buttonMirrored: {
+    flexDirection: 'row-reverse',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  leading: {
+    marginHorizontal: 8,
+  },
+  label: {
+    fontWeight: '600',
+  },
+});
+
+export default UAEPassSignInButton;
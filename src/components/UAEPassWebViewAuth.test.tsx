@@ -0,0 +1,131 @@
+import React from 'react';
+import { Modal, StyleSheet, type StyleProp, type TextStyle } from 'react-native';
+import { WebView } from 'react-native-webview';
+import { act, render } from '@testing-library/react-native';
+import { configureUAEPass } from '../config/uaePassConfig';
+import UAEPassWebViewAuth from './UAEPassWebViewAuth';
+import { UAE_PASS_STRINGS } from '../i18n/uaePassStrings';
+import { addUAEPassEventListener, type UAEPassEvent } from '../telemetry/uaePassEvents';
+import type { UAEPassLocale } from '../types';
+
+jest.mock('react-native-webview', () => {
+  const { forwardRef } = jest.requireActual('react');
+  const { View: MockView } = jest.requireActual('react-native');
+  const MockWebView = forwardRef((props: object, ref: unknown) => <MockView ref={ref} {...props} />);
+  return { WebView: MockWebView };
+});
+
+const renderWebView = (locale?: UAEPassLocale, hosted?: boolean) =>
+  render(
+    <UAEPassWebViewAuth
+      visible
+      authUrl="https://stg-id.uaepass.ae/idshub/authorize?state=state-1"
+      redirectUri="uaepasstest://auth/uaepass"
+      expectedState="state-1"
+      onSuccess={jest.fn()}
+      onCancel={jest.fn()}
+      onError={jest.fn()}
+      locale={locale}
+      hosted={hosted}
+    />
+  );
+
+const writingDirectionOf = (element: { props: { style?: StyleProp<TextStyle> } }) =>
+  StyleSheet.flatten(element.props.style)?.writingDirection;
+
+beforeEach(() => {
+  configureUAEPass({
+    clientId: 'sandbox_stage',
+    redirectUri: 'uaepasstest://auth/uaepass',
+    environment: 'staging',
+    logger: 'silent',
+  });
+});
+
+describe('UAEPassWebViewAuth locale', () => {
+  it('renders Arabic right-to-left', () => {
+    const view = renderWebView('ar');
+
+    const title = view.getByText(UAE_PASS_STRINGS.ar.headerTitle);
+    expect(writingDirectionOf(title)).toBe('rtl');
+    expect(view.getByLabelText(UAE_PASS_STRINGS.ar.closeButtonLabel)).toBeTruthy();
+    expect(view.getByText(UAE_PASS_STRINGS.ar.loading)).toBeTruthy();
+  });
+
+  it('renders English left-to-right', () => {
+    const view = renderWebView('en');
+
+    expect(writingDirectionOf(view.getByText(UAE_PASS_STRINGS.en.headerTitle))).toBe('ltr');
+    expect(view.getByLabelText(UAE_PASS_STRINGS.en.closeButtonLabel)).toBeTruthy();
+  });
+
+  it('defaults to config.locale and its string overrides', () => {
+    configureUAEPass({
+      clientId: 'sandbox_stage',
+      redirectUri: 'uaepasstest://auth/uaepass',
+      environment: 'staging',
+      logger: 'silent',
+      locale: 'ar',
+      strings: { ar: { headerTitle: 'الدخول' } },
+    });
+
+    const view = renderWebView();
+
+    expect(writingDirectionOf(view.getByText('الدخول'))).toBe('rtl');
+    expect(view.getByLabelText(UAE_PASS_STRINGS.ar.closeButtonLabel)).toBeTruthy();
+  });
+});
+
+describe('UAEPassWebViewAuth flowCompleted', () => {
+  let completed: Extract<UAEPassEvent, { type: 'flowCompleted' }>[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    completed = [];
+    unsubscribe = addUAEPassEventListener((event) => {
+      if (event.type === 'flowCompleted') {
+        completed.push(event);
+      }
+    });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  const deliverCode = (view: ReturnType<typeof renderWebView>) =>
+    act(() => {
+      view.UNSAFE_getByType(WebView).props.onShouldStartLoadWithRequest({
+        url: 'uaepasstest://auth/uaepass?code=code-1&state=state-1',
+      });
+    });
+
+  it('is reported once when rendered by the app', () => {
+    const view = renderWebView();
+
+    deliverCode(view);
+
+    expect(completed).toEqual([expect.objectContaining({ success: true, errorCode: undefined })]);
+  });
+
+  it('is reported once when rendered by the app and closed', () => {
+    const view = renderWebView();
+
+    act(() => {
+      view.UNSAFE_getByType(Modal).props.onRequestClose();
+    });
+
+    expect(completed).toEqual([expect.objectContaining({ success: false, errorCode: 'CANCELLED' })]);
+  });
+
+  it('is left to the flow when hosted', () => {
+    const view = renderWebView(undefined, true);
+
+    deliverCode(view);
+    act(() => {
+      view.UNSAFE_getByType(Modal).props.onRequestClose();
+    });
+
+    expect(completed).toEqual([]);
+  });
+});
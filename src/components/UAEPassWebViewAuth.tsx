@@ -14,10 +14,28 @@ import {
   TouchableOpacity,
   SafeAreaView,
   Text,
+  I18nManager,
+  Platform,
 } from 'react-native';
 import { WebView, WebViewNavigation } from 'react-native-webview';
 import * as Linking from 'expo-linking';
-import { getUAEPassConfig, getUAEPassAppSchemes, getUAEPassEnvironment } from '../config/uaePassConfig';
+import {
+  getUAEPassConfig,
+  getUAEPassAppSchemes,
+  getUAEPassResumeCallbackUrl,
+  getUAEPassUrlScheme,
+} from '../config/uaePassConfig';
+import { clearPendingSession } from '../services/pendingSessionStore';
+import { uaePassLogger } from '../utils/logger';
+import { emitUAEPassEvent } from '../telemetry/uaePassEvents';
+import {
+  UAEPassError,
+  UAE_PASS_ERROR_CODES,
+  fromOAuthError,
+  type UAEPassErrorCode,
+} from '../errors/uaePassError';
+import { getUAEPassStrings, isRTLLocale, type UAEPassStrings } from '../i18n/uaePassStrings';
+import type { UAEPassLocale } from '../types';
 
 interface UAEPassWebViewAuthProps {
   visible: boolean;
@@ -26,7 +44,22 @@ interface UAEPassWebViewAuthProps {
   expectedState: string;
   onSuccess: (authorizationCode: string, state: string) => void;
   onCancel: () => void;
-  onError: (error: string) => void;
+  /**
+   * Called with the error message and the typed error (branch on `uaePassError.code`)
+   */
+  onError: (error: string, uaePassError?: UAEPassError) => void;
+  /**
+   * UI language (defaults to config.locale, then 'en')
+   */
+  locale?: UAEPassLocale;
+  /**
+   * Overrides for the bundled strings of the active locale
+   */
+  strings?: Partial<UAEPassStrings>;
+  /**
+   * Set by UAEPassAuthHost: the flow that presented the WebView reports flowCompleted
+   */
+  hosted?: boolean;
 }
 
 interface SavedUrls {
@@ -43,6 +76,9 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
   onCancel,
   onError,
   expectedState,
+  locale: localeProp,
+  strings: stringsProp,
+  hosted = false,
 }) => {
   const webViewRef = useRef<WebView>(null);
   const [loading, setLoading] = useState(true);
@@ -52,26 +88,46 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
 
   const config = getUAEPassConfig();
   const appSchemes = getUAEPassAppSchemes();
-  const env = getUAEPassEnvironment();
-  const UAE_PASS_SCHEME = env === 'production' ? 'uaepass://' : 'uaepassstg://';
+  const UAE_PASS_SCHEME = `${getUAEPassUrlScheme()}://`;
+  // UAE Pass web pages always link to the production scheme; other environments' apps need their own
+  const rewriteScheme = UAE_PASS_SCHEME !== 'uaepass://';
   const OUR_APP_SCHEME = redirectUri.split('://')[0] + '://';
+  // Where the UAE Pass app returns the user (config.resumePath, registered by the config plugin)
+  const RESUME_CALLBACK = getUAEPassResumeCallbackUrl(redirectUri.split('://')[0]);
+
+  const locale = localeProp || config.locale || 'en';
+  const strings = getUAEPassStrings(locale, config.strings, stringsProp);
+  const isRTL = isRTLLocale(locale);
+  // Flip the header only when the locale's direction differs from the app's layout direction
+  const mirrorLayout = isRTL !== I18nManager.isRTL;
+  const textDirection = { writingDirection: isRTL ? 'rtl' : 'ltr' } as const;
+
+  useEffect(() => {
+    if (visible) {
+      emitUAEPassEvent({ type: 'strategyAttempted', strategy: 'webView' });
+    }
+  }, [visible]);
 
   // Handle deep link callbacks from UAE Pass app
   useEffect(() => {
     if (!visible) return;
 
     const handleDeepLink = (event: Linking.EventType) => {
-      console.log('📱 Deep link received:', event.url);
+      uaePassLogger.debug('📱 Deep link received:', event.url);
       
       // Check if this is our resume callback
-      if (event.url.includes('resume_authn') || event.url.includes(redirectUri)) {
+      if (
+        event.url.includes('resume_authn') ||
+        event.url.startsWith(RESUME_CALLBACK) ||
+        event.url.includes(redirectUri)
+      ) {
         // Extract the original URL if it's encoded in the callback
         const normalizedUrl = event.url.replace(OUR_APP_SCHEME, 'https://');
         const urlParams = new URL(normalizedUrl);
         const resumeUrl = urlParams.searchParams.get('url');
         
         if (resumeUrl && savedUrls) {
-          console.log('📱 Resuming auth with URL:', resumeUrl);
+          uaePassLogger.debug('📱 Resuming auth with URL:', resumeUrl);
           const decodedUrl = decodeURIComponent(resumeUrl);
           setCurrentUrl(decodedUrl);
           setWaitingForCallback(false);
@@ -94,10 +150,34 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
     return () => {
       subscription.remove();
     };
-  }, [savedUrls, waitingForCallback, visible, redirectUri, OUR_APP_SCHEME]);
+  }, [savedUrls, waitingForCallback, visible, redirectUri, OUR_APP_SCHEME, RESUME_CALLBACK]);
+
+  // Standalone, this component runs the rest of the flow and reports its outcome
+  const completeFlow = useCallback((success: boolean, errorCode?: UAEPassErrorCode) => {
+    if (!hosted) {
+      emitUAEPassEvent({ type: 'flowCompleted', success, errorCode });
+    }
+  }, [hosted]);
+
+  // Report a typed error; cancellations from UAE Pass go to onCancel
+  const reportError = useCallback((error: UAEPassError) => {
+    if (error.code === UAE_PASS_ERROR_CODES.CANCELLED) {
+      emitUAEPassEvent({ type: 'cancelled', reason: 'user' });
+    }
+    completeFlow(false, error.code);
+    if (error.code === UAE_PASS_ERROR_CODES.CANCELLED) {
+      onCancel();
+      return;
+    }
+    onError(error.message, error);
+  }, [onError, onCancel, completeFlow]);
 
   // Parse authorization code from URL
   const parseAuthorizationCode = useCallback((url: string) => {
+    // The flow ends here either way - the persisted pending session is no longer needed
+    clearPendingSession();
+    emitUAEPassEvent({ type: 'callbackReceived', strategy: 'webView' });
+    
     try {
       const normalizedUrl = url.replace(OUR_APP_SCHEME, 'https://');
       const parsedUrl = new URL(normalizedUrl);
@@ -107,32 +187,44 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
       const errorDescription = parsedUrl.searchParams.get('error_description');
 
       if (error) {
-        console.error('OAuth error:', error, errorDescription);
-        onError(errorDescription || error);
+        uaePassLogger.error('OAuth error:', error, errorDescription);
+        reportError(fromOAuthError(error, errorDescription));
         return;
       }
 
+      emitUAEPassEvent({ type: 'stateValidated', valid: state === expectedState });
       if (state !== expectedState) {
-        console.error('State mismatch! Expected:', expectedState, 'Got:', state);
-        onError('Invalid state parameter - possible CSRF attack');
+        uaePassLogger.error('State mismatch! Possible CSRF attack');
+        reportError(new UAEPassError(
+          UAE_PASS_ERROR_CODES.STATE_MISMATCH,
+          'Invalid state parameter - possible CSRF attack'
+        ));
         return;
       }
 
       if (code) {
-        console.log('✅ Authorization code received!');
+        uaePassLogger.info('✅ Authorization code received!');
+        completeFlow(true);
         onSuccess(code, state || '');
       } else {
-        onError('No authorization code received');
+        reportError(new UAEPassError(
+          UAE_PASS_ERROR_CODES.NO_AUTHORIZATION_CODE,
+          'No authorization code received'
+        ));
       }
     } catch (err) {
-      console.error('Error parsing callback URL:', err);
-      onError('Failed to parse callback URL');
+      uaePassLogger.error('Error parsing callback URL:', err);
+      reportError(new UAEPassError(
+        UAE_PASS_ERROR_CODES.INVALID_CALLBACK,
+        'Failed to parse callback URL',
+        { details: err }
+      ));
     }
-  }, [expectedState, onSuccess, onError, OUR_APP_SCHEME]);
+  }, [expectedState, onSuccess, reportError, completeFlow, OUR_APP_SCHEME]);
 
   // Handle WebView navigation state changes
   const handleNavigationStateChange = useCallback((navState: WebViewNavigation) => {
-    console.log('🌐 WebView navigating to:', navState.url);
+    uaePassLogger.debug('🌐 WebView navigating to:', navState.url);
     
     // Check if we got the authorization code directly
     if (navState.url.startsWith(redirectUri) || navState.url.includes('code=')) {
@@ -145,11 +237,11 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
   // Intercept requests to check for UAE Pass deep link
   const handleShouldStartLoadWithRequest = useCallback((request: { url: string }) => {
     const url = request.url;
-    console.log('🔗 WebView request:', url);
+    uaePassLogger.debug('🔗 WebView request:', url);
 
     // Check if this is a UAE Pass deep link that we need to intercept
     if (url.startsWith(UAE_PASS_SCHEME) || url.startsWith('uaepassstg://') || url.startsWith('uaepass://')) {
-      console.log('🎯 Intercepted UAE Pass deep link!');
+      uaePassLogger.debug('🎯 Intercepted UAE Pass deep link!');
       
       try {
         // Parse the UAE Pass deep link
@@ -164,22 +256,28 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
           urlObj.searchParams.get('failureURL') ||
           urlObj.searchParams.get('failureurl');
 
-        console.log('📋 Original successURL:', successURL);
-        console.log('📋 Original failureURL:', failureURL);
+        uaePassLogger.debug('📋 Original successURL:', successURL);
+        uaePassLogger.debug('📋 Original failureURL:', failureURL);
 
         // Check if this is already a rewritten URL
         if (successURL && successURL.includes(OUR_APP_SCHEME)) {
-          console.log('✅ This is already rewritten URL - opening UAE Pass app directly');
+          uaePassLogger.debug('✅ This is already rewritten URL - opening UAE Pass app directly');
           setWaitingForCallback(true);
           
           let openUrl = url;
-          if (env === 'staging' && url.startsWith('uaepass://')) {
-            openUrl = url.replace('uaepass://', 'uaepassstg://');
+          if (rewriteScheme && url.startsWith('uaepass://')) {
+            openUrl = url.replace('uaepass://', UAE_PASS_SCHEME);
           }
           
-          Linking.openURL(openUrl).catch((err: Error) => {
-            console.error('Failed to open UAE Pass app:', err);
-            onError('Failed to open UAE Pass app');
+          Linking.openURL(openUrl).then(() => {
+            emitUAEPassEvent({ type: 'appLaunched', strategy: 'webView' });
+          }).catch((err: Error) => {
+            uaePassLogger.error('Failed to open UAE Pass app:', err);
+            reportError(new UAEPassError(
+              UAE_PASS_ERROR_CODES.APP_LAUNCH_FAILED,
+              'Failed to open UAE Pass app',
+              { details: err }
+            ));
           });
           
           return false;
@@ -198,8 +296,8 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
           const encodedFailureURL = encodeURIComponent(failureURL);
           
           // Build our callback URL format
-          const ourSuccessCallback = `${OUR_APP_SCHEME}auth/uaepass/resume?url=${encodedSuccessURL}`;
-          const ourFailureCallback = `${OUR_APP_SCHEME}auth/uaepass/resume?url=${encodedFailureURL}`;
+          const ourSuccessCallback = `${RESUME_CALLBACK}?url=${encodedSuccessURL}`;
+          const ourFailureCallback = `${RESUME_CALLBACK}?url=${encodedFailureURL}`;
 
           // Rebuild the UAE Pass URL with our callbacks
           urlObj.searchParams.set('successURL', ourSuccessCallback);
@@ -210,44 +308,60 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
           // Convert back to UAE Pass scheme
           const rewrittenUrl = url.split('?')[0] + '?' + urlObj.searchParams.toString();
           
-          console.log('🔄 Rewritten UAE Pass URL:', rewrittenUrl);
-          console.log('📱 Opening UAE Pass app with rewritten URL...');
+          uaePassLogger.debug('🔄 Rewritten UAE Pass URL:', rewrittenUrl);
+          uaePassLogger.debug('📱 Opening UAE Pass app with rewritten URL...');
 
           setWaitingForCallback(true);
 
           let openUrl = rewrittenUrl;
-          if (env === 'staging' && rewrittenUrl.startsWith('uaepass://')) {
-            openUrl = rewrittenUrl.replace('uaepass://', 'uaepassstg://');
+          if (rewriteScheme && rewrittenUrl.startsWith('uaepass://')) {
+            openUrl = rewrittenUrl.replace('uaepass://', UAE_PASS_SCHEME);
           }
           
-          Linking.openURL(openUrl).catch((err: Error) => {
-            console.error('Failed to open UAE Pass app:', err);
-            onError('Failed to open UAE Pass app');
+          Linking.openURL(openUrl).then(() => {
+            emitUAEPassEvent({ type: 'appLaunched', strategy: 'webView' });
+          }).catch((err: Error) => {
+            uaePassLogger.error('Failed to open UAE Pass app:', err);
+            reportError(new UAEPassError(
+              UAE_PASS_ERROR_CODES.APP_LAUNCH_FAILED,
+              'Failed to open UAE Pass app',
+              { details: err }
+            ));
           });
           
           return false;
         } else {
           // No success/failure URLs, try to open directly
-          console.log('📱 No successURL/failureURL found, opening directly...');
+          uaePassLogger.debug('📱 No successURL/failureURL found, opening directly...');
           let openUrl = url;
-          if (env === 'staging' && url.startsWith('uaepass://')) {
-            openUrl = url.replace('uaepass://', 'uaepassstg://');
+          if (rewriteScheme && url.startsWith('uaepass://')) {
+            openUrl = url.replace('uaepass://', UAE_PASS_SCHEME);
           }
 
-          Linking.openURL(openUrl).catch((err: Error) => {
-            console.error('Failed to open UAE Pass:', err);
-            onError('Failed to open UAE Pass app');
+          Linking.openURL(openUrl).then(() => {
+            emitUAEPassEvent({ type: 'appLaunched', strategy: 'webView' });
+          }).catch((err: Error) => {
+            uaePassLogger.error('Failed to open UAE Pass:', err);
+            reportError(new UAEPassError(
+              UAE_PASS_ERROR_CODES.APP_LAUNCH_FAILED,
+              'Failed to open UAE Pass app',
+              { details: err }
+            ));
           });
           return false;
         }
       } catch (err: any) {
-        console.error('Error processing UAE Pass deep link:', err);
+        uaePassLogger.error('Error processing UAE Pass deep link:', err);
         let openUrl = url;
-        if (env === 'staging' && url.startsWith('uaepass://')) {
-          openUrl = url.replace('uaepass://', 'uaepassstg://');
+        if (rewriteScheme && url.startsWith('uaepass://')) {
+          openUrl = url.replace('uaepass://', UAE_PASS_SCHEME);
         }
         Linking.openURL(openUrl).catch(() => {
-          onError('Failed to process UAE Pass authentication');
+          reportError(new UAEPassError(
+            UAE_PASS_ERROR_CODES.APP_LAUNCH_FAILED,
+            'Failed to process UAE Pass authentication',
+            { details: err }
+          ));
         });
         return false;
       }
@@ -255,19 +369,26 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
 
     // Check if this is our redirect URI with auth code
     if (url.startsWith(redirectUri) || (url.includes(redirectUri.replace(OUR_APP_SCHEME, '')))) {
-      console.log('🎉 Got redirect with auth code!');
+      uaePassLogger.info('🎉 Got redirect with auth code!');
       parseAuthorizationCode(url);
       return false;
     }
 
     // Allow all other URLs
     return true;
-  }, [redirectUri, parseAuthorizationCode, onError, UAE_PASS_SCHEME, OUR_APP_SCHEME, env]);
+  }, [redirectUri, parseAuthorizationCode, reportError, UAE_PASS_SCHEME, OUR_APP_SCHEME, rewriteScheme, RESUME_CALLBACK]);
+
+  const handleCancel = useCallback(() => {
+    clearPendingSession();
+    emitUAEPassEvent({ type: 'cancelled', reason: 'user' });
+    completeFlow(false, UAE_PASS_ERROR_CODES.CANCELLED);
+    onCancel();
+  }, [onCancel, completeFlow]);
 
   // Handle WebView load when waiting for callback and URL changes
   useEffect(() => {
     if (currentUrl !== authUrl && webViewRef.current) {
-      console.log('📱 Loading new URL in WebView:', currentUrl);
+      uaePassLogger.debug('📱 Loading new URL in WebView:', currentUrl);
     }
   }, [currentUrl, authUrl]);
 
@@ -276,15 +397,20 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
       visible={visible}
       animationType="slide"
       presentationStyle="fullScreen"
-      onRequestClose={onCancel}
+      onRequestClose={handleCancel}
     >
       <SafeAreaView style={styles.container}>
         {/* Header */}
-        <View style={styles.header}>
-          <TouchableOpacity onPress={onCancel} style={styles.closeButton}>
+        <View style={[styles.header, mirrorLayout && styles.headerMirrored]}>
+          <TouchableOpacity
+            onPress={handleCancel}
+            style={styles.closeButton}
+            accessibilityRole="button"
+            accessibilityLabel={strings.closeButtonLabel}
+          >
             <Text style={styles.closeText}>✕</Text>
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>UAE Pass Authentication</Text>
+          <Text style={[styles.headerTitle, textDirection]}>{strings.headerTitle}</Text>
           <View style={styles.placeholder} />
         </View>
 
@@ -293,8 +419,8 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
           {loading && (
             <View style={styles.loadingOverlay}>
               <ActivityIndicator size="large" color="#00a651" />
-              <Text style={styles.loadingText}>
-                {waitingForCallback ? 'Waiting for UAE Pass...' : 'Loading...'}
+              <Text style={[styles.loadingText, textDirection]}>
+                {waitingForCallback ? strings.waitingForApp : strings.loading}
               </Text>
             </View>
           )}
@@ -309,7 +435,7 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
             onLoadEnd={() => setLoading(false)}
             onError={(syntheticEvent: any) => {
               const { nativeEvent } = syntheticEvent;
-              console.error('WebView error:', nativeEvent);
+              uaePassLogger.error('WebView error:', nativeEvent);
               const url = nativeEvent.url || '';
               if (
                 url.startsWith(UAE_PASS_SCHEME) ||
@@ -317,10 +443,14 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
                 url.startsWith('uaepassstg://') ||
                 nativeEvent.code === -10
               ) {
-                console.log('ℹ️  Ignoring expected WebView error for custom scheme:', url);
+                uaePassLogger.debug('ℹ️  Ignoring expected WebView error for custom scheme:', url);
                 return;
               }
-              onError(`WebView error: ${nativeEvent.description}`);
+              reportError(new UAEPassError(
+                UAE_PASS_ERROR_CODES.WEBVIEW_ERROR,
+                `WebView error: ${nativeEvent.description}`,
+                { details: nativeEvent }
+              ));
             }}
             javaScriptEnabled={true}
             domStorageEnabled={true}
@@ -328,6 +458,8 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
             scalesPageToFit={true}
             mixedContentMode="always"
             allowsBackForwardNavigationGestures={true}
+            // iOS has no native cookie clearing: keep the session in a non-persistent store
+            incognito={Platform.OS === 'ios'}
             sharedCookiesEnabled={true}
             thirdPartyCookiesEnabled={true}
             originWhitelist={['*']}
@@ -338,8 +470,8 @@ const UAEPassWebViewAuth: React.FC<UAEPassWebViewAuthProps> = ({
         {/* Info when waiting */}
         {waitingForCallback && (
           <View style={styles.waitingBanner}>
-            <Text style={styles.waitingText}>
-              Complete authentication in UAE Pass app, then return here
+            <Text style={[styles.waitingText, textDirection]}>
+              {strings.waitingBanner}
             </Text>
           </View>
         )}
@@ -362,6 +494,9 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#e0e0e0',
   },
+  headerMirrored: {
+    flexDirection: 'row-reverse',
+  },
   closeButton: {
     padding: 8,
     width: 44,
@@ -0,0 +1,213 @@
+import {
+  configureUAEPass,
+  getUAEPassAppSchemes,
+  getUAEPassConfig,
+  getUAEPassResumeCallbackUrl,
+  getUAEPassUrlScheme,
+  UAE_PASS_ENVIRONMENTS,
+  type UAEPassEnvironmentPreset,
+} from './uaePassConfig';
+import { UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+import { uaePassLogger, type UAEPassLogSink } from '../utils/logger';
+
+const BASE_CONFIG = {
+  clientId: 'sandbox_stage',
+  redirectUri: 'uaepasstest://auth/uaepass',
+  logger: 'silent' as const,
+};
+
+const QA: UAEPassEnvironmentPreset = {
+  authorizationEndpoint: 'https://qa-id.example.ae/idshub/authorize',
+  tokenEndpoint: 'https://qa-id.example.ae/idshub/token',
+  userInfoEndpoint: 'https://qa-id.example.ae/idshub/userinfo',
+  logoutEndpoint: 'https://qa-id.example.ae/idshub/logout',
+  issuer: 'https://qa-id.example.ae/trustedx-authserver/oauth/main-as',
+  jwksUri: 'https://qa-id.example.ae/jwks',
+  appSchemes: { ios: 'uaepassqa://', android: 'ae.uaepass.mainapp.qa' },
+};
+
+describe('configureUAEPass - environments', () => {
+  it.each(['staging', 'production'] as const)('fills in the %s endpoints and app schemes', (environment) => {
+    configureUAEPass({ ...BASE_CONFIG, environment });
+
+    const { appSchemes, ...endpoints } = UAE_PASS_ENVIRONMENTS[environment];
+    expect(getUAEPassConfig()).toMatchObject(endpoints);
+    expect(getUAEPassAppSchemes()).toEqual(appSchemes);
+  });
+
+  it('uses the staging app scheme for staging', () => {
+    configureUAEPass({ ...BASE_CONFIG, environment: 'staging' });
+
+    expect(getUAEPassAppSchemes()).toEqual({ ios: 'uaepassstg://', android: 'ae.uaepass.mainapp.stg' });
+    expect(getUAEPassUrlScheme()).toBe('uaepassstg');
+  });
+
+  it('keeps explicit endpoints over the preset', () => {
+    configureUAEPass({
+      ...BASE_CONFIG,
+      environment: 'staging',
+      tokenEndpoint: 'https://auth.example.com/uaepass/token',
+      validation: 'off',
+    });
+
+    expect(getUAEPassConfig()).toMatchObject({
+      authorizationEndpoint: UAE_PASS_ENVIRONMENTS.staging.authorizationEndpoint,
+      tokenEndpoint: 'https://auth.example.com/uaepass/token',
+    });
+  });
+
+  it('applies app scheme overrides for the active environment', () => {
+    configureUAEPass(
+      { ...BASE_CONFIG, environment: 'production' },
+      { production: { ios: 'uaepass://', android: 'ae.uaepass.custom' } }
+    );
+
+    expect(getUAEPassAppSchemes()).toEqual({ ios: 'uaepass://', android: 'ae.uaepass.custom' });
+  });
+
+  it('resolves a custom environment', () => {
+    configureUAEPass({ ...BASE_CONFIG, environment: 'qa', environments: { qa: QA } });
+
+    const { appSchemes, ...endpoints } = QA;
+    expect(getUAEPassConfig()).toMatchObject({ environment: 'qa', ...endpoints });
+    expect(getUAEPassAppSchemes()).toEqual(appSchemes);
+    expect(getUAEPassUrlScheme()).toBe('uaepassqa');
+  });
+
+  it('lets a custom environment replace a built-in one', () => {
+    configureUAEPass({
+      ...BASE_CONFIG,
+      environment: 'staging',
+      environments: { staging: QA },
+      validation: 'off',
+    });
+
+    expect(getUAEPassConfig().authorizationEndpoint).toBe(QA.authorizationEndpoint);
+    expect(getUAEPassAppSchemes()).toEqual(QA.appSchemes);
+  });
+
+  it('rejects an unknown environment without an authorization endpoint', () => {
+    expect(() => configureUAEPass({ ...BASE_CONFIG, environment: 'uat', validation: 'off' })).toThrow(
+      expect.objectContaining({ code: UAE_PASS_ERROR_CODES.NOT_CONFIGURED })
+    );
+  });
+
+  it('falls back to the production app schemes for an ad-hoc environment', () => {
+    configureUAEPass({
+      ...BASE_CONFIG,
+      environment: 'uat',
+      authorizationEndpoint: 'https://uat-id.example.ae/idshub/authorize',
+      validation: 'off',
+    });
+
+    expect(getUAEPassAppSchemes()).toEqual(UAE_PASS_ENVIRONMENTS.production.appSchemes);
+  });
+});
+
+describe('configureUAEPass - resumePath', () => {
+  it('defaults the resume callback to auth/uaepass/resume on the redirect scheme', () => {
+    configureUAEPass({ ...BASE_CONFIG, environment: 'staging' });
+
+    expect(getUAEPassConfig().resumePath).toBe('auth/uaepass/resume');
+    expect(getUAEPassResumeCallbackUrl()).toBe('uaepasstest://auth/uaepass/resume');
+  });
+
+  it('uses a custom resumePath without surrounding slashes', () => {
+    configureUAEPass({ ...BASE_CONFIG, environment: 'staging', resumePath: '/uaepass/continue/' });
+
+    expect(getUAEPassResumeCallbackUrl()).toBe('uaepasstest://uaepass/continue');
+    expect(getUAEPassResumeCallbackUrl('otherapp')).toBe('otherapp://uaepass/continue');
+  });
+});
+
+describe('configureUAEPass - validation', () => {
+  const createSink = (): jest.Mocked<UAEPassLogSink> => ({
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  });
+  const INVALID = { ...BASE_CONFIG, environment: 'staging', clientId: '' };
+
+  it('throws in development by default and keeps the previous config, logger and listener', () => {
+    const previousSink = createSink();
+    const previousListener = jest.fn();
+    configureUAEPass({
+      ...BASE_CONFIG,
+      environment: 'staging',
+      logger: { level: 'warn', sink: previousSink },
+      onEvent: previousListener,
+    });
+    const sink = createSink();
+    const onEvent = jest.fn();
+
+    expect(() =>
+      configureUAEPass({ ...INVALID, environment: 'production', logger: { level: 'warn', sink }, onEvent })
+    ).toThrow(expect.objectContaining({ code: UAE_PASS_ERROR_CODES.INVALID_CONFIG }));
+
+    expect(getUAEPassConfig().environment).toBe('staging');
+    uaePassLogger.warn('after a rejected config');
+    expect(previousSink.warn).toHaveBeenCalledWith('after a rejected config');
+    expect(sink.warn).not.toHaveBeenCalled();
+  });
+
+  it('lists the issues in the INVALID_CONFIG error', () => {
+    let error: unknown;
+    try {
+      configureUAEPass({ ...INVALID, validation: 'throw' });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toMatchObject({
+      code: UAE_PASS_ERROR_CODES.INVALID_CONFIG,
+      details: { issues: [expect.objectContaining({ code: 'MISSING_CLIENT_ID' })] },
+    });
+  });
+
+  it('logs the issues through the new logger in warn mode', () => {
+    const sink = createSink();
+
+    configureUAEPass({ ...INVALID, validation: 'warn', logger: { level: 'warn', sink } });
+
+    expect(getUAEPassConfig().clientId).toBe('');
+    expect(sink.warn).toHaveBeenCalledTimes(1);
+    expect(sink.warn.mock.calls[0][0]).toContain('clientId: clientId is required (MISSING_CLIENT_ID)');
+  });
+
+  it('warns about issues in production even though the default log level is silent', () => {
+    const globals = globalThis as { __DEV__?: boolean };
+    const dev = globals.__DEV__;
+    globals.__DEV__ = false;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      configureUAEPass({ ...INVALID, logger: undefined });
+
+      expect(getUAEPassConfig().clientId).toBe('');
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('clientId: clientId is required (MISSING_CLIENT_ID)');
+      uaePassLogger.warn('regular warning');
+      expect(warn).toHaveBeenCalledTimes(1);
+    } finally {
+      globals.__DEV__ = dev;
+      warn.mockRestore();
+    }
+  });
+
+  it('warns about issues with an explicitly silent logger', () => {
+    const sink = createSink();
+
+    configureUAEPass({ ...INVALID, validation: 'warn', logger: { level: 'silent', sink } });
+
+    expect(sink.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips validation when off', () => {
+    const sink = createSink();
+
+    configureUAEPass({ ...INVALID, validation: 'off', logger: { level: 'debug', sink } });
+
+    expect(getUAEPassConfig().clientId).toBe('');
+    expect(sink.warn).not.toHaveBeenCalled();
+  });
+});
@@ -2,18 +2,120 @@
  * UAE Pass OAuth Configuration
  * 
  * Configurable system for UAE Pass authentication
- * Users provide their own staging/production settings
+ * Built-in staging/production presets fill in endpoints and app schemes;
+ * custom named environments (QA, pre-prod mirrors) can be added per app
  */
 
+import { UAEPassError, UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+import { validateUAEPassConfig, formatUAEPassConfigIssues } from './validateUAEPassConfig';
+import { setUAEPassConfigEventListener, type UAEPassEventListener } from '../telemetry/uaePassEvents';
+import { configureUAEPassLogger, uaePassLogger, type UAEPassLogLevel, type UAEPassLoggerOptions } from '../utils/logger';
+import type { UAEPassStringOverrides } from '../i18n/uaePassStrings';
+import type { UAEPassLocale, UAEPassRandomSource, UAEPassSessionStore } from '../types';
+
+/**
+ * Built-in environments, or the name of a custom environment
+ */
+export type UAEPassEnvironment = 'staging' | 'production' | (string & {});
+
+/**
+ * Endpoints and app identifiers of a UAE Pass environment
+ */
+export interface UAEPassEnvironmentPreset {
+  authorizationEndpoint: string;
+  tokenEndpoint?: string;
+  userInfoEndpoint?: string;
+  logoutEndpoint?: string;
+  /**
+   * ID token issuer (iss); its OpenID discovery document locates the JWKS
+   */
+  issuer?: string;
+  jwksUri?: string;
+  appSchemes: {
+    /** iOS URL scheme, e.g. 'uaepassstg://' */
+    ios: string;
+    /** Android package name, e.g. 'ae.uaepass.mainapp.stg' */
+    android: string;
+  };
+}
+
 export interface UAEPassConfig {
-  environment: 'staging' | 'production';
+  environment: UAEPassEnvironment;
   clientId: string;
   redirectUri: string;
-  authorizationEndpoint: string;
+  /**
+   * Custom named environments, selected via `environment`
+   */
+  environments?: Record<string, UAEPassEnvironmentPreset>;
+  /**
+   * Endpoints default to the selected environment's preset
+   */
+  authorizationEndpoint?: string;
   tokenEndpoint?: string;
   userInfoEndpoint?: string;
+  /**
+   * Logout endpoint (derived from authorizationEndpoint when omitted)
+   */
+  logoutEndpoint?: string;
+  /**
+   * Where UAE Pass redirects after logout (defaults to redirectUri)
+   */
+  postLogoutRedirectUri?: string;
+  /**
+   * Host/path of the WebView resume callback on the redirectUri scheme
+   * (defaults to 'auth/uaepass/resume'); must match the config plugin's resumePath
+   */
+  resumePath?: string;
+  /**
+   * Expected ID token issuer (defaults to the environment preset)
+   */
+  issuer?: string;
+  /**
+   * JWKS used to verify ID tokens (discovered from the issuer when omitted)
+   */
+  jwksUri?: string;
   scopes?: string[];
   channelName?: string;
+  /**
+   * UAE Pass page and UI language (defaults to 'en')
+   */
+  locale?: UAEPassLocale;
+  /**
+   * App-wide overrides for the bundled UI strings, per locale
+   */
+  strings?: UAEPassStringOverrides;
+  /**
+   * How long to wait for the UAE Pass callback (defaults to 5 minutes)
+   */
+  timeoutMs?: number;
+  /**
+   * Optional CSPRNG override (defaults to expo-crypto getRandomBytes)
+   */
+  randomSource?: UAEPassRandomSource;
+  /**
+   * Store for the in-flight auth request (defaults to in-memory)
+   * Use a persistent adapter so callbacks survive app process death
+   */
+  sessionStore?: UAEPassSessionStore;
+  /**
+   * How long a pending auth request stays valid (defaults to 10 minutes)
+   */
+  pendingSessionTtlMs?: number;
+  /**
+   * What configureUAEPass() does with invalid config:
+   * 'throw' (default in __DEV__), 'warn' (default in production) or 'off'
+   */
+  validation?: 'throw' | 'warn' | 'off';
+  /**
+   * Log level, or level and sink (defaults to 'debug' in __DEV__, 'silent' in production)
+   * Codes, state, PKCE verifiers and tokens are always redacted
+   */
+  logger?: UAEPassLoggerOptions | UAEPassLogLevel;
+  /**
+   * Receives flow telemetry events (strategies, callbacks, timings) for analytics
+   * Events never carry codes, state or tokens
+   */
+  onEvent?: UAEPassEventListener;
 }
 
 export interface UAEPassAppSchemes {
@@ -27,6 +129,17 @@ export interface UAEPassAppSchemes {
   };
 }
 
+/**
+ * Configuration after environment presets have been applied
+ */
+export interface UAEPassResolvedConfig extends UAEPassConfig {
+  authorizationEndpoint: string;
+  resumePath: string;
+  scopes: string[];
+}
+
+export const DEFAULT_UAE_PASS_RESUME_PATH = 'auth/uaepass/resume';
+
 // Default app schemes (can be overridden)
 const DEFAULT_APP_SCHEMES: UAEPassAppSchemes = {
   staging: {
@@ -39,6 +152,26 @@ const DEFAULT_APP_SCHEMES: UAEPassAppSchemes = {
   },
 };
 
+// Built-in environment presets
+export const UAE_PASS_ENVIRONMENTS: Record<'staging' | 'production', UAEPassEnvironmentPreset> = {
+  staging: {
+    authorizationEndpoint: 'https://stg-id.uaepass.ae/idshub/authorize',
+    tokenEndpoint: 'https://stg-id.uaepass.ae/idshub/token',
+    userInfoEndpoint: 'https://stg-id.uaepass.ae/idshub/userinfo',
+    logoutEndpoint: 'https://stg-id.uaepass.ae/idshub/logout',
+    issuer: 'https://stg-id.uaepass.ae/trustedx-authserver/oauth/main-as',
+    appSchemes: DEFAULT_APP_SCHEMES.staging,
+  },
+  production: {
+    authorizationEndpoint: 'https://id.uaepass.ae/idshub/authorize',
+    tokenEndpoint: 'https://id.uaepass.ae/idshub/token',
+    userInfoEndpoint: 'https://id.uaepass.ae/idshub/userinfo',
+    logoutEndpoint: 'https://id.uaepass.ae/idshub/logout',
+    issuer: 'https://id.uaepass.ae/trustedx-authserver/oauth/main-as',
+    appSchemes: DEFAULT_APP_SCHEMES.production,
+  },
+};
+
 // Default scopes
 const DEFAULT_SCOPES = [
   'urn:uae:digitalid:profile:general',
@@ -58,29 +191,50 @@ export const UAE_PASS_ACR_VALUES = {
    */
   MOBILE_ON_DEVICE: 'urn:digitalid:authentication:flow:mobileondevice',
   
-  // Medium and High levels (not commonly used in mobile)
+  // Medium and High levels (step-up via reauthenticate())
   MEDIUM: 'urn:safelayer:tws:policies:authentication:level:medium',
   HIGH: 'urn:safelayer:tws:policies:authentication:level:high',
 } as const;
 
 // Global config instance
-let globalConfig: UAEPassConfig | null = null;
-let globalAppSchemes: UAEPassAppSchemes = DEFAULT_APP_SCHEMES;
+let globalConfig: UAEPassResolvedConfig | null = null;
+let globalAppSchemes: { ios: string; android: string } = DEFAULT_APP_SCHEMES.production;
+
+/**
+ * Find the preset for an environment (custom environments take precedence)
+ */
+const getEnvironmentPreset = (
+  environment: UAEPassEnvironment,
+  customEnvironments?: Record<string, UAEPassEnvironmentPreset>
+): UAEPassEnvironmentPreset | undefined => {
+  return customEnvironments?.[environment] ||
+    UAE_PASS_ENVIRONMENTS[environment as keyof typeof UAE_PASS_ENVIRONMENTS];
+};
 
 /**
  * Initialize UAE Pass configuration
  * Call this once in your app initialization (e.g., App.tsx)
  * 
+ * Endpoints and app schemes not given explicitly are filled in from the
+ * environment's preset (built-in staging/production, or `environments[name]`)
+ * 
+ * The config is validated first (see validateUAEPassConfig). Errors throw in
+ * development and are logged in production, unless `validation` says otherwise.
+ * A config that throws changes nothing - the previous config, logger and
+ * event listener stay in place.
+ * 
  * @param config - UAE Pass configuration
  * @param appSchemes - Optional app schemes override
  * 
+ * @throws UAEPassError (INVALID_CONFIG) when validation fails in 'throw' mode
+ * @throws UAEPassError (NOT_CONFIGURED) for an unknown environment without an authorizationEndpoint
+ * 
  * @example
  * ```typescript
  * configureUAEPass({
  *   environment: __DEV__ ? 'staging' : 'production',
  *   clientId: 'your_client_id',
  *   redirectUri: 'yourapp://auth/uaepass',
- *   authorizationEndpoint: 'https://stg-id.uaepass.ae/idshub/authorize',
  * });
  * ```
  */
@@ -88,44 +242,105 @@ export const configureUAEPass = (
   config: UAEPassConfig,
   appSchemes?: Partial<UAEPassAppSchemes>
 ) => {
+  const validation =
+    config.validation || (typeof __DEV__ !== 'undefined' && __DEV__ ? 'throw' : 'warn');
+  const { valid, issues } =
+    validation === 'off' ? { valid: true, issues: [] } : validateUAEPassConfig(config, appSchemes);
+  
+  if (!valid && validation === 'throw') {
+    throw new UAEPassError(
+      UAE_PASS_ERROR_CODES.INVALID_CONFIG,
+      `Invalid UAE Pass configuration:\n${formatUAEPassConfigIssues(issues)}`,
+      { details: { issues } }
+    );
+  }
+  
+  const preset = getEnvironmentPreset(config.environment, config.environments);
+  const authorizationEndpoint = config.authorizationEndpoint || preset?.authorizationEndpoint;
+  
+  if (!authorizationEndpoint) {
+    throw new UAEPassError(
+      UAE_PASS_ERROR_CODES.NOT_CONFIGURED,
+      `Unknown UAE Pass environment "${config.environment}". Add it to \`environments\` or set authorizationEndpoint.`
+    );
+  }
+  
+  configureUAEPassLogger(config.logger);
+  setUAEPassConfigEventListener(config.onEvent);
+  
+  if (issues.length > 0) {
+    // Not subject to the log level: production defaults to 'silent', and a broken
+    // production config must still be reported
+    uaePassLogger.warnAlways(`UAE Pass configuration issues:\n${formatUAEPassConfigIssues(issues)}`);
+  }
+  
   globalConfig = {
     ...config,
+    authorizationEndpoint,
+    tokenEndpoint: config.tokenEndpoint || preset?.tokenEndpoint,
+    userInfoEndpoint: config.userInfoEndpoint || preset?.userInfoEndpoint,
+    logoutEndpoint: config.logoutEndpoint || preset?.logoutEndpoint,
+    issuer: config.issuer || preset?.issuer,
+    jwksUri: config.jwksUri || preset?.jwksUri,
+    resumePath: (config.resumePath || DEFAULT_UAE_PASS_RESUME_PATH).replace(/^\/+|\/+$/g, ''),
     scopes: config.scopes || DEFAULT_SCOPES,
   };
   
-  if (appSchemes) {
-    globalAppSchemes = {
-      staging: { ...DEFAULT_APP_SCHEMES.staging, ...appSchemes.staging },
-      production: { ...DEFAULT_APP_SCHEMES.production, ...appSchemes.production },
-    };
-  }
+  // Explicit overrides > environment preset > production defaults
+  const schemeOverride =
+    config.environment === 'staging' || config.environment === 'production'
+      ? appSchemes?.[config.environment as keyof UAEPassAppSchemes]
+      : undefined;
+  globalAppSchemes = {
+    ...(preset?.appSchemes || DEFAULT_APP_SCHEMES.production),
+    ...schemeOverride,
+  };
 };
 
 /**
  * Get current configuration
- * @throws Error if not configured
+ * @throws UAEPassError (NOT_CONFIGURED) if not configured
  */
-export const getUAEPassConfig = (): UAEPassConfig => {
+export const getUAEPassConfig = (): UAEPassResolvedConfig => {
   if (!globalConfig) {
-    throw new Error(
+    throw new UAEPassError(
+      UAE_PASS_ERROR_CODES.NOT_CONFIGURED,
       'UAE Pass not configured. Please call configureUAEPass() first in your app initialization.'
     );
   }
   return globalConfig;
 };
 
+/**
+ * WebView resume callback without its query, e.g. `yourapp://auth/uaepass/resume`
+ * UAEPassWebViewAuth hands it to the UAE Pass app; resumePendingUAEPassAuth recognises it
+ *
+ * @param scheme - App scheme (defaults to the redirectUri scheme)
+ */
+export const getUAEPassResumeCallbackUrl = (scheme?: string): string => {
+  const config = getUAEPassConfig();
+  return `${scheme || config.redirectUri.split('://')[0]}://${config.resumePath}`;
+};
+
 /**
  * Get app schemes for current environment
  */
 export const getUAEPassAppSchemes = (): { ios: string; android: string } => {
-  const config = getUAEPassConfig();
-  return globalAppSchemes[config.environment];
+  getUAEPassConfig();
+  return globalAppSchemes;
+};
+
+/**
+ * Get the UAE Pass URL scheme for current environment, without "://" (e.g. 'uaepassstg')
+ */
+export const getUAEPassUrlScheme = (): string => {
+  return getUAEPassAppSchemes().ios.replace(/:\/\/.*$/, '');
 };
 
 /**
  * Get current environment
  */
-export const getUAEPassEnvironment = (): 'staging' | 'production' => {
+export const getUAEPassEnvironment = (): UAEPassEnvironment => {
   const config = getUAEPassConfig();
   return config.environment;
 };
@@ -134,7 +349,9 @@ export default {
   configureUAEPass,
   getUAEPassConfig,
   getUAEPassAppSchemes,
+  getUAEPassUrlScheme,
   getUAEPassEnvironment,
   UAE_PASS_ACR_VALUES,
+  UAE_PASS_ENVIRONMENTS,
 };
 
@@ -0,0 +1,162 @@
+import { validateUAEPassConfig, formatUAEPassConfigIssues } from './validateUAEPassConfig';
+import type { UAEPassConfig } from './uaePassConfig';
+
+const STAGING: UAEPassConfig = {
+  clientId: 'sandbox_stage',
+  redirectUri: 'yourapp://auth/uaepass',
+  environment: 'staging',
+};
+
+const issuesOf = (config: Partial<UAEPassConfig>, appSchemes?: Parameters<typeof validateUAEPassConfig>[1]) =>
+  validateUAEPassConfig({ ...STAGING, ...config }, appSchemes).issues.map(({ code, field, severity }) => ({
+    code,
+    field,
+    severity,
+  }));
+
+describe('validateUAEPassConfig', () => {
+  it('accepts the built-in environments', () => {
+    expect(validateUAEPassConfig(STAGING)).toEqual({ valid: true, issues: [] });
+    expect(validateUAEPassConfig({ ...STAGING, environment: 'production' })).toEqual({ valid: true, issues: [] });
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['blank', '  '],
+  ])('reports a %s clientId', (_, clientId) => {
+    expect(issuesOf({ clientId: clientId as string })).toEqual([
+      { code: 'MISSING_CLIENT_ID', field: 'clientId', severity: 'error' },
+    ]);
+  });
+
+  it.each([
+    ['missing', ''],
+    ['without a scheme', 'auth/uaepass'],
+    ['with a fragment', 'yourapp://auth/uaepass#done'],
+  ])('rejects a redirectUri %s', (_, redirectUri) => {
+    const result = validateUAEPassConfig({ ...STAGING, redirectUri });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ code: 'INVALID_REDIRECT_URI', severity: 'error' })]);
+  });
+
+  it('warns about a plain http redirectUri', () => {
+    expect(issuesOf({ redirectUri: 'http://example.com/callback' })).toEqual([
+      { code: 'INVALID_REDIRECT_URI', field: 'redirectUri', severity: 'warning' },
+    ]);
+  });
+
+  it.each([
+    ['empty', '/'],
+    ['with a scheme', 'yourapp://auth/uaepass/resume'],
+    ['with a query', 'auth/uaepass/resume?x=1'],
+    ['equal to the redirect path', '/auth/uaepass/'],
+  ])('rejects a resumePath %s', (_, resumePath) => {
+    expect(issuesOf({ resumePath })).toEqual([
+      { code: 'INVALID_RESUME_PATH', field: 'resumePath', severity: 'error' },
+    ]);
+  });
+
+  it('accepts a custom resumePath', () => {
+    expect(issuesOf({ resumePath: 'uaepass-resume' })).toEqual([]);
+  });
+
+  it('reports an unknown environment without an authorization endpoint', () => {
+    expect(issuesOf({ environment: 'uat' })).toEqual([
+      { code: 'UNKNOWN_ENVIRONMENT', field: 'environment', severity: 'error' },
+    ]);
+    expect(issuesOf({ environment: 'uat', authorizationEndpoint: 'https://uat-id.example.ae/idshub/authorize' })).toEqual([]);
+  });
+
+  it('accepts a custom environment on its own hosts', () => {
+    expect(
+      issuesOf({
+        environment: 'qa',
+        environments: {
+          qa: {
+            authorizationEndpoint: 'https://qa-id.example.ae/idshub/authorize',
+            appSchemes: { ios: 'uaepassqa://', android: 'ae.uaepass.mainapp.qa' },
+          },
+        },
+        tokenEndpoint: 'https://qa-id.example.ae/idshub/token',
+      })
+    ).toEqual([]);
+  });
+
+  it.each([
+    ['a relative URL', '/idshub/token'],
+    ['plain http', 'http://stg-id.uaepass.ae/idshub/token'],
+  ])('rejects an endpoint with %s', (_, tokenEndpoint) => {
+    expect(issuesOf({ tokenEndpoint })).toEqual([
+      { code: 'INVALID_ENDPOINT', field: 'tokenEndpoint', severity: 'error' },
+    ]);
+  });
+
+  it('accepts a loopback http endpoint for a mock identity provider', () => {
+    expect(issuesOf({ environment: 'mock', authorizationEndpoint: 'http://127.0.0.1:4000/idshub/authorize' })).toEqual([]);
+  });
+
+  it('rejects production endpoints under staging and vice versa', () => {
+    expect(issuesOf({ tokenEndpoint: 'https://id.uaepass.ae/idshub/token' })).toEqual([
+      { code: 'ENDPOINT_ENVIRONMENT_MISMATCH', field: 'tokenEndpoint', severity: 'error' },
+    ]);
+    expect(
+      issuesOf({ environment: 'production', userInfoEndpoint: 'https://stg-id.uaepass.ae/idshub/userinfo' })
+    ).toEqual([{ code: 'ENDPOINT_ENVIRONMENT_MISMATCH', field: 'userInfoEndpoint', severity: 'error' }]);
+  });
+
+  it('warns about a non-UAE Pass host under a built-in environment', () => {
+    expect(issuesOf({ tokenEndpoint: 'https://auth.example.com/uaepass/token' })).toEqual([
+      { code: 'ENDPOINT_ENVIRONMENT_MISMATCH', field: 'tokenEndpoint', severity: 'warning' },
+    ]);
+  });
+
+  it('warns about unknown scopes', () => {
+    const result = validateUAEPassConfig({ ...STAGING, scopes: ['openid', 'urn:uae:digitalid:profile:email'] });
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([
+      {
+        code: 'UNKNOWN_SCOPE',
+        field: 'scopes',
+        severity: 'warning',
+        message: 'Scope "urn:uae:digitalid:profile:email" is not a known UAE Pass scope',
+      },
+    ]);
+  });
+
+  it('rejects a staging app scheme for the active production environment', () => {
+    expect(
+      issuesOf(
+        { environment: 'production' },
+        { production: { ios: 'uaepassstg://', android: 'ae.uaepass.mainapp' } }
+      )
+    ).toEqual([{ code: 'APP_SCHEME_MISMATCH', field: 'appSchemes.production.ios', severity: 'error' }]);
+  });
+
+  it('only warns about app schemes of the inactive environment', () => {
+    expect(issuesOf({}, { production: { ios: 'uaepass://', android: 'ae.uaepass.mainapp.stg' } })).toEqual([
+      { code: 'APP_SCHEME_MISMATCH', field: 'appSchemes.production.android', severity: 'warning' },
+    ]);
+    expect(issuesOf({}, { staging: { ios: 'uaepass://', android: 'ae.uaepass.mainapp.stg' } })).toEqual([
+      { code: 'APP_SCHEME_MISMATCH', field: 'appSchemes.staging.ios', severity: 'error' },
+    ]);
+  });
+
+  it('returns every issue at once', () => {
+    const { valid, issues } = validateUAEPassConfig({
+      ...STAGING,
+      clientId: '',
+      redirectUri: 'yourapp://auth#x',
+      tokenEndpoint: 'https://id.uaepass.ae/idshub/token',
+    });
+
+    expect(valid).toBe(false);
+    expect(issues.map((issue) => issue.code)).toEqual([
+      'MISSING_CLIENT_ID',
+      'INVALID_REDIRECT_URI',
+      'ENDPOINT_ENVIRONMENT_MISMATCH',
+    ]);
+    expect(formatUAEPassConfigIssues(issues).split('\n')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * UAE Pass Configuration Validation
+ *
+ * Catches misconfigurations at configureUAEPass() time instead of mid-login,
+ * and returns every problem found as a structured list
+ */
+
+import {
+  UAE_PASS_ENVIRONMENTS,
+  type UAEPassAppSchemes,
+  type UAEPassConfig,
+} from './uaePassConfig';
+
+export type UAEPassConfigIssueCode =
+  | 'MISSING_CLIENT_ID'
+  | 'INVALID_REDIRECT_URI'
+  | 'INVALID_RESUME_PATH'
+  | 'UNKNOWN_ENVIRONMENT'
+  | 'INVALID_ENDPOINT'
+  | 'ENDPOINT_ENVIRONMENT_MISMATCH'
+  | 'UNKNOWN_SCOPE'
+  | 'APP_SCHEME_MISMATCH';
+
+export interface UAEPassConfigIssue {
+  code: UAEPassConfigIssueCode;
+  /**
+   * Config field the issue is about (e.g. 'redirectUri', 'appSchemes.production.android')
+   */
+  field: string;
+  /**
+   * 'error' issues break login; 'warning' issues are likely mistakes
+   */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface UAEPassConfigValidationResult {
+  /**
+   * True when there are no 'error' issues
+   */
+  valid: boolean;
+  issues: UAEPassConfigIssue[];
+}
+
+/**
+ * Scopes supported by UAE Pass
+ */
+export const UAE_PASS_KNOWN_SCOPES: readonly string[] = [
+  'openid',
+  'urn:uae:digitalid:profile',
+  'urn:uae:digitalid:profile:general',
+  'urn:uae:digitalid:profile:general:profileType',
+  'urn:uae:digitalid:profile:general:unifiedId',
+];
+
+/**
+ * UAE Pass identity host of a built-in environment
+ * Read lazily - uaePassConfig imports this module
+ */
+const getEnvironmentHost = (environment: 'staging' | 'production'): string => {
+  return new URL(UAE_PASS_ENVIRONMENTS[environment].authorizationEndpoint).host;
+};
+
+const ENDPOINT_FIELDS = [
+  'authorizationEndpoint',
+  'tokenEndpoint',
+  'userInfoEndpoint',
+  'logoutEndpoint',
+  'issuer',
+  'jwksUri',
+] as const;
+
+/**
+ * Parse a URL, returning null instead of throwing
+ */
+const tryParseUrl = (value: string): URL | null => {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Plain http is only accepted for local mock identity providers
+ */
+const isLoopbackUrl = (url: URL): boolean =>
+  url.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+
+const validateRedirectUri = (redirectUri: string, issues: UAEPassConfigIssue[]) => {
+  const invalid = (message: string) =>
+    issues.push({ code: 'INVALID_REDIRECT_URI', field: 'redirectUri', severity: 'error', message });
+
+  if (!redirectUri) {
+    invalid('redirectUri is required');
+    return;
+  }
+  if (!/^[a-zA-Z][a-zA-Z0-9+.-]*:\/\/[^\s]+$/.test(redirectUri)) {
+    invalid(`redirectUri "${redirectUri}" must include a scheme and a path, e.g. "yourapp://auth/uaepass"`);
+    return;
+  }
+  if (redirectUri.includes('#')) {
+    invalid('redirectUri must not contain a fragment (#)');
+  }
+  if (/^http:\/\//i.test(redirectUri)) {
+    issues.push({
+      code: 'INVALID_REDIRECT_URI',
+      field: 'redirectUri',
+      severity: 'warning',
+      message: 'redirectUri uses plain http; use your app scheme or https',
+    });
+  }
+};
+
+const validateResumePath = (config: UAEPassConfig, issues: UAEPassConfigIssue[]) => {
+  if (config.resumePath === undefined) return;
+  const invalid = (message: string) =>
+    issues.push({ code: 'INVALID_RESUME_PATH', field: 'resumePath', severity: 'error', message });
+
+  const path = config.resumePath.replace(/^\/+|\/+$/g, '');
+  if (!path || /[:?#\s]/.test(path)) {
+    invalid(`resumePath "${config.resumePath}" must be a host and path without scheme or query, e.g. "auth/uaepass/resume"`);
+    return;
+  }
+  const redirectPath = /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\/([^?#]*)/.exec(config.redirectUri || '')?.[1].replace(/\/+$/, '');
+  if (path === redirectPath) {
+    invalid('resumePath must differ from the redirectUri path, or resume links are taken for callbacks');
+  }
+};
+
+const validateEndpoints = (config: UAEPassConfig, issues: UAEPassConfigIssue[]) => {
+  const environment = config.environment as string;
+
+  for (const field of ENDPOINT_FIELDS) {
+    const value = config[field];
+    if (!value) continue;
+
+    const url = tryParseUrl(value);
+    if (!url || (url.protocol !== 'https:' && !isLoopbackUrl(url))) {
+      issues.push({
+        code: 'INVALID_ENDPOINT',
+        field,
+        severity: 'error',
+        message: `${field} "${value}" must be an absolute https URL`,
+      });
+      continue;
+    }
+
+    // Host checks only apply to the built-in environments
+    if (environment !== 'staging' && environment !== 'production') continue;
+
+    const expectedHost = getEnvironmentHost(environment);
+    const otherEnvironment = environment === 'staging' ? 'production' : 'staging';
+    if (url.host === getEnvironmentHost(otherEnvironment)) {
+      issues.push({
+        code: 'ENDPOINT_ENVIRONMENT_MISMATCH',
+        field,
+        severity: 'error',
+        message: `${field} points at ${otherEnvironment} (${url.host}) but environment is "${environment}" (expected ${expectedHost})`,
+      });
+    } else if (url.host !== expectedHost) {
+      issues.push({
+        code: 'ENDPOINT_ENVIRONMENT_MISMATCH',
+        field,
+        severity: 'warning',
+        message: `${field} host ${url.host} is not the UAE Pass ${environment} host (${expectedHost})`,
+      });
+    }
+  }
+};
+
+const validateAppSchemes = (
+  config: UAEPassConfig,
+  appSchemes: Partial<UAEPassAppSchemes> | undefined,
+  issues: UAEPassConfigIssue[]
+) => {
+  if (!appSchemes) return;
+
+  (['staging', 'production'] as const).forEach((environment) => {
+    const schemes = appSchemes[environment];
+    if (!schemes) return;
+
+    (['ios', 'android'] as const).forEach((platform) => {
+      const value = schemes[platform];
+      if (!value) return;
+
+      const looksStaging = /stg/i.test(value);
+      if (environment === 'production' ? looksStaging : !looksStaging) {
+        issues.push({
+          code: 'APP_SCHEME_MISMATCH',
+          field: `appSchemes.${environment}.${platform}`,
+          // Only the active environment's schemes are used at runtime
+          severity: environment === config.environment ? 'error' : 'warning',
+          message: `${platform} ${environment} app scheme "${value}" looks like a ${looksStaging ? 'staging' : 'production'} value`,
+        });
+      }
+    });
+  });
+};
+
+/**
+ * Validate a UAE Pass configuration
+ *
+ * @param config - Configuration as passed to configureUAEPass()
+ * @param appSchemes - Optional app schemes override as passed to configureUAEPass()
+ * @returns Every problem found; `valid` is false when any has severity 'error'
+ *
+ * @example
+ * ```typescript
+ * expect(validateUAEPassConfig(appUAEPassConfig).issues).toEqual([]);
+ * ```
+ */
+export const validateUAEPassConfig = (
+  config: UAEPassConfig,
+  appSchemes?: Partial<UAEPassAppSchemes>
+): UAEPassConfigValidationResult => {
+  const issues: UAEPassConfigIssue[] = [];
+
+  if (!config.clientId || !config.clientId.trim()) {
+    issues.push({
+      code: 'MISSING_CLIENT_ID',
+      field: 'clientId',
+      severity: 'error',
+      message: 'clientId is required',
+    });
+  }
+
+  validateRedirectUri(config.redirectUri, issues);
+  validateResumePath(config, issues);
+
+  const isKnownEnvironment =
+    config.environment === 'staging' ||
+    config.environment === 'production' ||
+    !!config.environments?.[config.environment];
+  if (!isKnownEnvironment && !config.authorizationEndpoint) {
+    issues.push({
+      code: 'UNKNOWN_ENVIRONMENT',
+      field: 'environment',
+      severity: 'error',
+      message: `Unknown environment "${config.environment}". Add it to \`environments\` or set authorizationEndpoint.`,
+    });
+  }
+
+  validateEndpoints(config, issues);
+
+  config.scopes?.forEach((scope) => {
+    if (!UAE_PASS_KNOWN_SCOPES.includes(scope)) {
+      issues.push({
+        code: 'UNKNOWN_SCOPE',
+        field: 'scopes',
+        severity: 'warning',
+        message: `Scope "${scope}" is not a known UAE Pass scope`,
+      });
+    }
+  });
+
+  validateAppSchemes(config, appSchemes, issues);
+
+  return {
+    valid: !issues.some((issue) => issue.severity === 'error'),
+    issues,
+  };
+};
+
+/**
+ * Format issues for logs and error messages
+ */
+export const formatUAEPassConfigIssues = (issues: UAEPassConfigIssue[]): string => {
+  return issues
+    .map((issue) => `  - [${issue.severity}] ${issue.field}: ${issue.message} (${issue.code})`)
+    .join('\n');
+};
+
+export default validateUAEPassConfig;
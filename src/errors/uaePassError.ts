@@ -0,0 +1,153 @@
+/**
+ * UAE Pass Errors
+ *
+ * Stable error codes for every failure path, so callers can branch on
+ * failures and report them without matching on message text
+ */
+
+import type { UAEPassAuthResult } from '../types';
+
+export const UAE_PASS_ERROR_CODES = {
+  /** User cancelled or dismissed the flow (includes OAuth access_denied) */
+  CANCELLED: 'CANCELLED',
+  /** No callback was received in time */
+  TIMEOUT: 'TIMEOUT',
+  /** Callback state did not match the request (possible CSRF) */
+  STATE_MISMATCH: 'STATE_MISMATCH',
+  /** The UAE Pass app could not be opened */
+  APP_LAUNCH_FAILED: 'APP_LAUNCH_FAILED',
+  /** UAEPassModule is not linked (expo plugin missing or not rebuilt) */
+  NATIVE_MODULE_MISSING: 'NATIVE_MODULE_MISSING',
+  /** UAE Pass returned an OAuth error - see oauthError/oauthErrorDescription */
+  OAUTH_ERROR: 'OAUTH_ERROR',
+  /** A request could not reach UAE Pass */
+  NETWORK: 'NETWORK',
+  /** configureUAEPass() was not called or a required setting is missing */
+  NOT_CONFIGURED: 'NOT_CONFIGURED',
+  /** configureUAEPass() received an invalid configuration - see details.issues */
+  INVALID_CONFIG: 'INVALID_CONFIG',
+  /** Callback had neither a code nor an error */
+  NO_AUTHORIZATION_CODE: 'NO_AUTHORIZATION_CODE',
+  /** Callback URL could not be parsed */
+  INVALID_CALLBACK: 'INVALID_CALLBACK',
+  /** The persisted pending session is older than its TTL */
+  SESSION_EXPIRED: 'SESSION_EXPIRED',
+  /** Token endpoint rejected the code exchange */
+  TOKEN_EXCHANGE_FAILED: 'TOKEN_EXCHANGE_FAILED',
+  /** Userinfo endpoint failed or returned an invalid profile */
+  USERINFO_FAILED: 'USERINFO_FAILED',
+  /** The authentication WebView failed to load */
+  WEBVIEW_ERROR: 'WEBVIEW_ERROR',
+  /** UAE Pass reported that document signing failed */
+  SIGNING_FAILED: 'SIGNING_FAILED',
+  /** The ID token does not meet the acr / auth_time a reauthenticate() flow asked for */
+  STEP_UP_FAILED: 'STEP_UP_FAILED',
+  /** The ID token is not a well-formed JWT or lacks required claims */
+  ID_TOKEN_MALFORMED: 'ID_TOKEN_MALFORMED',
+  /** The ID token is signed with an algorithm other than RS256/RS384/RS512 */
+  ID_TOKEN_UNSUPPORTED_ALGORITHM: 'ID_TOKEN_UNSUPPORTED_ALGORITHM',
+  /** The JWKS could not be fetched or read */
+  JWKS_UNAVAILABLE: 'JWKS_UNAVAILABLE',
+  /** No JWKS key matches the ID token (kid / algorithm) */
+  ID_TOKEN_KEY_NOT_FOUND: 'ID_TOKEN_KEY_NOT_FOUND',
+  /** The ID token signature does not verify */
+  ID_TOKEN_INVALID_SIGNATURE: 'ID_TOKEN_INVALID_SIGNATURE',
+  /** iss is not the configured issuer */
+  ID_TOKEN_INVALID_ISSUER: 'ID_TOKEN_INVALID_ISSUER',
+  /** aud does not contain the client ID (or azp is another client) */
+  ID_TOKEN_INVALID_AUDIENCE: 'ID_TOKEN_INVALID_AUDIENCE',
+  /** exp has passed */
+  ID_TOKEN_EXPIRED: 'ID_TOKEN_EXPIRED',
+  /** iat is in the future */
+  ID_TOKEN_ISSUED_IN_FUTURE: 'ID_TOKEN_ISSUED_IN_FUTURE',
+  /** nonce does not match the authorization request */
+  ID_TOKEN_NONCE_MISMATCH: 'ID_TOKEN_NONCE_MISMATCH',
+  /** acr is weaker than required */
+  ID_TOKEN_ACR_MISMATCH: 'ID_TOKEN_ACR_MISMATCH',
+  /** Anything else */
+  UNKNOWN: 'UNKNOWN',
+} as const;
+
+export type UAEPassErrorCode = typeof UAE_PASS_ERROR_CODES[keyof typeof UAE_PASS_ERROR_CODES];
+
+/**
+ * Typed UAE Pass error
+ */
+export class UAEPassError extends Error {
+  readonly code: UAEPassErrorCode;
+  /** OAuth `error` parameter, for OAUTH_ERROR and OAuth-originated CANCELLED */
+  readonly oauthError?: string;
+  /** OAuth `error_description` parameter */
+  readonly oauthErrorDescription?: string;
+  readonly details?: any;
+
+  constructor(
+    code: UAEPassErrorCode,
+    message: string,
+    extra?: { oauthError?: string; oauthErrorDescription?: string; details?: any }
+  ) {
+    super(message);
+    this.name = 'UAEPassError';
+    this.code = code;
+    this.oauthError = extra?.oauthError;
+    this.oauthErrorDescription = extra?.oauthErrorDescription;
+    this.details = extra?.details;
+  }
+}
+
+/**
+ * Check if a value is a UAEPassError (optionally with a specific code)
+ */
+export const isUAEPassError = (
+  error: unknown,
+  code?: UAEPassErrorCode
+): error is UAEPassError => {
+  return error instanceof UAEPassError && (code === undefined || error.code === code);
+};
+
+/**
+ * Wrap an unknown thrown value in a UAEPassError
+ */
+export const toUAEPassError = (
+  error: unknown,
+  fallbackCode: UAEPassErrorCode = UAE_PASS_ERROR_CODES.UNKNOWN,
+  fallbackMessage = 'Authentication error'
+): UAEPassError => {
+  if (error instanceof UAEPassError) {
+    return error;
+  }
+  return new UAEPassError(
+    fallbackCode,
+    error instanceof Error ? error.message : fallbackMessage,
+    { details: error }
+  );
+};
+
+/**
+ * Build a failed UAEPassAuthResult from a UAEPassError
+ * `error` keeps the human-readable message for existing callers
+ */
+export const toFailureResult = (error: UAEPassError): UAEPassAuthResult => ({
+  success: false,
+  error: error.message,
+  errorCode: error.code,
+  uaePassError: error,
+  details: error.details,
+});
+
+/**
+ * Map OAuth error parameters from a callback to a UAEPassError
+ * access_denied (and our own failureURL "cancelled") mean the user cancelled in UAE Pass
+ */
+export const fromOAuthError = (oauthError: string, oauthErrorDescription?: string | null): UAEPassError => {
+  const description = oauthErrorDescription || undefined;
+  const code =
+    oauthError === 'access_denied' || oauthError === 'cancelled'
+      ? UAE_PASS_ERROR_CODES.CANCELLED
+      : UAE_PASS_ERROR_CODES.OAUTH_ERROR;
+
+  return new UAEPassError(code, description || oauthError, {
+    oauthError,
+    oauthErrorDescription: description,
+  });
+};
@@ -0,0 +1,148 @@
+/**
+ * UAE Pass Authentication State Machine
+ *
+ * Reducer behind useUAEPassAuth:
+ * idle → detectingApp → awaitingApp | awaitingBrowser | awaitingWebView
+ *      → exchanging → authenticated | failed | cancelled
+ *
+ * Timestamps are passed in with each action so the reducer stays pure (StrictMode-safe)
+ */
+
+import { UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+import type { UAEPassAuthResult, UAEPassUserProfile } from '../types';
+
+export type UAEPassAuthStatus =
+  | 'idle'
+  | 'detectingApp'
+  | 'awaitingApp'
+  | 'awaitingBrowser'
+  | 'awaitingWebView'
+  | 'exchanging'
+  | 'authenticated'
+  | 'failed'
+  | 'cancelled';
+
+export interface UAEPassAuthState {
+  status: UAEPassAuthStatus;
+  result: UAEPassAuthResult | null;
+  userProfile: UAEPassUserProfile | null;
+  /**
+   * When the current flow started (ms since epoch)
+   */
+  startedAt: number | null;
+  /**
+   * When status last changed (ms since epoch)
+   */
+  updatedAt: number | null;
+  /**
+   * True while a mounted UAEPassAuthHost is presenting the WebView (status awaitingWebView)
+   */
+  presenting: boolean;
+}
+
+export type UAEPassAuthAction =
+  | { type: 'START'; at: number }
+  | {
+      type: 'AWAIT';
+      status: 'awaitingApp' | 'awaitingBrowser' | 'awaitingWebView';
+      result?: UAEPassAuthResult;
+      presenting?: boolean;
+      at: number;
+    }
+  | { type: 'RESOLVE'; result: UAEPassAuthResult; at: number }
+  | { type: 'EXCHANGE_START'; at: number }
+  | { type: 'EXCHANGE_SUCCESS'; userProfile: UAEPassUserProfile | null; at: number }
+  | { type: 'EXCHANGE_FAILURE'; result: UAEPassAuthResult; at: number }
+  | { type: 'RESET' };
+
+export const initialUAEPassAuthState: UAEPassAuthState = {
+  status: 'idle',
+  result: null,
+  userProfile: null,
+  startedAt: null,
+  updatedAt: null,
+  presenting: false,
+};
+
+/**
+ * Statuses during which a flow is running
+ * awaitingWebView only counts while the host presents it (see isUAEPassAuthInProgress)
+ */
+export const IN_PROGRESS_STATUSES: readonly UAEPassAuthStatus[] = [
+  'detectingApp',
+  'awaitingApp',
+  'awaitingBrowser',
+  'exchanging',
+];
+
+/**
+ * Whether a flow is running
+ * A WebView handed back to the caller is not - the hook has returned and the UI owns it
+ */
+export const isUAEPassAuthInProgress = (state: UAEPassAuthState): boolean =>
+  IN_PROGRESS_STATUSES.includes(state.status) || (state.status === 'awaitingWebView' && state.presenting);
+
+/**
+ * Map a finished auth result to its terminal status
+ */
+export const statusForResult = (result: UAEPassAuthResult): UAEPassAuthStatus => {
+  if (result.success) return 'authenticated';
+  return result.errorCode === UAE_PASS_ERROR_CODES.CANCELLED ? 'cancelled' : 'failed';
+};
+
+export const uaePassAuthReducer = (
+  state: UAEPassAuthState,
+  action: UAEPassAuthAction
+): UAEPassAuthState => {
+  switch (action.type) {
+    case 'START':
+      return {
+        ...initialUAEPassAuthState,
+        status: 'detectingApp',
+        startedAt: action.at,
+        updatedAt: action.at,
+      };
+    case 'AWAIT':
+      return {
+        ...state,
+        status: action.status,
+        result: action.result ?? state.result,
+        presenting: action.presenting ?? false,
+        updatedAt: action.at,
+      };
+    case 'RESOLVE':
+      return {
+        ...state,
+        status: statusForResult(action.result),
+        result: action.result,
+        presenting: false,
+        startedAt: state.startedAt ?? action.at,
+        updatedAt: action.at,
+      };
+    case 'EXCHANGE_START':
+      return {
+        ...state,
+        status: 'exchanging',
+        presenting: false,
+        updatedAt: action.at,
+      };
+    case 'EXCHANGE_SUCCESS':
+      return {
+        ...state,
+        status: 'authenticated',
+        userProfile: action.userProfile,
+        updatedAt: action.at,
+      };
+    case 'EXCHANGE_FAILURE':
+      return {
+        ...state,
+        status: 'failed',
+        result: action.result,
+        updatedAt: action.at,
+      };
+    case 'RESET':
+      return initialUAEPassAuthState;
+    default:
+      return state;
+  }
+};
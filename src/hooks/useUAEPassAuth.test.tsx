@@ -0,0 +1,751 @@
+import React from 'react';
+import { act, render, renderHook, waitFor } from '@testing-library/react-native';
+import { Modal, Platform } from 'react-native';
+import { WebView } from 'react-native-webview';
+import { configureUAEPass, UAE_PASS_ACR_VALUES } from '../config/uaePassConfig';
+import { UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+import UAEPassAuthHost from '../components/UAEPassAuthHost';
+import { prepareUAEPassAuth, resumePendingUAEPassAuth } from '../services/uaePassService';
+import { forgetCompletedPendingSession } from '../services/pendingSessionStore';
+import * as idTokenService from '../services/idTokenService';
+import { addUAEPassEventListener, type UAEPassEvent } from '../telemetry/uaePassEvents';
+import { useUAEPassAuth } from './useUAEPassAuth';
+import {
+  startMockUAEPassIdP,
+  mockUAEPass,
+  loginWithMockUAEPass,
+  type MockUAEPassIdP,
+} from '../testing';
+import type { UAEPassAuthResult } from '../types';
+
+jest.mock('react-native-webview', () => {
+  const { forwardRef } = jest.requireActual('react');
+  const { View: MockView } = jest.requireActual('react-native');
+  const MockWebView = forwardRef((props: object, ref: unknown) => <MockView ref={ref} {...props} />);
+  return { WebView: MockWebView };
+});
+
+const CLIENT_SECRET = 'test-secret';
+
+let idp: MockUAEPassIdP;
+
+beforeAll(async () => {
+  idp = await startMockUAEPassIdP({ clientSecret: CLIENT_SECRET });
+});
+
+beforeEach(() => {
+  configureUAEPass(idp.config({ logger: 'silent' }));
+  mockUAEPass.useIdentityProvider(idp);
+});
+
+afterEach(() => {
+  mockUAEPass.reset();
+  idp.reset();
+});
+
+afterAll(() => idp.stop());
+
+describe('useUAEPassAuth - browser', () => {
+  it('logs in and loads the profile', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    const { result: login, tokens } = await loginWithMockUAEPass(() => result.current, {
+      idp,
+      user: 'SOP2',
+      clientSecret: CLIENT_SECRET,
+      act,
+    });
+
+    expect(login.success).toBe(true);
+    expect(tokens?.accessToken).toBeTruthy();
+    expect(result.current.status).toBe('authenticated');
+    expect(result.current.userProfile?.userType).toBe('SOP2');
+    expect(mockUAEPass.openedUrls[0].startsWith(idp.authorizationEndpoint)).toBe(true);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('moves through the documented statuses', async () => {
+    const statuses: string[] = [];
+    const { result } = renderHook(() => {
+      const auth = useUAEPassAuth();
+      if (statuses[statuses.length - 1] !== auth.status) statuses.push(auth.status);
+      return auth;
+    });
+
+    await loginWithMockUAEPass(() => result.current, { idp, clientSecret: CLIENT_SECRET, act });
+
+    // authenticate() resolves with the code, then exchangeCode() runs
+    expect(statuses).toEqual([
+      'idle',
+      'detectingApp',
+      'awaitingBrowser',
+      'authenticated',
+      'exchanging',
+      'authenticated',
+    ]);
+  });
+
+  it('reports a denied login as cancelled', async () => {
+    mockUAEPass.setUserAction('deny');
+    const onCancel = jest.fn();
+    const { result } = renderHook(() => useUAEPassAuth({ onCancel }));
+
+    const { result: login } = await loginWithMockUAEPass(() => result.current, { idp, act });
+
+    expect(login.errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(result.current.status).toBe('cancelled');
+    expect(onCancel).toHaveBeenCalledTimes(1);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('reports a dismissed browser as cancelled', async () => {
+    mockUAEPass.setUserAction('dismiss');
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    const { result: login } = await loginWithMockUAEPass(() => result.current, { idp, act });
+
+    expect(login.errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('times out when UAE Pass never calls back', async () => {
+    mockUAEPass.setUserAction('ignore');
+    const onError = jest.fn();
+    const { result } = renderHook(() => useUAEPassAuth({ onError }));
+
+    const { result: login } = await loginWithMockUAEPass(() => result.current, {
+      idp,
+      flowOptions: { timeoutMs: 50 },
+      act,
+    });
+
+    expect(login.errorCode).toBe(UAE_PASS_ERROR_CODES.TIMEOUT);
+    expect(result.current.status).toBe('failed');
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('aborts the flow on cancel()', async () => {
+    mockUAEPass.setUserAction('ignore');
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    let pending!: Promise<UAEPassAuthResult>;
+    act(() => {
+      pending = result.current.authenticate();
+    });
+    await waitFor(() => expect(result.current.status).toBe('awaitingBrowser'));
+    expect(mockUAEPass.listenerCount).toBe(1);
+
+    let login!: UAEPassAuthResult;
+    await act(async () => {
+      result.current.cancel();
+      login = await pending;
+    });
+
+    expect(login.errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(result.current.status).toBe('cancelled');
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('aborts the flow through the caller signal', async () => {
+    mockUAEPass.setUserAction('ignore');
+    const controller = new AbortController();
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    let pending!: Promise<UAEPassAuthResult>;
+    act(() => {
+      pending = result.current.authenticate({ signal: controller.signal });
+    });
+    await waitFor(() => expect(mockUAEPass.listenerCount).toBe(1));
+
+    let login!: UAEPassAuthResult;
+    await act(async () => {
+      controller.abort();
+      login = await pending;
+    });
+
+    expect(login.errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+});
+
+describe('useUAEPassAuth - WebView', () => {
+  beforeEach(() => {
+    mockUAEPass.setAppInstalled(true);
+  });
+
+  it('returns the WebView parameters when no host is mounted', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    const { result: login, tokens } = await loginWithMockUAEPass(() => result.current, {
+      idp,
+      user: 'SOP3',
+      clientSecret: CLIENT_SECRET,
+      act,
+    });
+
+    expect(login.success).toBe(true);
+    expect(login.authorizationCode).toBeTruthy();
+    expect(tokens?.accessToken).toBeTruthy();
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('is not loading while the caller owns the WebView', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    let params!: UAEPassAuthResult;
+    await act(async () => {
+      params = await result.current.authenticate();
+    });
+
+    expect(params.details?.useWebView).toBe(true);
+    expect(result.current.status).toBe('awaitingWebView');
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('completes through UAEPassAuthHost', async () => {
+    const host = render(<UAEPassAuthHost />);
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    let pending!: Promise<UAEPassAuthResult>;
+    act(() => {
+      pending = result.current.authenticate();
+    });
+    const webView = await waitFor(() => host.UNSAFE_getByType(WebView));
+    expect(result.current.status).toBe('awaitingWebView');
+    expect(result.current.isLoading).toBe(true);
+    // iOS (the jest default): cookies stay in a store that is dropped with the WebView
+    expect(webView.props.incognito).toBe(true);
+
+    const callbackUrl = idp.authorize(webView.props.source.uri);
+    let login!: UAEPassAuthResult;
+    await act(async () => {
+      expect(webView.props.onShouldStartLoadWithRequest({ url: callbackUrl })).toBe(false);
+      login = await pending;
+    });
+
+    expect(login.success).toBe(true);
+    expect(login.authorizationCode).toBeTruthy();
+    expect(login.nonce).toBeTruthy();
+    expect(result.current.status).toBe('authenticated');
+    expect(result.current.isLoading).toBe(false);
+    expect(host.UNSAFE_queryByType(WebView)).toBeNull();
+
+    host.unmount();
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it.each(['ios', 'android'] as const)(
+    'moves through the documented statuses when the WebView hands off to the app on %s',
+    async (os) => {
+      jest.replaceProperty(Platform, 'OS', os);
+      const host = render(<UAEPassAuthHost />);
+      const statuses: string[] = [];
+      const { result } = renderHook(() => {
+        const auth = useUAEPassAuth();
+        if (statuses[statuses.length - 1] !== auth.status) statuses.push(auth.status);
+        return auth;
+      });
+
+      let pending!: Promise<UAEPassAuthResult>;
+      act(() => {
+        pending = result.current.authenticate();
+      });
+      const webView = await waitFor(() => host.UNSAFE_getByType(WebView));
+      const pageUrl = webView.props.source.uri;
+
+      // The UAE Pass page asks for the app; the WebView opens it and waits for the resume link
+      await act(async () => {
+        webView.props.onShouldStartLoadWithRequest({
+          url: `uaepass://digitalid-users-ids/signatures/authenticate?successURL=${encodeURIComponent(
+            pageUrl
+          )}&failureURL=${encodeURIComponent(pageUrl)}`,
+        });
+      });
+      await waitFor(() => expect(result.current.status).toBe('awaitingApp'));
+      expect(result.current.isLoading).toBe(true);
+
+      await act(async () => {
+        webView.props.onShouldStartLoadWithRequest({ url: idp.authorize(pageUrl) });
+        await pending;
+      });
+
+      expect(statuses).toEqual(['idle', 'detectingApp', 'awaitingWebView', 'awaitingApp', 'authenticated']);
+
+      host.unmount();
+      jest.restoreAllMocks();
+    }
+  );
+
+  it('reports a denial in the hosted WebView as cancelled', async () => {
+    const host = render(<UAEPassAuthHost />);
+    const onCancel = jest.fn();
+    const { result } = renderHook(() => useUAEPassAuth({ onCancel }));
+
+    let pending!: Promise<UAEPassAuthResult>;
+    act(() => {
+      pending = result.current.authenticate();
+    });
+    const webView = await waitFor(() => host.UNSAFE_getByType(WebView));
+
+    idp.failNextAuthorization('access_denied', 'User denied access');
+    const callbackUrl = idp.authorize(webView.props.source.uri);
+    let login!: UAEPassAuthResult;
+    await act(async () => {
+      webView.props.onShouldStartLoadWithRequest({ url: callbackUrl });
+      login = await pending;
+    });
+
+    expect(login.errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(onCancel).toHaveBeenCalledTimes(1);
+
+    host.unmount();
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('times out and hides the hosted WebView', async () => {
+    const host = render(<UAEPassAuthHost />);
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    let login!: UAEPassAuthResult;
+    await act(async () => {
+      login = await result.current.authenticate({ timeoutMs: 50 });
+    });
+
+    expect(login.errorCode).toBe(UAE_PASS_ERROR_CODES.TIMEOUT);
+    expect(host.UNSAFE_queryByType(WebView)).toBeNull();
+
+    host.unmount();
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('reloads the UAE Pass page in the host after a resume link', async () => {
+    const host = render(<UAEPassAuthHost />);
+    const { result } = renderHook(() => useUAEPassAuth());
+    const params = await prepareUAEPassAuth();
+
+    let pending!: Promise<UAEPassAuthResult | null>;
+    act(() => {
+      pending = result.current.resumePendingAuth(
+        `uaepasstest://auth/uaepass/resume?url=${encodeURIComponent(params.authUrl)}`
+      );
+    });
+    const webView = await waitFor(() => host.UNSAFE_getByType(WebView));
+    expect(webView.props.source.uri).toBe(params.authUrl);
+
+    let login!: UAEPassAuthResult | null;
+    await act(async () => {
+      webView.props.onShouldStartLoadWithRequest({ url: idp.authorize(params.authUrl) });
+      login = await pending;
+    });
+
+    expect(login?.success).toBe(true);
+    expect(login?.codeVerifier).toBe(params.codeVerifier);
+    expect(login?.nonce).toBe(params.nonce);
+    expect(result.current.status).toBe('authenticated');
+
+    host.unmount();
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('aborts a resumed WebView on cancel() and shares it with authenticate()', async () => {
+    const host = render(<UAEPassAuthHost />);
+    const { result } = renderHook(() => useUAEPassAuth());
+    const params = await prepareUAEPassAuth();
+
+    let pending!: Promise<UAEPassAuthResult | null>;
+    act(() => {
+      pending = result.current.resumePendingAuth(
+        `uaepasstest://auth/uaepass/resume?url=${encodeURIComponent(params.authUrl)}`
+      );
+    });
+    await waitFor(() => host.UNSAFE_getByType(WebView));
+
+    let joined!: Promise<UAEPassAuthResult>;
+    act(() => {
+      joined = result.current.authenticate();
+    });
+
+    let login!: UAEPassAuthResult | null;
+    await act(async () => {
+      result.current.cancel();
+      login = await pending;
+    });
+
+    expect(login?.errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(await joined).toBe(login);
+    expect(result.current.status).toBe('cancelled');
+    expect(host.UNSAFE_queryByType(WebView)).toBeNull();
+    expect(mockUAEPass.openedUrls).toHaveLength(0);
+
+    host.unmount();
+  });
+
+  it('times out a resumed WebView', async () => {
+    const host = render(<UAEPassAuthHost />);
+    const { result } = renderHook(() => useUAEPassAuth());
+    const params = await prepareUAEPassAuth();
+
+    let login!: UAEPassAuthResult | null;
+    await act(async () => {
+      login = await result.current.resumePendingAuth(
+        `uaepasstest://auth/uaepass/resume?url=${encodeURIComponent(params.authUrl)}`,
+        { timeoutMs: 50 }
+      );
+    });
+
+    expect(login?.errorCode).toBe(UAE_PASS_ERROR_CODES.TIMEOUT);
+    expect(host.UNSAFE_queryByType(WebView)).toBeNull();
+
+    host.unmount();
+  });
+
+  it('starts a login when a joined resume had nothing to resume', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    let resumed!: Promise<UAEPassAuthResult | null>;
+    let login!: Promise<UAEPassAuthResult>;
+    act(() => {
+      resumed = result.current.resumePendingAuth();
+      login = result.current.authenticate();
+    });
+
+    await act(async () => {
+      await login;
+    });
+
+    expect(await resumed).toBeNull();
+    expect((await login).details?.useWebView).toBe(true);
+  });
+
+  it('cancels the flow when the host unmounts', async () => {
+    const host = render(<UAEPassAuthHost />);
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    let pending!: Promise<UAEPassAuthResult>;
+    act(() => {
+      pending = result.current.authenticate();
+    });
+    await waitFor(() => host.UNSAFE_getByType(WebView));
+
+    let login!: UAEPassAuthResult;
+    await act(async () => {
+      host.unmount();
+      login = await pending;
+    });
+
+    expect(login.errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+});
+
+describe('useUAEPassAuth - ID token', () => {
+  beforeEach(() => {
+    configureUAEPass(idp.config({ logger: 'silent', scopes: ['openid', 'urn:uae:digitalid:profile:general'] }));
+  });
+
+  it('verifies the ID token against the nonce of the flow', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    const { result: login, tokens } = await loginWithMockUAEPass(() => result.current, {
+      idp,
+      clientSecret: CLIENT_SECRET,
+      act,
+    });
+
+    expect(login.nonce).toBeTruthy();
+    expect(tokens?.idToken).toBeTruthy();
+    expect(idp.requests.some((request) => request.endpoint === 'jwks')).toBe(true);
+    expect(result.current.status).toBe('authenticated');
+  });
+
+  it('rejects an ID token issued for another nonce', async () => {
+    idp.setIdTokenClaims({ nonce: 'replayed' });
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    await expect(
+      loginWithMockUAEPass(() => result.current, { idp, clientSecret: CLIENT_SECRET, act })
+    ).rejects.toMatchObject({ code: UAE_PASS_ERROR_CODES.ID_TOKEN_NONCE_MISMATCH });
+  });
+
+  it('fails when there is no nonce to check the ID token against', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+    let login!: UAEPassAuthResult;
+    await act(async () => {
+      login = await result.current.authenticate();
+    });
+    act(() => result.current.reset());
+    // A code this process has no request for (the finished flow's one is gone too)
+    forgetCompletedPendingSession();
+
+    let exchange!: Promise<unknown>;
+    await act(async () => {
+      exchange = result.current.exchangeCode({
+        code: login.authorizationCode as string,
+        codeVerifier: login.codeVerifier,
+        clientSecret: CLIENT_SECRET,
+      });
+      await exchange.catch(() => undefined);
+    });
+
+    await expect(exchange).rejects.toMatchObject({ code: UAE_PASS_ERROR_CODES.ID_TOKEN_NONCE_MISMATCH });
+  });
+
+  it('uses the nonce of a flow another hook completed', async () => {
+    const { result: signIn } = renderHook(() => useUAEPassAuth());
+    const { result: exchanger } = renderHook(() => useUAEPassAuth());
+    let login!: UAEPassAuthResult;
+    await act(async () => {
+      login = await signIn.current.authenticate();
+    });
+
+    await act(async () => {
+      await exchanger.current.exchangeCode({
+        code: login.authorizationCode as string,
+        codeVerifier: login.codeVerifier,
+        clientSecret: CLIENT_SECRET,
+      });
+    });
+
+    expect(exchanger.current.status).toBe('authenticated');
+  });
+
+  it('uses the nonce of a session resumed outside the hook', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+    const params = await prepareUAEPassAuth();
+    const resumed = await resumePendingUAEPassAuth(idp.authorize(params.authUrl));
+
+    await act(async () => {
+      await result.current.exchangeCode({
+        code: resumed?.authorizationCode as string,
+        codeVerifier: resumed?.codeVerifier,
+        clientSecret: CLIENT_SECRET,
+      });
+    });
+
+    expect(result.current.status).toBe('authenticated');
+  });
+
+  it('reports an unexpected verification failure as UNKNOWN, not STEP_UP_FAILED', async () => {
+    jest.spyOn(idTokenService, 'verifyUAEPassIdToken').mockRejectedValueOnce(new TypeError('boom'));
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    await expect(
+      loginWithMockUAEPass(() => result.current, { idp, clientSecret: CLIENT_SECRET, act })
+    ).rejects.toMatchObject({ code: UAE_PASS_ERROR_CODES.UNKNOWN });
+    jest.restoreAllMocks();
+  });
+});
+
+describe('useUAEPassAuth - reauthenticate', () => {
+  beforeEach(() => {
+    configureUAEPass(idp.config({ logger: 'silent', scopes: ['openid', 'urn:uae:digitalid:profile:general'] }));
+  });
+
+  /**
+   * Step up to HIGH and exchange the code; returns the authorize params and the exchange
+   */
+  const stepUp = async (result: { current: ReturnType<typeof useUAEPassAuth> }) => {
+    let login!: UAEPassAuthResult;
+    await act(async () => {
+      login = await result.current.reauthenticate({ acr: UAE_PASS_ACR_VALUES.HIGH, maxAge: 300 });
+    });
+    const authorize = idp.requests.find((request) => request.endpoint === 'authorize');
+    let exchange: Promise<unknown> = Promise.resolve();
+    await act(async () => {
+      exchange = result.current.exchangeCode({
+        code: login.authorizationCode as string,
+        codeVerifier: login.codeVerifier,
+        clientSecret: CLIENT_SECRET,
+      });
+      await exchange.catch(() => undefined);
+    });
+    return { login, params: authorize?.params, exchange };
+  };
+
+  it('asks for the stronger level, a new login and max_age', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    const { login, params, exchange } = await stepUp(result);
+
+    expect(params).toMatchObject({
+      acr_values: UAE_PASS_ACR_VALUES.HIGH,
+      prompt: 'login',
+      max_age: '300',
+    });
+    expect(login.stepUp).toMatchObject({ acr: UAE_PASS_ACR_VALUES.HIGH, maxAge: 300, prompt: 'login' });
+    await expect(exchange).resolves.toMatchObject({ idToken: expect.any(String) });
+    expect(result.current.status).toBe('authenticated');
+  });
+
+  it('rejects an ID token whose acr is too low', async () => {
+    idp.setIdTokenClaims({ acr: UAE_PASS_ACR_VALUES.MEDIUM });
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    const { exchange } = await stepUp(result);
+
+    await expect(exchange).rejects.toMatchObject({ code: UAE_PASS_ERROR_CODES.STEP_UP_FAILED });
+    expect(result.current.authResult?.errorCode).toBe(UAE_PASS_ERROR_CODES.STEP_UP_FAILED);
+  });
+
+  it('rejects an ID token from an earlier login', async () => {
+    idp.setIdTokenClaims({ auth_time: Math.floor(Date.now() / 1000) - 3600 });
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    const { exchange } = await stepUp(result);
+
+    await expect(exchange).rejects.toMatchObject({ code: UAE_PASS_ERROR_CODES.STEP_UP_FAILED });
+  });
+
+  it('does not carry the requirement into the next login', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+    await stepUp(result);
+    idp.reset();
+
+    await loginWithMockUAEPass(() => result.current, { idp, clientSecret: CLIENT_SECRET, act });
+
+    const params = idp.requests.find((request) => request.endpoint === 'authorize')?.params;
+    expect(params?.acr_values).toBe(UAE_PASS_ACR_VALUES.LOW);
+    expect(params?.prompt).toBeUndefined();
+    expect(params?.max_age).toBeUndefined();
+  });
+});
+
+describe('useUAEPassAuth - flowCompleted', () => {
+  let events: UAEPassEvent[];
+  let unsubscribe: () => void;
+
+  const flowEvents = () =>
+    events
+      .filter((event) => event.type === 'flowStarted' || event.type === 'flowCompleted')
+      .map((event) =>
+        event.type === 'flowStarted'
+          ? { type: event.type, entry: event.entry }
+          : { type: event.type, success: event.success, errorCode: event.errorCode }
+      );
+
+  /**
+   * Start authenticate() with a host mounted and return the WebView it shows
+   */
+  const startHosted = async () => {
+    const host = render(<UAEPassAuthHost />);
+    const { result } = renderHook(() => useUAEPassAuth());
+    let pending!: Promise<UAEPassAuthResult>;
+    act(() => {
+      pending = result.current.authenticate();
+    });
+    const webView = await waitFor(() => host.UNSAFE_getByType(WebView));
+    return { host, webView, pending };
+  };
+
+  beforeEach(() => {
+    events = [];
+    unsubscribe = addUAEPassEventListener((event) => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  it('is reported once for a browser login', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    await act(async () => {
+      await result.current.authenticate();
+    });
+
+    expect(flowEvents()).toEqual([
+      { type: 'flowStarted', entry: 'prepare' },
+      { type: 'flowCompleted', success: true, errorCode: undefined },
+    ]);
+  });
+
+  it('is reported once for a hosted WebView login', async () => {
+    mockUAEPass.setAppInstalled(true);
+    const { host, webView, pending } = await startHosted();
+
+    await act(async () => {
+      webView.props.onShouldStartLoadWithRequest({ url: idp.authorize(webView.props.source.uri) });
+      await pending;
+    });
+
+    expect(flowEvents()).toEqual([
+      { type: 'flowStarted', entry: 'prepare' },
+      { type: 'flowCompleted', success: true, errorCode: undefined },
+    ]);
+    host.unmount();
+  });
+
+  it('is reported once when the hosted WebView is closed', async () => {
+    mockUAEPass.setAppInstalled(true);
+    const { host, pending } = await startHosted();
+
+    await act(async () => {
+      host.UNSAFE_getByType(Modal).props.onRequestClose();
+      await pending;
+    });
+
+    expect(flowEvents()).toEqual([
+      { type: 'flowStarted', entry: 'prepare' },
+      { type: 'flowCompleted', success: false, errorCode: UAE_PASS_ERROR_CODES.CANCELLED },
+    ]);
+    host.unmount();
+  });
+
+  it('is reported once when the hosted WebView times out', async () => {
+    mockUAEPass.setAppInstalled(true);
+    const host = render(<UAEPassAuthHost />);
+    const { result } = renderHook(() => useUAEPassAuth());
+
+    await act(async () => {
+      await result.current.authenticate({ timeoutMs: 50 });
+    });
+
+    expect(flowEvents()).toEqual([
+      { type: 'flowStarted', entry: 'prepare' },
+      { type: 'flowCompleted', success: false, errorCode: UAE_PASS_ERROR_CODES.TIMEOUT },
+    ]);
+    host.unmount();
+  });
+
+  it('is reported once for a login resumed in the hosted WebView', async () => {
+    mockUAEPass.setAppInstalled(true);
+    const host = render(<UAEPassAuthHost />);
+    const { result } = renderHook(() => useUAEPassAuth());
+    const params = await prepareUAEPassAuth();
+    events.length = 0;
+
+    let pending!: Promise<UAEPassAuthResult | null>;
+    act(() => {
+      pending = result.current.resumePendingAuth(
+        `uaepasstest://auth/uaepass/resume?url=${encodeURIComponent(params.authUrl)}`
+      );
+    });
+    const webView = await waitFor(() => host.UNSAFE_getByType(WebView));
+    await act(async () => {
+      webView.props.onShouldStartLoadWithRequest({ url: idp.authorize(params.authUrl) });
+      await pending;
+    });
+
+    expect(flowEvents()).toEqual([
+      { type: 'flowStarted', entry: 'resume' },
+      { type: 'flowCompleted', success: true, errorCode: undefined },
+    ]);
+    host.unmount();
+  });
+
+  it('is reported once for a login resumed from the callback', async () => {
+    const { result } = renderHook(() => useUAEPassAuth());
+    const params = await prepareUAEPassAuth();
+    events.length = 0;
+
+    await act(async () => {
+      await result.current.resumePendingAuth(idp.authorize(params.authUrl));
+    });
+
+    expect(flowEvents()).toEqual([
+      { type: 'flowStarted', entry: 'resume' },
+      { type: 'flowCompleted', success: true, errorCode: undefined },
+    ]);
+  });
+});
@@ -4,29 +4,93 @@
  * React hook for UAE Pass authentication with WebView support
  */
 
-import { useState, useCallback } from 'react';
-import { Platform } from 'react-native';
+import { useCallback, useEffect, useReducer, useRef } from 'react';
 import * as AuthSession from 'expo-auth-session';
 import {
   prepareUAEPassAuth,
   authenticateWithUAEPassBrowser,
   isUAEPassAppInstalled,
+  resumePendingUAEPassAuth,
+  logoutFromUAEPass,
+  hasUAEPassWebViewHost,
+  presentUAEPassWebView,
 } from '../services/uaePassService';
+import {
+  clearPendingSession,
+  forgetCompletedPendingSession,
+  loadLatestPendingSession,
+} from '../services/pendingSessionStore';
+import { fetchUAEPassUserInfo } from '../services/userInfoService';
+import { checkUAEPassStepUp } from '../services/stepUpService';
+import { verifyUAEPassIdToken } from '../services/idTokenService';
 import { getUAEPassConfig } from '../config/uaePassConfig';
-import type { UAEPassAuthResult, UAEPassWebViewAuthParams } from '../types';
+import { uaePassLogger } from '../utils/logger';
+import {
+  addUAEPassEventListener,
+  emitUAEPassEvent,
+  type UAEPassEventListener,
+} from '../telemetry/uaePassEvents';
+import {
+  UAEPassError,
+  UAE_PASS_ERROR_CODES,
+  toFailureResult,
+  toUAEPassError,
+  type UAEPassErrorCode,
+} from '../errors/uaePassError';
+import {
+  uaePassAuthReducer,
+  initialUAEPassAuthState,
+  isUAEPassAuthInProgress,
+  type UAEPassAuthStatus,
+} from './uaePassAuthReducer';
+import type {
+  UAEPassAuthResult,
+  UAEPassWebViewAuthParams,
+  UAEPassFlowOptions,
+  UAEPassUserProfile,
+  UAEPassLogoutOptions,
+  UAEPassLogoutResult,
+  UAEPassStepUpOptions,
+  UAEPassStepUpRequirement,
+} from '../types';
 
 export interface UseUAEPassAuthOptions {
   onSuccess?: (result: UAEPassAuthResult) => void;
-  onError?: (error: string) => void;
+  /**
+   * Called with the error message and the typed error (branch on `uaePassError.code`)
+   */
+  onError?: (error: string, uaePassError?: UAEPassError) => void;
   onCancel?: () => void;
+  /**
+   * Flow events (app detection, strategies, callbacks, timings) while this hook is mounted
+   */
+  onEvent?: UAEPassEventListener;
 }
 
 export interface UseUAEPassAuthReturn {
   /**
    * Start UAE Pass authentication
    * Returns auth result with authorization code if successful
+   * (on the app-to-app path only when UAEPassProvider/UAEPassAuthHost is mounted)
+   * Calls made while a flow is running return the in-flight result instead of starting another
+   * 
+   * @param options - Optional timeout override and AbortSignal
+   */
+  authenticate: (options?: UAEPassFlowOptions) => Promise<UAEPassAuthResult>;
+  
+  /**
+   * Step-up authentication before a high-value action (payment, document approval)
+   * Forces a fresh login (prompt 'login' by default) at the given acr; the next
+   * exchangeCode() checks the ID token's acr / auth_time against it
+   * 
+   * @param options - Required acr, optional maxAge (seconds), prompt, timeout and AbortSignal
+   */
+  reauthenticate: (options: UAEPassStepUpOptions & UAEPassFlowOptions) => Promise<UAEPassAuthResult>;
+  
+  /**
+   * Abort the running flow; it resolves with a CANCELLED result
    */
-  authenticate: () => Promise<UAEPassAuthResult>;
+  cancel: () => void;
   
   /**
    * Check if UAE Pass app is installed
@@ -36,12 +100,24 @@ export interface UseUAEPassAuthReturn {
   /**
    * Exchange authorization code for tokens
    * Requires clientSecret (should be done on backend for security)
+   * Also loads userProfile when userInfoEndpoint is configured
+   * An ID token in the response is verified with verifyUAEPassIdToken() against the nonce
+   * and, after reauthenticate(), must meet the step-up requirement
+   * (both default to the hook's last successful flow, then to the pending or most recently
+   * finished request, which covers other hook instances and resumePendingUAEPassAuth())
+   * Verification fetches the JWKS, so the exchange also needs network access to UAE Pass;
+   * without a nonce (after logout(), or for a code from another process) it fails with
+   * ID_TOKEN_NONCE_MISMATCH - pass `nonce` then
+   * @throws UAEPassError - NOT_CONFIGURED, TOKEN_EXCHANGE_FAILED, an ID_TOKEN_* or
+   *   JWKS_UNAVAILABLE code, STEP_UP_FAILED, or UNKNOWN for unexpected failures
    */
   exchangeCode: (params: {
     code: string;
     codeVerifier?: string;
     clientSecret?: string;
-  }) => Promise<any>;
+    nonce?: string;
+    stepUp?: UAEPassStepUpRequirement;
+  }) => Promise<AuthSession.TokenResponse>;
   
   /**
    * Prepare auth params for WebView component
@@ -50,7 +126,40 @@ export interface UseUAEPassAuthReturn {
   prepareForWebView: () => Promise<UAEPassWebViewAuthParams | null>;
   
   /**
-   * Loading state
+   * Complete an auth request that was pending when the app process died
+   * Call on mount; resolves null when there is nothing to resume
+   * A WebView flow relaunched through a resume link continues in UAEPassAuthHost,
+   * or resolves with WebView parameters (`details.useWebView`) when no host is mounted
+   * Runs as the hook's flow: cancel() and unmount abort it, and while another flow is
+   * running it resolves with that flow's result
+   * 
+   * @param options - Optional timeout override, AbortSignal and locale for the hosted WebView
+   */
+  resumePendingAuth: (url?: string | null, options?: UAEPassFlowOptions) => Promise<UAEPassAuthResult | null>;
+  
+  /**
+   * Log out from UAE Pass, clear cookies and pending session data, and reset state
+   */
+  logout: (options?: UAEPassLogoutOptions) => Promise<UAEPassLogoutResult>;
+  
+  /**
+   * Current step of the authentication flow
+   */
+  status: UAEPassAuthStatus;
+  
+  /**
+   * When the current flow started (ms since epoch)
+   */
+  startedAt: number | null;
+  
+  /**
+   * When status last changed (ms since epoch)
+   */
+  updatedAt: number | null;
+  
+  /**
+   * Loading state (true while status is detectingApp, awaitingApp, awaitingBrowser or exchanging,
+   * and during awaitingWebView while the mounted UAEPassAuthHost presents the WebView)
    */
   isLoading: boolean;
   
@@ -59,6 +168,11 @@ export interface UseUAEPassAuthReturn {
    */
   authResult: UAEPassAuthResult | null;
   
+  /**
+   * User profile loaded after a successful exchangeCode()
+   */
+  userProfile: UAEPassUserProfile | null;
+  
   /**
    * Reset auth state
    */
@@ -73,7 +187,7 @@ export interface UseUAEPassAuthReturn {
  * 
  * @example
  * ```typescript
- * const { authenticate, isLoading } = useUAEPassAuth({
+ * const { authenticate, status, isLoading } = useUAEPassAuth({
  *   onSuccess: (result) => {
  *     console.log('Auth code:', result.authorizationCode);
  *   },
@@ -86,69 +200,215 @@ export interface UseUAEPassAuthReturn {
 export const useUAEPassAuth = (
   options?: UseUAEPassAuthOptions
 ): UseUAEPassAuthReturn => {
-  const [isLoading, setIsLoading] = useState(false);
-  const [authResult, setAuthResult] = useState<UAEPassAuthResult | null>(null);
+  const [state, dispatch] = useReducer(uaePassAuthReducer, initialUAEPassAuthState);
+
+  // Latest callbacks, so authenticate() stays stable across renders
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // In-flight flow (authenticate, reauthenticate or resumePendingAuth) - shared by concurrent calls
+  const inFlightRef = useRef<Promise<UAEPassAuthResult | null> | null>(null);
+
+  // Aborts the in-flight flow (cancel() and unmount)
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Step-up requirement and nonce of the last successful flow, checked by exchangeCode()
+  const stepUpRef = useRef<UAEPassStepUpRequirement | null>(null);
+  const nonceRef = useRef<string | null>(null);
+
+  // Set in an effect (not at init) so StrictMode's mount → unmount → mount ends mounted
+  const mountedRef = useRef(false);
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  // Forward flow events to the latest onEvent option
+  const hasEventListener = !!options?.onEvent;
+  useEffect(() => {
+    if (!hasEventListener) return;
+    return addUAEPassEventListener((event) => optionsRef.current?.onEvent?.(event));
+  }, [hasEventListener]);
+
+  // Drop state updates and callbacks after unmount
+  const safeDispatch = useCallback((action: Parameters<typeof dispatch>[0]) => {
+    if (mountedRef.current) {
+      dispatch(action);
+    }
+  }, []);
 
-  const authenticate = useCallback(async (): Promise<UAEPassAuthResult> => {
-    setIsLoading(true);
-    setAuthResult(null);
+  // Report a finished result through the matching callback
+  const notify = useCallback((result: UAEPassAuthResult) => {
+    stepUpRef.current = result.success ? result.stepUp ?? null : null;
+    nonceRef.current = result.success ? result.nonce ?? null : null;
+    if (!mountedRef.current) return;
+    const callbacks = optionsRef.current;
+    if (result.success) {
+      callbacks?.onSuccess?.(result);
+    } else if (result.errorCode === UAE_PASS_ERROR_CODES.CANCELLED) {
+      callbacks?.onCancel?.();
+    } else {
+      callbacks?.onError?.(result.error || 'Authentication failed', result.uaePassError);
+    }
+  }, []);
+
+  const runAuthentication = useCallback(async (
+    flowOptions: UAEPassFlowOptions,
+    stepUp?: UAEPassStepUpOptions
+  ): Promise<UAEPassAuthResult> => {
+    safeDispatch({ type: 'START', at: Date.now() });
 
     try {
-      const config = getUAEPassConfig();
+      // Detect app and prepare auth parameters
+      const params = await prepareUAEPassAuth({
+        signal: flowOptions.signal,
+        locale: flowOptions.locale,
+        stepUp,
+      });
       
-      // Prepare auth parameters
-      const params = await prepareUAEPassAuth();
+      if (params.useWebView && hasUAEPassWebViewHost()) {
+        // UAE Pass app IS installed - the mounted UAEPassAuthHost shows the WebView
+        safeDispatch({ type: 'AWAIT', status: 'awaitingWebView', presenting: true, at: Date.now() });
+        const result = await presentUAEPassWebView(
+          {
+            authUrl: params.authUrl,
+            redirectUri: params.redirectUri,
+            expectedState: params.state,
+            codeVerifier: params.codeVerifier,
+            locale: flowOptions.locale,
+          },
+          flowOptions
+        );
+        await clearPendingSession();
+        if (result.success) {
+          result.nonce = params.nonce;
+          result.stepUp = params.stepUp;
+        }
+        emitUAEPassEvent({ type: 'flowCompleted', success: result.success, errorCode: result.errorCode });
+        safeDispatch({ type: 'RESOLVE', result, at: Date.now() });
+        notify(result);
+        return result;
+      }
       
       if (params.useWebView) {
-        // UAE Pass app IS installed - return params for WebView
+        // UAE Pass app IS installed but no host is mounted - return params for WebView
         // The UI layer should handle WebView rendering
         const result: UAEPassAuthResult = {
           success: true,
           authorizationCode: undefined,
           state: params.state,
           codeVerifier: params.codeVerifier,
+          nonce: params.nonce,
+          stepUp: params.stepUp,
           details: {
             useWebView: true,
             authUrl: params.authUrl,
             redirectUri: params.redirectUri,
             expectedState: params.state,
+            locale: flowOptions.locale,
           },
         };
-        setAuthResult(result);
-        setIsLoading(false);
-        options?.onSuccess?.(result);
-        return result;
-      } else {
-        // Browser flow
-        const result = await authenticateWithUAEPassBrowser(
-          params.authUrl,
-          params.state,
-          params.codeVerifier
-        );
-        setAuthResult(result);
-        setIsLoading(false);
-        
-        if (result.success) {
-          options?.onSuccess?.(result);
-        } else if (result.error === 'User cancelled authentication') {
-          options?.onCancel?.();
-        } else {
-          options?.onError?.(result.error || 'Authentication failed');
-        }
-        
+        safeDispatch({ type: 'AWAIT', status: 'awaitingWebView', result, at: Date.now() });
+        notify(result);
         return result;
       }
+
+      // Browser flow
+      safeDispatch({ type: 'AWAIT', status: 'awaitingBrowser', at: Date.now() });
+      const result = await authenticateWithUAEPassBrowser(
+        params.authUrl,
+        params.state,
+        params.codeVerifier,
+        flowOptions
+      );
+      await clearPendingSession();
+      if (result.success) {
+        result.nonce = params.nonce;
+        result.stepUp = params.stepUp;
+      }
+      emitUAEPassEvent({ type: 'flowCompleted', success: result.success, errorCode: result.errorCode });
+      safeDispatch({ type: 'RESOLVE', result, at: Date.now() });
+      notify(result);
+      return result;
     } catch (error) {
-      const result: UAEPassAuthResult = {
-        success: false,
-        error: error instanceof Error ? error.message : 'Authentication error',
-      };
-      setAuthResult(result);
-      setIsLoading(false);
-      options?.onError?.(result.error || 'Authentication failed');
+      const result = toFailureResult(toUAEPassError(error));
+      emitUAEPassEvent({ type: 'flowCompleted', success: false, errorCode: result.errorCode });
+      safeDispatch({ type: 'RESOLVE', result, at: Date.now() });
+      notify(result);
       return result;
     }
-  }, [options]);
+  }, [safeDispatch, notify]);
+
+  const startFlow = useCallback(<T extends UAEPassAuthResult | null>(
+    flowOptions: UAEPassFlowOptions | undefined,
+    run: (flowOptions: UAEPassFlowOptions) => Promise<T>
+  ): Promise<T> => {
+    // Internal controller so cancel() and unmount can abort; follows the caller's signal too
+    const controller = new AbortController();
+    const externalSignal = flowOptions?.signal;
+    const onExternalAbort = () => controller.abort();
+    if (externalSignal?.aborted) {
+      controller.abort();
+    } else {
+      externalSignal?.addEventListener('abort', onExternalAbort);
+    }
+    abortRef.current = controller;
+
+    // The UAE Pass app was opened for this flow (native intent, or the hosted WebView handing off)
+    const removeAppListener = addUAEPassEventListener((event) => {
+      if (event.type === 'appLaunched') {
+        safeDispatch({ type: 'AWAIT', status: 'awaitingApp', at: Date.now() });
+      }
+    });
+
+    const flow = run({
+      locale: flowOptions?.locale,
+      timeoutMs: flowOptions?.timeoutMs,
+      signal: controller.signal,
+    }).finally(() => {
+      removeAppListener();
+      externalSignal?.removeEventListener('abort', onExternalAbort);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      inFlightRef.current = null;
+    });
+    inFlightRef.current = flow;
+    return flow;
+  }, [safeDispatch]);
+
+  const startAuthentication = useCallback(async (
+    flowOptions?: UAEPassFlowOptions,
+    stepUp?: UAEPassStepUpOptions
+  ): Promise<UAEPassAuthResult> => {
+    // Join the running flow; a resume that found nothing to resume does not count
+    while (inFlightRef.current) {
+      uaePassLogger.debug('UAE Pass authentication already in progress');
+      const inFlight = await inFlightRef.current;
+      if (inFlight) {
+        return inFlight;
+      }
+    }
+    return startFlow(flowOptions, (options) => runAuthentication(options, stepUp));
+  }, [startFlow, runAuthentication]);
+
+  const authenticate = useCallback((
+    flowOptions?: UAEPassFlowOptions
+  ): Promise<UAEPassAuthResult> => startAuthentication(flowOptions), [startAuthentication]);
+
+  const reauthenticate = useCallback((
+    options: UAEPassStepUpOptions & UAEPassFlowOptions
+  ): Promise<UAEPassAuthResult> => {
+    const { acr, maxAge, prompt, ...flowOptions } = options;
+    return startAuthentication(flowOptions, { acr, maxAge, prompt });
+  }, [startAuthentication]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
 
   const checkAppInstalled = useCallback(async (): Promise<boolean> => {
     return await isUAEPassAppInstalled();
@@ -162,60 +422,204 @@ export const useUAEPassAuth = (
       }
       return null;
     } catch (error) {
-      console.error('Error preparing WebView params:', error);
+      uaePassLogger.error('Error preparing WebView params:', error);
       return null;
     }
   }, []);
 
+  const runResume = useCallback(async (
+    url: string | null | undefined,
+    flowOptions: UAEPassFlowOptions
+  ): Promise<UAEPassAuthResult | null> => {
+    const result = await resumePendingUAEPassAuth(url);
+    if (!result) {
+      return null;
+    }
+
+    if (result.details?.useWebView) {
+      // Relaunched through a WebView resume link - the UAE Pass page has to be reloaded
+      if (hasUAEPassWebViewHost()) {
+        safeDispatch({ type: 'AWAIT', status: 'awaitingWebView', presenting: true, at: Date.now() });
+        const hostedResult = await presentUAEPassWebView(
+          {
+            authUrl: result.details.authUrl,
+            redirectUri: result.details.redirectUri,
+            expectedState: result.details.expectedState,
+            codeVerifier: result.codeVerifier as string,
+            locale: flowOptions.locale,
+          },
+          flowOptions
+        );
+        await clearPendingSession();
+        if (hostedResult.success) {
+          hostedResult.nonce = result.nonce;
+          hostedResult.stepUp = result.stepUp;
+        }
+        emitUAEPassEvent({
+          type: 'flowCompleted',
+          success: hostedResult.success,
+          errorCode: hostedResult.errorCode,
+        });
+        safeDispatch({ type: 'RESOLVE', result: hostedResult, at: Date.now() });
+        notify(hostedResult);
+        return hostedResult;
+      }
+      safeDispatch({ type: 'AWAIT', status: 'awaitingWebView', result, at: Date.now() });
+      notify(result);
+      return result;
+    }
+
+    safeDispatch({ type: 'RESOLVE', result, at: Date.now() });
+    notify(result);
+    return result;
+  }, [safeDispatch, notify]);
+
+  const resumePendingAuth = useCallback((
+    url?: string | null,
+    flowOptions?: UAEPassFlowOptions
+  ): Promise<UAEPassAuthResult | null> => {
+    if (inFlightRef.current) {
+      uaePassLogger.debug('UAE Pass authentication already in progress - not resuming');
+      return inFlightRef.current;
+    }
+    return startFlow(flowOptions, (options) => runResume(url, options));
+  }, [startFlow, runResume]);
+
   const exchangeCode = useCallback(async (params: {
     code: string;
     codeVerifier?: string;
     clientSecret?: string;
+    nonce?: string;
+    stepUp?: UAEPassStepUpRequirement;
   }) => {
     const config = getUAEPassConfig();
     
     if (!config.tokenEndpoint) {
-      throw new Error('Token endpoint not configured. Exchange should be done on backend.');
+      throw new UAEPassError(
+        UAE_PASS_ERROR_CODES.NOT_CONFIGURED,
+        'Token endpoint not configured. Exchange should be done on backend.'
+      );
     }
     
     if (!params.clientSecret) {
-      throw new Error('Client secret required for token exchange. This should be done on your backend for security.');
+      throw new UAEPassError(
+        UAE_PASS_ERROR_CODES.NOT_CONFIGURED,
+        'Client secret required for token exchange. This should be done on your backend for security.'
+      );
     }
 
+    safeDispatch({ type: 'EXCHANGE_START', at: Date.now() });
+
     // Exchange code for tokens
-    const tokenResult = await AuthSession.exchangeCodeAsync(
-      {
-        clientId: config.clientId,
-        clientSecret: params.clientSecret,
-        code: params.code,
-        redirectUri: config.redirectUri,
-        extraParams: params.codeVerifier
-          ? { code_verifier: params.codeVerifier }
-          : {},
-      },
-      {
-        tokenEndpoint: config.tokenEndpoint,
+    let tokenResult: AuthSession.TokenResponse;
+    try {
+      tokenResult = await AuthSession.exchangeCodeAsync(
+        {
+          clientId: config.clientId,
+          clientSecret: params.clientSecret,
+          code: params.code,
+          redirectUri: config.redirectUri,
+          extraParams: params.codeVerifier
+            ? { code_verifier: params.codeVerifier }
+            : {},
+        },
+        {
+          tokenEndpoint: config.tokenEndpoint,
+        }
+      );
+    } catch (error) {
+      const uaePassError = toUAEPassError(
+        error,
+        UAE_PASS_ERROR_CODES.TOKEN_EXCHANGE_FAILED,
+        'Token exchange failed'
+      );
+      emitUAEPassEvent({ type: 'codeExchanged', success: false, errorCode: uaePassError.code });
+      safeDispatch({ type: 'EXCHANGE_FAILURE', result: toFailureResult(uaePassError), at: Date.now() });
+      throw uaePassError;
+    }
+
+    // The ID token must be signed by UAE Pass for this request; step-up flows also need
+    // the requested acr and a fresh auth_time
+    // Without them from this hook, use the request of the flow that produced the code
+    // (another hook instance, or resumePendingUAEPassAuth() after a restart)
+    const session = params.nonce && params.stepUp ? null : await loadLatestPendingSession();
+    const stepUp = params.stepUp ?? stepUpRef.current ?? session?.stepUp;
+    const nonce = params.nonce ?? nonceRef.current ?? session?.nonce;
+    if (tokenResult.idToken) {
+      const failExchange = (error: unknown, fallbackCode: UAEPassErrorCode): never => {
+        const uaePassError = toUAEPassError(error, fallbackCode);
+        emitUAEPassEvent({ type: 'codeExchanged', success: false, errorCode: uaePassError.code });
+        safeDispatch({ type: 'EXCHANGE_FAILURE', result: toFailureResult(uaePassError), at: Date.now() });
+        throw uaePassError;
+      };
+      try {
+        // A missing nonce fails verification (ID_TOKEN_NONCE_MISMATCH)
+        await verifyUAEPassIdToken(tokenResult.idToken, { nonce: nonce ?? '' });
+      } catch (error) {
+        failExchange(error, UAE_PASS_ERROR_CODES.UNKNOWN);
       }
-    );
+      if (stepUp) {
+        try {
+          checkUAEPassStepUp(tokenResult.idToken, stepUp);
+        } catch (error) {
+          failExchange(error, UAE_PASS_ERROR_CODES.STEP_UP_FAILED);
+        }
+      }
+    } else if (stepUp) {
+      uaePassLogger.debug('No ID token in token response - step-up claims not checked');
+    }
+    stepUpRef.current = null;
+    nonceRef.current = null;
+    forgetCompletedPendingSession();
+
+    emitUAEPassEvent({ type: 'codeExchanged', success: true });
 
+    let userProfile: UAEPassUserProfile | null = null;
+    if (config.userInfoEndpoint) {
+      try {
+        userProfile = await fetchUAEPassUserInfo(tokenResult.accessToken);
+      } catch (error) {
+        uaePassLogger.warn('Failed to load UAE Pass user profile:', error);
+      }
+    }
+
+    safeDispatch({ type: 'EXCHANGE_SUCCESS', userProfile, at: Date.now() });
     return tokenResult;
-  }, []);
+  }, [safeDispatch]);
+
+  const logout = useCallback(async (
+    logoutOptions?: UAEPassLogoutOptions
+  ): Promise<UAEPassLogoutResult> => {
+    const result = await logoutFromUAEPass(logoutOptions);
+    stepUpRef.current = null;
+    nonceRef.current = null;
+    safeDispatch({ type: 'RESET' });
+    return result;
+  }, [safeDispatch]);
 
   const reset = useCallback(() => {
-    setAuthResult(null);
-    setIsLoading(false);
+    stepUpRef.current = null;
+    nonceRef.current = null;
+    dispatch({ type: 'RESET' });
   }, []);
 
   return {
     authenticate,
+    reauthenticate,
+    cancel,
     checkAppInstalled,
     exchangeCode,
     prepareForWebView,
-    isLoading,
-    authResult,
+    resumePendingAuth,
+    logout,
+    status: state.status,
+    startedAt: state.startedAt,
+    updatedAt: state.updatedAt,
+    isLoading: isUAEPassAuthInProgress(state),
+    authResult: state.result,
+    userProfile: state.userProfile,
     reset,
   };
 };
 
 export default useUAEPassAuth;
-
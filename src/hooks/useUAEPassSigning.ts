@@ -0,0 +1,188 @@
+/**
+ * useUAEPassSigning Hook
+ *
+ * React hook for UAE Pass document signing:
+ * idle → creatingProcess → signing → signed | failed | cancelled
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { signWithUAEPass } from '../services/uaePassSigningService';
+import { uaePassLogger } from '../utils/logger';
+import { UAEPassError, UAE_PASS_ERROR_CODES, toUAEPassError } from '../errors/uaePassError';
+import type {
+  UAEPassFlowOptions,
+  UAEPassSignerProcess,
+  UAEPassSigningResult,
+} from '../types';
+
+export type UAEPassSigningFlowStatus =
+  | 'idle'
+  | 'creatingProcess'
+  | 'signing'
+  | 'signed'
+  | 'failed'
+  | 'cancelled';
+
+export interface UseUAEPassSigningOptions {
+  onSuccess?: (result: UAEPassSigningResult) => void;
+  /**
+   * Called with the error message and the typed error (branch on `uaePassError.code`)
+   */
+  onError?: (error: string, uaePassError?: UAEPassError) => void;
+  onCancel?: () => void;
+}
+
+export interface UseUAEPassSigningReturn {
+  /**
+   * Sign a signer process, or create one first (e.g. by calling your backend)
+   * Calls made while a flow is running return the in-flight result instead of starting another
+   *
+   * @param options - Optional timeout override and AbortSignal
+   */
+  sign: (
+    process: UAEPassSignerProcess | (() => Promise<UAEPassSignerProcess>),
+    options?: Omit<UAEPassFlowOptions, 'locale'>
+  ) => Promise<UAEPassSigningResult>;
+  /**
+   * Abort the running flow; it resolves with a CANCELLED result
+   */
+  cancel: () => void;
+  status: UAEPassSigningFlowStatus;
+  /**
+   * True while status is creatingProcess or signing
+   */
+  isSigning: boolean;
+  result: UAEPassSigningResult | null;
+  reset: () => void;
+}
+
+const statusForSigningResult = (result: UAEPassSigningResult): UAEPassSigningFlowStatus => {
+  if (result.success) return 'signed';
+  return result.errorCode === UAE_PASS_ERROR_CODES.CANCELLED ? 'cancelled' : 'failed';
+};
+
+/**
+ * useUAEPassSigning Hook
+ *
+ * @example
+ * ```typescript
+ * const { sign, isSigning } = useUAEPassSigning({
+ *   onSuccess: (result) => api.downloadSigned(result.processId),
+ * });
+ *
+ * await sign(() => api.createSignerProcess(documentId));
+ * ```
+ */
+export const useUAEPassSigning = (
+  options?: UseUAEPassSigningOptions
+): UseUAEPassSigningReturn => {
+  const [status, setStatus] = useState<UAEPassSigningFlowStatus>('idle');
+  const [result, setResult] = useState<UAEPassSigningResult | null>(null);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const mountedRef = useRef(true);
+  const inFlightRef = useRef<Promise<UAEPassSigningResult> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  const finish = useCallback((signingResult: UAEPassSigningResult) => {
+    if (!mountedRef.current) return signingResult;
+    setResult(signingResult);
+    setStatus(statusForSigningResult(signingResult));
+
+    const callbacks = optionsRef.current;
+    if (signingResult.success) {
+      callbacks?.onSuccess?.(signingResult);
+    } else if (signingResult.errorCode === UAE_PASS_ERROR_CODES.CANCELLED) {
+      callbacks?.onCancel?.();
+    } else {
+      callbacks?.onError?.(signingResult.error || 'Signing failed', signingResult.uaePassError);
+    }
+    return signingResult;
+  }, []);
+
+  const sign = useCallback((
+    process: UAEPassSignerProcess | (() => Promise<UAEPassSignerProcess>),
+    flowOptions?: Omit<UAEPassFlowOptions, 'locale'>
+  ): Promise<UAEPassSigningResult> => {
+    if (inFlightRef.current) {
+      uaePassLogger.debug('UAE Pass signing already in progress');
+      return inFlightRef.current;
+    }
+
+    // Internal controller so cancel() and unmount can abort; follows the caller's signal too
+    const controller = new AbortController();
+    const externalSignal = flowOptions?.signal;
+    const onExternalAbort = () => controller.abort();
+    if (externalSignal?.aborted) {
+      controller.abort();
+    } else {
+      externalSignal?.addEventListener('abort', onExternalAbort);
+    }
+    abortRef.current = controller;
+
+    const run = async (): Promise<UAEPassSigningResult> => {
+      let signerProcess: UAEPassSignerProcess;
+      if (typeof process === 'function') {
+        if (mountedRef.current) setStatus('creatingProcess');
+        try {
+          signerProcess = await process();
+        } catch (error) {
+          const uaePassError = toUAEPassError(error, UAE_PASS_ERROR_CODES.UNKNOWN, 'Could not create signer process');
+          return finish({
+            success: false,
+            error: uaePassError.message,
+            errorCode: uaePassError.code,
+            uaePassError,
+          });
+        }
+      } else {
+        signerProcess = process;
+      }
+
+      if (mountedRef.current) setStatus('signing');
+      return finish(await signWithUAEPass(signerProcess, {
+        timeoutMs: flowOptions?.timeoutMs,
+        signal: controller.signal,
+      }));
+    };
+
+    const flow = run().finally(() => {
+      externalSignal?.removeEventListener('abort', onExternalAbort);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      inFlightRef.current = null;
+    });
+    inFlightRef.current = flow;
+    return flow;
+  }, [finish]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    setStatus('idle');
+    setResult(null);
+  }, []);
+
+  return {
+    sign,
+    cancel,
+    status,
+    isSigning: status === 'creatingProcess' || status === 'signing',
+    result,
+    reset,
+  };
+};
+
+export default useUAEPassSigning;
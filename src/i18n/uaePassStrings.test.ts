@@ -0,0 +1,44 @@
+import { getUAEPassStrings, isRTLLocale, UAE_PASS_STRINGS } from './uaePassStrings';
+import type { UAEPassLocale } from '../types';
+
+describe('getUAEPassStrings', () => {
+  it('returns the bundled Arabic strings', () => {
+    expect(getUAEPassStrings('ar')).toEqual(UAE_PASS_STRINGS.ar);
+    expect(getUAEPassStrings('ar').signInButtonLabel).toBe('تسجيل الدخول بالهوية الرقمية');
+  });
+
+  it('translates every English string', () => {
+    const keys = Object.keys(UAE_PASS_STRINGS.en);
+
+    expect(Object.keys(UAE_PASS_STRINGS.ar)).toEqual(keys);
+    keys.forEach((key) => {
+      const arabic = UAE_PASS_STRINGS.ar[key as keyof typeof UAE_PASS_STRINGS.ar];
+      expect(arabic).toMatch(/[؀-ۿ]/);
+    });
+  });
+
+  it('applies app-wide, then per-component overrides for the active locale only', () => {
+    const strings = getUAEPassStrings(
+      'ar',
+      { ar: { headerTitle: 'الهوية الرقمية', loading: 'انتظر' }, en: { closeButtonLabel: 'Dismiss' } },
+      { loading: 'لحظة' }
+    );
+
+    expect(strings).toEqual({
+      ...UAE_PASS_STRINGS.ar,
+      headerTitle: 'الهوية الرقمية',
+      loading: 'لحظة',
+    });
+  });
+
+  it('falls back to English for an unknown locale', () => {
+    expect(getUAEPassStrings('fr' as UAEPassLocale)).toEqual(UAE_PASS_STRINGS.en);
+  });
+});
+
+describe('isRTLLocale', () => {
+  it('is right-to-left for Arabic only', () => {
+    expect(isRTLLocale('ar')).toBe(true);
+    expect(isRTLLocale('en')).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * UAE Pass UI Strings
+ *
+ * Bundled English/Arabic text for every user-facing string in the UI components
+ */
+
+import type { UAEPassLocale } from '../types';
+
+export interface UAEPassStrings {
+  /** WebView modal header title */
+  headerTitle: string;
+  /** Accessibility label of the close button */
+  closeButtonLabel: string;
+  /** Loading overlay text while the page loads */
+  loading: string;
+  /** Loading overlay text while the UAE Pass app is open */
+  waitingForApp: string;
+  /** Banner shown while the UAE Pass app is open */
+  waitingBanner: string;
+  /** UAEPassSignInButton label */
+  signInButtonLabel: string;
+  /** UAEPassSignInButton label while a flow is running */
+  signInButtonLoadingLabel: string;
+}
+
+/**
+ * Partial string overrides per locale
+ */
+export type UAEPassStringOverrides = Partial<Record<UAEPassLocale, Partial<UAEPassStrings>>>;
+
+export const UAE_PASS_STRINGS: Record<UAEPassLocale, UAEPassStrings> = {
+  en: {
+    headerTitle: 'UAE Pass Authentication',
+    closeButtonLabel: 'Close',
+    loading: 'Loading...',
+    waitingForApp: 'Waiting for UAE Pass...',
+    waitingBanner: 'Complete authentication in UAE Pass app, then return here',
+    signInButtonLabel: 'Sign in with UAE PASS',
+    signInButtonLoadingLabel: 'Signing in with UAE PASS...',
+  },
+  ar: {
+    headerTitle: 'تسجيل الدخول عبر الهوية الرقمية',
+    closeButtonLabel: 'إغلاق',
+    loading: 'جارٍ التحميل...',
+    waitingForApp: 'بانتظار الهوية الرقمية...',
+    waitingBanner: 'أكمل تسجيل الدخول في تطبيق الهوية الرقمية ثم عد إلى هنا',
+    signInButtonLabel: 'تسجيل الدخول بالهوية الرقمية',
+    signInButtonLoadingLabel: 'جارٍ تسجيل الدخول بالهوية الرقمية...',
+  },
+};
+
+/**
+ * Locales rendered right-to-left
+ */
+export const isRTLLocale = (locale: UAEPassLocale): boolean => locale === 'ar';
+
+/**
+ * Resolve the strings for a locale: bundled table < app-wide overrides < per-component overrides
+ */
+export const getUAEPassStrings = (
+  locale: UAEPassLocale,
+  appOverrides?: UAEPassStringOverrides,
+  componentOverrides?: Partial<UAEPassStrings>
+): UAEPassStrings => ({
+  ...(UAE_PASS_STRINGS[locale] || UAE_PASS_STRINGS.en),
+  ...appOverrides?.[locale],
+  ...componentOverrides,
+});
@@ -10,10 +10,31 @@ export {
   getUAEPassConfig,
   getUAEPassAppSchemes,
   getUAEPassEnvironment,
+  getUAEPassUrlScheme,
   UAE_PASS_ACR_VALUES,
+  UAE_PASS_ENVIRONMENTS,
   type UAEPassConfig,
+  type UAEPassResolvedConfig,
   type UAEPassAppSchemes,
+  type UAEPassEnvironment,
+  type UAEPassEnvironmentPreset,
 } from './config/uaePassConfig';
+export {
+  validateUAEPassConfig,
+  formatUAEPassConfigIssues,
+  UAE_PASS_KNOWN_SCOPES,
+  type UAEPassConfigIssue,
+  type UAEPassConfigIssueCode,
+  type UAEPassConfigValidationResult,
+} from './config/validateUAEPassConfig';
+
+// Errors
+export {
+  UAEPassError,
+  UAE_PASS_ERROR_CODES,
+  isUAEPassError,
+  type UAEPassErrorCode,
+} from './errors/uaePassError';
 
 // Hook
 export {
@@ -21,23 +42,155 @@ export {
   type UseUAEPassAuthOptions,
   type UseUAEPassAuthReturn,
 } from './hooks/useUAEPassAuth';
+export type {
+  UAEPassAuthStatus,
+  UAEPassAuthState,
+} from './hooks/uaePassAuthReducer';
+export {
+  useUAEPassSigning,
+  type UseUAEPassSigningOptions,
+  type UseUAEPassSigningReturn,
+  type UAEPassSigningFlowStatus,
+} from './hooks/useUAEPassSigning';
 
 // Service functions (for advanced usage)
 export {
   authenticateWithUAEPass,
+  reauthenticateWithUAEPass,
   authenticateWithUAEPassBrowser,
   prepareUAEPassAuth,
   isUAEPassAppInstalled,
+  resumePendingUAEPassAuth,
+  logoutFromUAEPass,
+  presentUAEPassWebView,
+  DEFAULT_UAE_PASS_TIMEOUT_MS,
+  type UAEPassWebViewRequest,
 } from './services/uaePassService';
 
+// Step-up authentication
+export {
+  checkUAEPassStepUp,
+  meetsUAEPassAcr,
+  UAE_PASS_ACR_LEVELS,
+  DEFAULT_UAE_PASS_CLOCK_SKEW_SECONDS,
+} from './services/stepUpService';
+
+// ID token verification
+export {
+  verifyUAEPassIdToken,
+  clearUAEPassJwksCache,
+  DEFAULT_UAE_PASS_JWKS_TTL_MS,
+  type UAEPassIdTokenVerifyOptions,
+} from './services/idTokenService';
+
+// Document signing
+export {
+  signWithUAEPass,
+  parseSigningCallbackURL,
+} from './services/uaePassSigningService';
+
+// Native module
+export {
+  getUAEPassNativeModule,
+  diagnoseUAEPassNativeModule,
+  requireUAEPassNativeModule,
+  type UAEPassNativeModuleMethod,
+} from './services/uaePassNativeModule';
+export type { Spec as NativeUAEPassModuleSpec } from './specs/NativeUAEPassModule';
+
+// Pending session storage
+export {
+  createMemorySessionStore,
+  createSecureStoreSessionStore,
+  createAsyncStorageSessionStore,
+  loadPendingSession,
+  clearPendingSession,
+  type SecureStoreLike,
+  type AsyncStorageLike,
+} from './services/pendingSessionStore';
+
+// User info
+export {
+  fetchUAEPassUserInfo,
+  normalizeUAEPassUserInfo,
+} from './services/userInfoService';
+
+// Logging
+export {
+  redactUAEPassSecrets,
+  type UAEPassLogLevel,
+  type UAEPassLogSink,
+  type UAEPassLoggerOptions,
+} from './utils/logger';
+
+// Telemetry
+export {
+  addUAEPassEventListener,
+  type UAEPassEvent,
+  type UAEPassEventType,
+  type UAEPassEventPayload,
+  type UAEPassEventMeta,
+  type UAEPassEventListener,
+  type UAEPassStrategy,
+} from './telemetry/uaePassEvents';
+
+// PKCE helpers
+export {
+  generateState,
+  generateNonce,
+  generateCodeVerifier,
+  deriveCodeChallenge,
+} from './utils/pkce';
+
+// Localisation
+export {
+  UAE_PASS_STRINGS,
+  getUAEPassStrings,
+  type UAEPassStrings,
+  type UAEPassStringOverrides,
+} from './i18n/uaePassStrings';
+
 // Components
 export { default as UAEPassWebViewAuth } from './components/UAEPassWebViewAuth';
+export {
+  default as UAEPassProvider,
+  type UAEPassProviderProps,
+} from './components/UAEPassProvider';
+export {
+  default as UAEPassAuthHost,
+  type UAEPassAuthHostProps,
+} from './components/UAEPassAuthHost';
+export {
+  default as UAEPassSignInButton,
+  UAEPassSignInButtonView,
+  type UAEPassSignInButtonProps,
+  type UAEPassSignInButtonViewProps,
+  type UAEPassSignInButtonVariant,
+  type UAEPassSignInButtonSize,
+} from './components/UAEPassSignInButton';
 
 // Types
 export type {
   UAEPassAuthResult,
   UAEPassWebViewAuthParams,
+  UAEPassRandomSource,
+  UAEPassFlowOptions,
+  UAEPassStepUpOptions,
+  UAEPassStepUpRequirement,
+  UAEPassLocale,
+  UAEPassLogoutOptions,
+  UAEPassLogoutResult,
+  UAEPassAuthFlow,
+  UAEPassPendingSession,
+  UAEPassSessionStore,
+  UAEPassUserType,
+  UAEPassUserInfoClaims,
+  UAEPassIdTokenClaims,
+  UAEPassUserProfile,
   UAEPassCallbackRequest,
   UAEPassCallbackResponse,
+  UAEPassSignerProcess,
+  UAEPassSigningStatus,
+  UAEPassSigningResult,
 } from './types';
 
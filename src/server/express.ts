@@ -0,0 +1,60 @@
+/**
+ * Express adapter for the UAE Pass callback handler
+ *
+ * Uses structural types so express does not need to be installed
+ */
+
+import {
+  createUAEPassCallbackHandler,
+  toUAEPassErrorResponse,
+  type UAEPassServerOptions,
+} from './uaePassServer';
+
+interface ExpressRequestLike {
+  body?: unknown;
+}
+
+export interface UAEPassExpressHandlerOptions<TRequest extends ExpressRequestLike = ExpressRequestLike>
+  extends UAEPassServerOptions {
+  /**
+   * State of the login this session started, when your backend issued it
+   * (e.g. `(req) => req.session.uaePassState`). The callback's state must match it;
+   * null or undefined rejects the request. Without this option state is checked on the device only.
+   */
+  getExpectedState?: (request: TRequest) => string | null | undefined | Promise<string | null | undefined>;
+}
+
+interface ExpressResponseLike {
+  status: (code: number) => ExpressResponseLike;
+  json: (body: unknown) => unknown;
+}
+
+/**
+ * Create an Express route handler
+ * Requires a JSON body parser (e.g. `express.json()`) in front of it
+ *
+ * @example
+ * ```typescript
+ * app.post('/auth/uaepass/callback', express.json(), createUAEPassExpressHandler(options));
+ * ```
+ */
+export const createUAEPassExpressHandler = <TRequest extends ExpressRequestLike = ExpressRequestLike>(
+  options: UAEPassExpressHandlerOptions<TRequest>
+) => {
+  const handleCallback = createUAEPassCallbackHandler(options);
+
+  return async (req: TRequest, res: ExpressResponseLike): Promise<void> => {
+    try {
+      const response = await handleCallback(
+        req.body,
+        options.getExpectedState ? { expectedState: (await options.getExpectedState(req)) ?? null } : undefined
+      );
+      res.status(200).json(response);
+    } catch (error) {
+      const { statusCode, body } = toUAEPassErrorResponse(error);
+      res.status(statusCode).json(body);
+    }
+  };
+};
+
+export default createUAEPassExpressHandler;
@@ -0,0 +1,59 @@
+/**
+ * Fastify adapter for the UAE Pass callback handler
+ *
+ * Uses structural types so fastify does not need to be installed
+ */
+
+import {
+  createUAEPassCallbackHandler,
+  toUAEPassErrorResponse,
+  type UAEPassServerOptions,
+} from './uaePassServer';
+
+interface FastifyRequestLike {
+  body?: unknown;
+}
+
+export interface UAEPassFastifyHandlerOptions<TRequest extends FastifyRequestLike = FastifyRequestLike>
+  extends UAEPassServerOptions {
+  /**
+   * State of the login this session started, when your backend issued it
+   * (e.g. `(req) => req.session.uaePassState`). The callback's state must match it;
+   * null or undefined rejects the request. Without this option state is checked on the device only.
+   */
+  getExpectedState?: (request: TRequest) => string | null | undefined | Promise<string | null | undefined>;
+}
+
+interface FastifyReplyLike {
+  code: (statusCode: number) => FastifyReplyLike;
+  send: (payload: unknown) => unknown;
+}
+
+/**
+ * Create a Fastify route handler
+ *
+ * @example
+ * ```typescript
+ * fastify.post('/auth/uaepass/callback', createUAEPassFastifyHandler(options));
+ * ```
+ */
+export const createUAEPassFastifyHandler = <TRequest extends FastifyRequestLike = FastifyRequestLike>(
+  options: UAEPassFastifyHandlerOptions<TRequest>
+) => {
+  const handleCallback = createUAEPassCallbackHandler(options);
+
+  return async (request: TRequest, reply: FastifyReplyLike): Promise<unknown> => {
+    try {
+      const response = await handleCallback(
+        request.body,
+        options.getExpectedState ? { expectedState: (await options.getExpectedState(request)) ?? null } : undefined
+      );
+      return reply.code(200).send(response);
+    } catch (error) {
+      const { statusCode, body } = toUAEPassErrorResponse(error);
+      return reply.code(statusCode).send(body);
+    }
+  };
+};
+
+export default createUAEPassFastifyHandler;
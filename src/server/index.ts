@@ -0,0 +1,54 @@
+/**
+ * expo-uae-pass/server
+ * 
+ * Node entry point implementing the backend side of the callback contract
+ */
+
+export {
+  createUAEPassCallbackHandler,
+  validateUAEPassCallbackRequest,
+  exchangeUAEPassCode,
+  fetchUAEPassUserProfile,
+  toUAEPassErrorResponse,
+  assertUAEPassCallbackState,
+  UAEPassServerError,
+  type UAEPassServerOptions,
+  type UAEPassCallbackContext,
+  type UAEPassTokenSet,
+  type UAEPassFindOrCreateUserParams,
+} from './uaePassServer';
+
+// eSignature
+export {
+  getUAEPassSigningToken,
+  createUAEPassSignerProcess,
+  downloadUAEPassSignedDocument,
+  deleteUAEPassSignerProcess,
+  UAE_PASS_SIGNING_SCOPE,
+  type UAEPassSigningServerOptions,
+  type UAEPassSignerProcessRequest,
+  type UAEPassSignerProcessResponse,
+  type UAEPassSignatureField,
+} from './uaePassSigning';
+
+// Step-up authentication (check the ID token of a reauthenticate() flow)
+export {
+  checkUAEPassStepUp,
+  meetsUAEPassAcr,
+  UAE_PASS_ACR_LEVELS,
+} from '../services/stepUpService';
+
+// Framework adapters
+export { createUAEPassExpressHandler, type UAEPassExpressHandlerOptions } from './express';
+export { createUAEPassFastifyHandler, type UAEPassFastifyHandlerOptions } from './fastify';
+
+// Types
+export type {
+  UAEPassCallbackRequest,
+  UAEPassCallbackResponse,
+  UAEPassUserProfile,
+  UAEPassUserInfoClaims,
+  UAEPassUserType,
+  UAEPassSignerProcess,
+  UAEPassStepUpRequirement,
+} from '../types';
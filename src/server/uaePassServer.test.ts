@@ -0,0 +1,298 @@
+import { createUAEPassExpressHandler } from './express';
+import { createUAEPassFastifyHandler } from './fastify';
+import {
+  createUAEPassCallbackHandler,
+  UAEPassServerError,
+  type UAEPassFindOrCreateUserParams,
+  type UAEPassServerOptions,
+} from './uaePassServer';
+import { startMockUAEPassIdP, MOCK_UAE_PASS_USERS, type MockUAEPassIdP } from '../testing';
+import type { UAEPassCallbackResponse } from '../types';
+
+const CLIENT_SECRET = 'test-secret';
+const REDIRECT_URI = 'uaepasstest://auth/uaepass';
+const SESSION: UAEPassCallbackResponse = {
+  user: { id: 1, name: 'Omar Citizen', email: 'omar@example.com', uae_pass_uuid: 'mock-sop2-uuid' },
+  access_token: 'app-access-token',
+  token_type: 'Bearer',
+  expires_at: '2030-01-01T00:00:00.000Z',
+};
+
+let idp: MockUAEPassIdP;
+let findOrCreateUser: jest.Mock<Promise<UAEPassCallbackResponse>, [UAEPassFindOrCreateUserParams]>;
+
+const serverOptions = (overrides: Partial<UAEPassServerOptions> = {}): UAEPassServerOptions => ({
+  clientId: idp.clientId,
+  clientSecret: CLIENT_SECRET,
+  redirectUri: REDIRECT_URI,
+  tokenEndpoint: idp.tokenEndpoint,
+  userInfoEndpoint: idp.userInfoEndpoint,
+  findOrCreateUser,
+  ...overrides,
+});
+
+/**
+ * Authorize at the mock IdP and return the callback body the app would POST
+ */
+const callbackBody = (overrides: Record<string, unknown> = {}) => {
+  const authUrl = `${idp.authorizationEndpoint}?${new URLSearchParams({
+    client_id: idp.clientId,
+    redirect_uri: REDIRECT_URI,
+    response_type: 'code',
+    scope: 'urn:uae:digitalid:profile:general',
+    state: 'state-1',
+  })}`;
+  const code = new URL(idp.authorize(authUrl)).searchParams.get('code');
+  return { code, state: 'state-1', device_type: 'ios', ...overrides };
+};
+
+/**
+ * Fetch that answers the userinfo endpoint itself and passes everything else through
+ */
+const userInfoFetch = (response: () => Response) => (input: string, init?: RequestInit) =>
+  input === idp.userInfoEndpoint ? Promise.resolve(response()) : fetch(input, init);
+
+const rejectionOf = async (promise: Promise<unknown>): Promise<UAEPassServerError> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as UAEPassServerError;
+  }
+  throw new Error('Expected the promise to reject');
+};
+
+beforeAll(async () => {
+  idp = await startMockUAEPassIdP({ clientSecret: CLIENT_SECRET });
+});
+
+beforeEach(() => {
+  findOrCreateUser = jest.fn().mockResolvedValue(SESSION);
+});
+
+afterEach(() => {
+  idp.reset();
+});
+
+afterAll(() => idp.stop());
+
+describe('createUAEPassCallbackHandler', () => {
+  it('passes the profile, tokens and request to findOrCreateUser', async () => {
+    idp.setUser('SOP2');
+    const body = callbackBody({ device_type: 'android', device_token: 'push-token' });
+
+    const response = await createUAEPassCallbackHandler(serverOptions())(body);
+
+    expect(response).toBe(SESSION);
+    expect(findOrCreateUser).toHaveBeenCalledTimes(1);
+    const { profile, tokens, request } = findOrCreateUser.mock.calls[0][0];
+    expect(profile).toMatchObject({ uuid: MOCK_UAE_PASS_USERS.SOP2.uuid, sub: MOCK_UAE_PASS_USERS.SOP2.sub });
+    expect(tokens.access_token).toBeTruthy();
+    expect(request).toEqual({
+      code: body.code,
+      state: 'state-1',
+      code_verifier: undefined,
+      device_type: 'android',
+      device_token: 'push-token',
+    });
+  });
+
+  it.each([
+    ['a missing body', undefined, 'Request body must be a JSON object'],
+    ['a missing code', { state: 's', device_type: 'ios' }, '"code" is required'],
+    ['a missing state', { code: 'c', device_type: 'ios' }, '"state" is required'],
+    ['an empty code_verifier', { code: 'c', state: 's', code_verifier: ' ', device_type: 'ios' }, '"code_verifier" must be a non-empty string'],
+    ['an unknown device_type', { code: 'c', state: 's', device_type: 'web' }, '"device_type" must be "ios" or "android"'],
+    ['a non-string device_token', { code: 'c', state: 's', device_type: 'ios', device_token: 1 }, '"device_token" must be a string'],
+  ])('rejects %s with 400', async (_, body, message) => {
+    const error = await rejectionOf(createUAEPassCallbackHandler(serverOptions())(body));
+
+    expect(error).toMatchObject({ code: 'INVALID_REQUEST', statusCode: 400, message });
+    expect(idp.requests.some((request) => request.endpoint === 'token')).toBe(false);
+    expect(findOrCreateUser).not.toHaveBeenCalled();
+  });
+
+  it('maps an invalid_grant from the token endpoint to 401', async () => {
+    const error = await rejectionOf(
+      createUAEPassCallbackHandler(serverOptions())(callbackBody({ code: 'unknown-code' }))
+    );
+
+    expect(error).toMatchObject({ code: 'TOKEN_EXCHANGE_FAILED', statusCode: 401, message: 'Unknown or expired code' });
+    expect(findOrCreateUser).not.toHaveBeenCalled();
+  });
+
+  it('maps a wrong client secret to 401', async () => {
+    const error = await rejectionOf(
+      createUAEPassCallbackHandler(serverOptions({ clientSecret: 'wrong' }))(callbackBody())
+    );
+
+    expect(error).toMatchObject({ code: 'TOKEN_EXCHANGE_FAILED', statusCode: 401, message: 'invalid_client' });
+  });
+
+  it('maps a token endpoint server error to 502', async () => {
+    const fetchFailing = (input: string, init?: RequestInit) =>
+      input === idp.tokenEndpoint
+        ? Promise.resolve(new Response('Service Unavailable', { status: 503 }))
+        : fetch(input, init);
+
+    const error = await rejectionOf(
+      createUAEPassCallbackHandler(serverOptions({ fetch: fetchFailing }))(callbackBody())
+    );
+
+    expect(error).toMatchObject({
+      code: 'TOKEN_EXCHANGE_FAILED',
+      statusCode: 502,
+      message: 'Token endpoint responded with 503',
+    });
+  });
+
+  it('maps an unreachable token endpoint to 502', async () => {
+    const error = await rejectionOf(
+      createUAEPassCallbackHandler(serverOptions({ fetch: () => Promise.reject(new TypeError('fetch failed')) }))(
+        callbackBody()
+      )
+    );
+
+    expect(error).toMatchObject({ code: 'NETWORK', statusCode: 502 });
+  });
+
+  it.each([
+    ['an error status', () => new Response('{}', { status: 500 }), 'Userinfo endpoint responded with 500'],
+    ['a non-JSON body', () => new Response('<html></html>', { status: 200 }), 'Invalid userinfo response'],
+    ['claims without uuid or sub', () => new Response(JSON.stringify({ email: 'a@example.com' }), { status: 200 }), 'Invalid userinfo response'],
+  ])('maps a userinfo response with %s to 502', async (_, response, message) => {
+    const error = await rejectionOf(
+      createUAEPassCallbackHandler(serverOptions({ fetch: userInfoFetch(response) }))(callbackBody())
+    );
+
+    expect(error).toMatchObject({ code: 'USERINFO_FAILED', statusCode: 502, message });
+    expect(findOrCreateUser).not.toHaveBeenCalled();
+  });
+
+  it('accepts a state that matches the expected one', async () => {
+    const response = await createUAEPassCallbackHandler(serverOptions())(callbackBody(), {
+      expectedState: 'state-1',
+    });
+
+    expect(response).toBe(SESSION);
+  });
+
+  it.each([
+    ['a different state', 'state-2'],
+    ['a longer state', 'state-10'],
+    ['no pending login', null],
+  ])('rejects %s with 400 before exchanging the code', async (_, expectedState) => {
+    const error = await rejectionOf(
+      createUAEPassCallbackHandler(serverOptions())(callbackBody(), { expectedState })
+    );
+
+    expect(error).toMatchObject({
+      code: 'STATE_MISMATCH',
+      statusCode: 400,
+      message: '"state" does not match the pending login',
+    });
+    expect(idp.requests.some((request) => request.endpoint === 'token')).toBe(false);
+    expect(findOrCreateUser).not.toHaveBeenCalled();
+  });
+
+  it('lets errors from findOrCreateUser through', async () => {
+    const failure = new Error('database unavailable');
+    findOrCreateUser.mockRejectedValue(failure);
+
+    await expect(createUAEPassCallbackHandler(serverOptions())(callbackBody())).rejects.toBe(failure);
+  });
+});
+
+describe('createUAEPassExpressHandler', () => {
+  const createResponse = () => {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    return res;
+  };
+
+  it('responds 200 with the session', async () => {
+    const res = createResponse();
+
+    await createUAEPassExpressHandler(serverOptions())({ body: callbackBody() }, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(SESSION);
+  });
+
+  it('responds with the error status and code', async () => {
+    const res = createResponse();
+
+    await createUAEPassExpressHandler(serverOptions())({ body: { state: 's', device_type: 'ios' } }, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: 'INVALID_REQUEST', message: '"code" is required' });
+  });
+
+  it('checks the state against getExpectedState', async () => {
+    const getExpectedState = jest.fn((req: { body?: unknown; session: { uaePassState?: string } }) =>
+      req.session.uaePassState
+    );
+    const matching = createResponse();
+    const missing = createResponse();
+    const handler = createUAEPassExpressHandler({ ...serverOptions(), getExpectedState });
+
+    await handler({ body: callbackBody(), session: { uaePassState: 'state-1' } }, matching);
+    await handler({ body: callbackBody(), session: {} }, missing);
+
+    expect(matching.status).toHaveBeenCalledWith(200);
+    expect(missing.status).toHaveBeenCalledWith(400);
+    expect(missing.json).toHaveBeenCalledWith({
+      error: 'STATE_MISMATCH',
+      message: '"state" does not match the pending login',
+    });
+    expect(getExpectedState).toHaveBeenCalledTimes(2);
+  });
+
+  it('hides unexpected errors behind a 500', async () => {
+    findOrCreateUser.mockRejectedValue(new Error('database unavailable'));
+    const res = createResponse();
+
+    await createUAEPassExpressHandler(serverOptions())({ body: callbackBody() }, res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({ error: 'INTERNAL_ERROR', message: 'UAE Pass callback failed' });
+  });
+});
+
+describe('createUAEPassFastifyHandler', () => {
+  const createReply = () => {
+    const reply = { code: jest.fn(), send: jest.fn((payload: unknown) => payload) };
+    reply.code.mockReturnValue(reply);
+    return reply;
+  };
+
+  it('replies 200 with the session', async () => {
+    const reply = createReply();
+
+    const result = await createUAEPassFastifyHandler(serverOptions())({ body: callbackBody() }, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(200);
+    expect(result).toBe(SESSION);
+  });
+
+  it('checks the state against an async getExpectedState', async () => {
+    const reply = createReply();
+    const handler = createUAEPassFastifyHandler({
+      ...serverOptions(),
+      getExpectedState: async () => 'state-2',
+    });
+
+    await handler({ body: callbackBody() }, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(400);
+    expect(findOrCreateUser).not.toHaveBeenCalled();
+  });
+
+  it('replies with the token exchange error', async () => {
+    const reply = createReply();
+
+    await createUAEPassFastifyHandler(serverOptions())({ body: callbackBody({ code: 'unknown-code' }) }, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(401);
+    expect(reply.send).toHaveBeenCalledWith({ error: 'TOKEN_EXCHANGE_FAILED', message: 'Unknown or expired code' });
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * UAE Pass Server Callback Handler
+ *
+ * Framework-agnostic implementation of the UAEPassCallbackRequest -> UAEPassCallbackResponse
+ * contract: validates the request, exchanges the code, fetches userinfo and hands the
+ * profile to your own user lookup
+ *
+ * Runs on Node 18+ (global fetch). Never bundle this into the mobile app - it needs the client secret.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { normalizeUAEPassUserInfo } from '../services/userInfoService';
+import type {
+  UAEPassCallbackRequest,
+  UAEPassCallbackResponse,
+  UAEPassUserInfoClaims,
+  UAEPassUserProfile,
+} from '../types';
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Token endpoint response
+ */
+export interface UAEPassTokenSet {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  scope?: string;
+  id_token?: string;
+  refresh_token?: string;
+}
+
+/**
+ * Arguments passed to the findOrCreateUser hook
+ */
+export interface UAEPassFindOrCreateUserParams {
+  profile: UAEPassUserProfile;
+  tokens: UAEPassTokenSet;
+  request: UAEPassCallbackRequest;
+}
+
+export interface UAEPassServerOptions {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  tokenEndpoint: string;
+  userInfoEndpoint: string;
+  /**
+   * Look up or create the user for this UAE Pass profile and issue your own session
+   */
+  findOrCreateUser: (params: UAEPassFindOrCreateUserParams) => Promise<UAEPassCallbackResponse>;
+  /**
+   * Optional fetch override (e.g. to point at a mock identity provider in tests)
+   */
+  fetch?: FetchLike;
+}
+
+/**
+ * Per-request input to the callback handler
+ */
+export interface UAEPassCallbackContext {
+  /**
+   * State of the login this session started (e.g. stored in the user's session when your
+   * backend issued it). A string must equal the request's state; null means no login is
+   * pending and rejects the request. When omitted, state is only validated on the device.
+   */
+  expectedState?: string | null;
+}
+
+/**
+ * Error raised by the server handler
+ * `statusCode` is the HTTP status adapters should respond with
+ */
+export class UAEPassServerError extends Error {
+  readonly code: string;
+  readonly statusCode: number;
+  readonly details?: unknown;
+
+  constructor(code: string, message: string, statusCode: number, details?: unknown) {
+    super(message);
+    this.name = 'UAEPassServerError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+const DEVICE_TYPES: readonly UAEPassCallbackRequest['device_type'][] = ['ios', 'android'];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Validate an incoming callback request body
+ * @throws UAEPassServerError (400) describing the first invalid field
+ */
+export const validateUAEPassCallbackRequest = (body: unknown): UAEPassCallbackRequest => {
+  if (!body || typeof body !== 'object') {
+    throw new UAEPassServerError('INVALID_REQUEST', 'Request body must be a JSON object', 400);
+  }
+
+  const { code, state, code_verifier, device_type, device_token } = body as Record<string, unknown>;
+
+  if (!isNonEmptyString(code)) {
+    throw new UAEPassServerError('INVALID_REQUEST', '"code" is required', 400);
+  }
+  if (!isNonEmptyString(state)) {
+    throw new UAEPassServerError('INVALID_REQUEST', '"state" is required', 400);
+  }
+  if (code_verifier !== undefined && !isNonEmptyString(code_verifier)) {
+    throw new UAEPassServerError('INVALID_REQUEST', '"code_verifier" must be a non-empty string', 400);
+  }
+  if (!DEVICE_TYPES.includes(device_type as UAEPassCallbackRequest['device_type'])) {
+    throw new UAEPassServerError('INVALID_REQUEST', '"device_type" must be "ios" or "android"', 400);
+  }
+  if (device_token !== undefined && typeof device_token !== 'string') {
+    throw new UAEPassServerError('INVALID_REQUEST', '"device_token" must be a string', 400);
+  }
+
+  return {
+    code,
+    state,
+    code_verifier,
+    device_type: device_type as UAEPassCallbackRequest['device_type'],
+    device_token,
+  };
+};
+
+/**
+ * Compare a callback state with the expected one in constant time
+ * @throws UAEPassServerError (STATE_MISMATCH, 400) when they differ or none is expected
+ */
+export const assertUAEPassCallbackState = (state: string, expectedState: string | null) => {
+  const actual = Buffer.from(state);
+  const expected = Buffer.from(expectedState ?? '');
+  if (!expectedState || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new UAEPassServerError('STATE_MISMATCH', '"state" does not match the pending login', 400);
+  }
+};
+
+/**
+ * Exchange an authorization code for tokens (client_secret_basic)
+ */
+export const exchangeUAEPassCode = async (
+  params: { code: string; codeVerifier?: string },
+  options: Pick<UAEPassServerOptions, 'clientId' | 'clientSecret' | 'redirectUri' | 'tokenEndpoint' | 'fetch'>
+): Promise<UAEPassTokenSet> => {
+  const doFetch = options.fetch || fetch;
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: options.redirectUri,
+  });
+  if (params.codeVerifier) {
+    body.set('code_verifier', params.codeVerifier);
+  }
+
+  const credentials = Buffer.from(
+    `${encodeURIComponent(options.clientId)}:${encodeURIComponent(options.clientSecret)}`
+  ).toString('base64');
+
+  let response: Response;
+  try {
+    response = await doFetch(options.tokenEndpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: body.toString(),
+    });
+  } catch (error) {
+    throw new UAEPassServerError('NETWORK', 'Could not reach UAE Pass token endpoint', 502, error);
+  }
+
+  const payload = await response.json().catch(() => null);
+
+  if (!response.ok || !payload?.access_token) {
+    throw new UAEPassServerError(
+      'TOKEN_EXCHANGE_FAILED',
+      payload?.error_description || payload?.error || `Token endpoint responded with ${response.status}`,
+      response.status >= 400 && response.status < 500 ? 401 : 502,
+      payload
+    );
+  }
+
+  return payload as UAEPassTokenSet;
+};
+
+/**
+ * Fetch and normalise the user profile for an access token
+ */
+export const fetchUAEPassUserProfile = async (
+  accessToken: string,
+  options: Pick<UAEPassServerOptions, 'userInfoEndpoint' | 'fetch'>
+): Promise<UAEPassUserProfile> => {
+  const doFetch = options.fetch || fetch;
+
+  let response: Response;
+  try {
+    response = await doFetch(options.userInfoEndpoint, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/json',
+      },
+    });
+  } catch (error) {
+    throw new UAEPassServerError('NETWORK', 'Could not reach UAE Pass userinfo endpoint', 502, error);
+  }
+
+  if (!response.ok) {
+    throw new UAEPassServerError(
+      'USERINFO_FAILED',
+      `Userinfo endpoint responded with ${response.status}`,
+      502
+    );
+  }
+
+  try {
+    const claims = (await response.json()) as UAEPassUserInfoClaims;
+    return normalizeUAEPassUserInfo(claims);
+  } catch (error) {
+    throw new UAEPassServerError('USERINFO_FAILED', 'Invalid userinfo response', 502, error);
+  }
+};
+
+/**
+ * Create a callback handler implementing the full contract
+ *
+ * The app checks `state` against its own request before posting the callback. Pass
+ * `context.expectedState` to also check it here (needed when your backend issues state);
+ * a mismatch is rejected with STATE_MISMATCH (400) before the code is exchanged.
+ *
+ * @example
+ * ```typescript
+ * const handleCallback = createUAEPassCallbackHandler({
+ *   clientId: process.env.UAEPASS_CLIENT_ID!,
+ *   clientSecret: process.env.UAEPASS_CLIENT_SECRET!,
+ *   redirectUri: 'yourapp://auth/uaepass',
+ *   tokenEndpoint: 'https://stg-id.uaepass.ae/idshub/token',
+ *   userInfoEndpoint: 'https://stg-id.uaepass.ae/idshub/userinfo',
+ *   findOrCreateUser: async ({ profile }) => issueSession(await users.upsertByUuid(profile)),
+ * });
+ *
+ * const response = await handleCallback(requestBody, { expectedState: session.uaePassState });
+ * ```
+ */
+export const createUAEPassCallbackHandler = (options: UAEPassServerOptions) => {
+  return async (body: unknown, context?: UAEPassCallbackContext): Promise<UAEPassCallbackResponse> => {
+    const request = validateUAEPassCallbackRequest(body);
+    if (context?.expectedState !== undefined) {
+      assertUAEPassCallbackState(request.state, context.expectedState);
+    }
+
+    const tokens = await exchangeUAEPassCode(
+      { code: request.code, codeVerifier: request.code_verifier },
+      options
+    );
+
+    const profile = await fetchUAEPassUserProfile(tokens.access_token, options);
+
+    return options.findOrCreateUser({ profile, tokens, request });
+  };
+};
+
+/**
+ * Map any error to an HTTP status and JSON body
+ * Unexpected errors are reported as 500 without leaking their message
+ */
+export const toUAEPassErrorResponse = (
+  error: unknown
+): { statusCode: number; body: { error: string; message: string } } => {
+  if (error instanceof UAEPassServerError) {
+    return {
+      statusCode: error.statusCode,
+      body: { error: error.code, message: error.message },
+    };
+  }
+  return {
+    statusCode: 500,
+    body: { error: 'INTERNAL_ERROR', message: 'UAE Pass callback failed' },
+  };
+};
@@ -0,0 +1,263 @@
+/**
+ * UAE Pass eSignature (server)
+ *
+ * Signer process lifecycle against the UAE Pass eSign API: get a client-credentials token,
+ * create a signer process for a PDF, download the signed document, delete the process.
+ * The app only drives the user through UAE Pass (signWithUAEPass / useUAEPassSigning).
+ */
+
+import { randomBytes } from 'crypto';
+import { UAEPassServerError } from './uaePassServer';
+import type { UAEPassSignerProcess } from '../types';
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export const UAE_PASS_SIGNING_SCOPE = 'urn:safelayer:eidas:sign:process:document';
+
+export interface UAEPassSigningServerOptions {
+  clientId: string;
+  clientSecret: string;
+  tokenEndpoint: string;
+  /**
+   * eSign API base, e.g. https://stg-id.uaepass.ae/trustedx-resources/esignsp/v2
+   */
+  signingApiUrl: string;
+  /**
+   * Optional fetch override (e.g. to point at the mock identity provider in tests)
+   */
+  fetch?: FetchLike;
+}
+
+/**
+ * Where and how the signature is placed on the PDF
+ */
+export interface UAEPassSignatureField {
+  /**
+   * 1-based page number
+   */
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  name?: string;
+}
+
+export interface UAEPassSignerProcessRequest {
+  /**
+   * PDF to sign
+   */
+  document: Uint8Array;
+  documentName: string;
+  /**
+   * App deep link UAE Pass opens when signing ends, e.g. yourapp://uaepass/sign
+   */
+  finishCallbackUrl: string;
+  signatureField?: UAEPassSignatureField;
+  /**
+   * UAE Pass page language (defaults to 'en')
+   */
+  locale?: 'en' | 'ar';
+}
+
+/**
+ * Signer process as returned by the eSign API (fields used by this module)
+ */
+export interface UAEPassSignerProcessResponse {
+  status?: string;
+  tasks?: { pending?: Array<{ type?: string; url: string }> };
+  documents?: Array<{ url: string }>;
+  [field: string]: unknown;
+}
+
+const DEFAULT_SIGNATURE_FIELD: UAEPassSignatureField = {
+  page: 1,
+  x: 430,
+  y: 670,
+  width: 100,
+  height: 50,
+  name: 'Sign1',
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const lastPathSegment = (url: string) => trimSlash(url.split('?')[0]).split('/').pop() || '';
+
+const doRequest = async (
+  options: Pick<UAEPassSigningServerOptions, 'fetch'>,
+  url: string,
+  init: RequestInit,
+  what: string
+): Promise<Response> => {
+  const doFetch = options.fetch || fetch;
+  let response: Response;
+  try {
+    response = await doFetch(url, init);
+  } catch (error) {
+    throw new UAEPassServerError('NETWORK', `Could not reach UAE Pass ${what}`, 502, error);
+  }
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new UAEPassServerError(
+      'SIGNING_FAILED',
+      payload?.error_description || payload?.message || `UAE Pass ${what} responded with ${response.status}`,
+      502,
+      payload
+    );
+  }
+  return response;
+};
+
+/**
+ * Get an eSign API access token (client_credentials, client_secret_basic)
+ */
+export const getUAEPassSigningToken = async (
+  options: Pick<UAEPassSigningServerOptions, 'clientId' | 'clientSecret' | 'tokenEndpoint' | 'fetch'>
+): Promise<string> => {
+  const credentials = Buffer.from(
+    `${encodeURIComponent(options.clientId)}:${encodeURIComponent(options.clientSecret)}`
+  ).toString('base64');
+
+  const response = await doRequest(options, options.tokenEndpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${credentials}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams({ grant_type: 'client_credentials', scope: UAE_PASS_SIGNING_SCOPE }).toString(),
+  }, 'token endpoint');
+
+  const payload = await response.json().catch(() => null);
+  if (!payload?.access_token) {
+    throw new UAEPassServerError('SIGNING_FAILED', 'Token endpoint returned no access_token', 502, payload);
+  }
+  return payload.access_token as string;
+};
+
+/**
+ * Build the multipart body by hand - Node's FormData typing clashes with React Native's
+ */
+const buildMultipart = (
+  parts: Array<{ name: string; value: Uint8Array | string; filename?: string; contentType: string }>
+): { body: Buffer; contentType: string } => {
+  const boundary = `----uaepass${randomBytes(12).toString('hex')}`;
+  const chunks: Buffer[] = [];
+  for (const part of parts) {
+    const disposition = part.filename
+      ? `form-data; name="${part.name}"; filename="${part.filename.replace(/"/g, '')}"`
+      : `form-data; name="${part.name}"`;
+    chunks.push(Buffer.from(
+      `--${boundary}\r\nContent-Disposition: ${disposition}\r\nContent-Type: ${part.contentType}\r\n\r\n`
+    ));
+    chunks.push(typeof part.value === 'string' ? Buffer.from(part.value) : Buffer.from(part.value));
+    chunks.push(Buffer.from('\r\n'));
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\n`));
+  return { body: Buffer.concat(chunks), contentType: `multipart/form-data; boundary=${boundary}` };
+};
+
+/**
+ * Create a signer process for a PDF
+ * @returns The process to hand to the app's signWithUAEPass() / useUAEPassSigning()
+ */
+export const createUAEPassSignerProcess = async (
+  request: UAEPassSignerProcessRequest,
+  options: UAEPassSigningServerOptions
+): Promise<UAEPassSignerProcess> => {
+  if (!request.document?.length) {
+    throw new UAEPassServerError('INVALID_REQUEST', '"document" must be a non-empty PDF', 400);
+  }
+  if (!request.finishCallbackUrl) {
+    throw new UAEPassServerError('INVALID_REQUEST', '"finishCallbackUrl" is required', 400);
+  }
+
+  const field = { ...DEFAULT_SIGNATURE_FIELD, ...request.signatureField };
+  const processDefinition = {
+    process_type: 'urn:safelayer:eidas:processes:document:sign:esigp',
+    labels: [['digitalid', 'server', 'qualified']],
+    signer: {
+      signature_policy_id: 'urn:safelayer:eidas:policies:sign:document:pdf',
+      parameters: {
+        type: 'pades-baseline',
+        signature_field: {
+          name: field.name,
+          location: {
+            page: { number: String(field.page) },
+            rectangle: { x: field.x, y: field.y, width: field.width, height: field.height },
+          },
+        },
+      },
+    },
+    ui_locales: [request.locale === 'ar' ? 'ar_AE' : 'en_US'],
+    finish_callback_url: request.finishCallbackUrl,
+    views: { document_agreement: { skip_server_id: 'true' } },
+    timestamp: { provider_id: 'urn:uae:tws:generation:policy:digitalid' },
+  };
+
+  const accessToken = await getUAEPassSigningToken(options);
+  const { body, contentType } = buildMultipart([
+    { name: 'process', value: JSON.stringify(processDefinition), contentType: 'application/json' },
+    { name: 'document', value: request.document, filename: request.documentName, contentType: 'application/pdf' },
+  ]);
+
+  const response = await doRequest(options, `${trimSlash(options.signingApiUrl)}/signer_processes`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': contentType,
+      Accept: 'application/json',
+    },
+    body,
+  }, 'eSign API');
+
+  const payload = (await response.json().catch(() => null)) as UAEPassSignerProcessResponse | null;
+  const location = response.headers.get('location');
+  const signUrl = payload?.tasks?.pending?.[0]?.url;
+  const processId = (payload?.id as string | undefined) || (location ? lastPathSegment(location) : '');
+  if (!payload || !signUrl || !processId) {
+    throw new UAEPassServerError('SIGNING_FAILED', 'eSign API returned an incomplete signer process', 502, payload);
+  }
+
+  return {
+    processId,
+    signUrl,
+    finishCallbackUrl: request.finishCallbackUrl,
+    documentIds: (payload.documents || []).map((document) => lastPathSegment(document.url)),
+  };
+};
+
+/**
+ * Download a signed document (call after the app reports status 'finished')
+ */
+export const downloadUAEPassSignedDocument = async (
+  documentId: string,
+  options: UAEPassSigningServerOptions,
+  accessToken?: string
+): Promise<Uint8Array> => {
+  const token = accessToken || (await getUAEPassSigningToken(options));
+  const response = await doRequest(
+    options,
+    `${trimSlash(options.signingApiUrl)}/documents/${encodeURIComponent(documentId)}/content`,
+    { method: 'GET', headers: { Authorization: `Bearer ${token}`, Accept: 'application/pdf' } },
+    'eSign API'
+  );
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Delete a signer process once its documents are downloaded
+ */
+export const deleteUAEPassSignerProcess = async (
+  processId: string,
+  options: UAEPassSigningServerOptions,
+  accessToken?: string
+): Promise<void> => {
+  const token = accessToken || (await getUAEPassSigningToken(options));
+  await doRequest(
+    options,
+    `${trimSlash(options.signingApiUrl)}/signer_processes/${encodeURIComponent(processId)}`,
+    { method: 'DELETE', headers: { Authorization: `Bearer ${token}` } },
+    'eSign API'
+  );
+};
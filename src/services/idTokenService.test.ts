@@ -0,0 +1,272 @@
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import { configureUAEPass, UAE_PASS_ACR_VALUES } from '../config/uaePassConfig';
+import { UAE_PASS_ERROR_CODES, type UAEPassError } from '../errors/uaePassError';
+import { clearUAEPassJwksCache, verifyUAEPassIdToken } from './idTokenService';
+
+const ISSUER = 'https://stg-id.uaepass.ae/trustedx-authserver/oauth/main-as';
+const JWKS_URI = 'https://stg-id.uaepass.ae/trustedx-authserver/oauth/main-as/jwks';
+const CLIENT_ID = 'sandbox_stage';
+const NONCE = 'nonce-1';
+const NOW = Date.UTC(2026, 0, 1, 12);
+const NOW_SECONDS = NOW / 1000;
+
+interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  jwk: Record<string, unknown>;
+}
+
+const createKey = (kid: string): SigningKey => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' } };
+};
+
+const HASHES: Record<string, string> = { RS256: 'sha256', RS384: 'sha384', RS512: 'sha512' };
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signToken = (key: SigningKey, claims: Record<string, unknown> = {}, alg = 'RS256') => {
+  const signingInput = `${encode({ alg, typ: 'JWT', kid: key.kid })}.${encode({
+    iss: ISSUER,
+    sub: 'user-1',
+    aud: CLIENT_ID,
+    iat: NOW_SECONDS,
+    exp: NOW_SECONDS + 600,
+    auth_time: NOW_SECONDS,
+    nonce: NONCE,
+    acr: UAE_PASS_ACR_VALUES.LOW,
+    ...claims,
+  })}`;
+  return `${signingInput}.${sign(HASHES[alg], Buffer.from(signingInput), key.privateKey).toString('base64url')}`;
+};
+
+const verify = (token: string, options?: Partial<Parameters<typeof verifyUAEPassIdToken>[1]>) =>
+  verifyUAEPassIdToken(token, { nonce: NONCE, now: NOW, ...options });
+
+const verifyError = async (token: string, options?: Partial<Parameters<typeof verifyUAEPassIdToken>[1]>) => {
+  try {
+    await verify(token, options);
+  } catch (error) {
+    return error as UAEPassError;
+  }
+  throw new Error('Expected verifyUAEPassIdToken to throw');
+};
+
+const keyA = createKey('key-a');
+const keyB = createKey('key-b');
+
+// JWKS the mocked fetch serves, changed by the rotation tests
+let publishedKeys: Record<string, unknown>[];
+let fetchMock: jest.SpyInstance;
+let clock: number;
+
+beforeEach(() => {
+  configureUAEPass({
+    clientId: CLIENT_ID,
+    redirectUri: 'uaepasstest://auth/uaepass',
+    environment: 'staging',
+    logger: 'silent',
+    jwksUri: JWKS_URI,
+  });
+  clearUAEPassJwksCache();
+  publishedKeys = [keyA.jwk];
+  clock = NOW;
+  jest.spyOn(Date, 'now').mockImplementation(() => clock);
+  fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async (input) => {
+    const url = String(input);
+    const body = url === JWKS_URI
+      ? { keys: publishedKeys }
+      : url === `${ISSUER}/.well-known/openid-configuration`
+        ? { issuer: ISSUER, jwks_uri: JWKS_URI }
+        : null;
+    return { ok: body !== null, status: body ? 200 : 404, json: async () => body } as Response;
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('verifyUAEPassIdToken - signature', () => {
+  it.each(['RS256', 'RS384', 'RS512'])('accepts a valid %s token', async (alg) => {
+    const claims = await verify(signToken(keyA, {}, alg));
+
+    expect(claims).toMatchObject({ iss: ISSUER, sub: 'user-1', aud: CLIENT_ID, nonce: NONCE });
+  });
+
+  it('rejects a tampered payload', async () => {
+    const [header, , signature] = signToken(keyA).split('.');
+    const [, forgedPayload] = signToken(keyA, { sub: 'someone-else' }).split('.');
+
+    expect((await verifyError(`${header}.${forgedPayload}.${signature}`)).code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_INVALID_SIGNATURE);
+  });
+
+  it('rejects a tampered signature', async () => {
+    const [header, payload, signature] = signToken(keyA).split('.');
+    const bytes = Buffer.from(signature, 'base64url');
+    bytes[bytes.length - 1] ^= 0x01;
+
+    const error = await verifyError(`${header}.${payload}.${bytes.toString('base64url')}`);
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_INVALID_SIGNATURE);
+  });
+
+  it('rejects a token signed with another key under a published kid', async () => {
+    const error = await verifyError(signToken(createKey('key-a')));
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_INVALID_SIGNATURE);
+  });
+
+  it('rejects unsupported algorithms', async () => {
+    const [, payload] = signToken(keyA).split('.');
+
+    const error = await verifyError(`${encode({ alg: 'none' })}.${payload}.`);
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_UNSUPPORTED_ALGORITHM);
+  });
+
+  it('finds the JWKS through OpenID discovery when jwksUri is not configured', async () => {
+    configureUAEPass({
+      clientId: CLIENT_ID,
+      redirectUri: 'uaepasstest://auth/uaepass',
+      environment: 'staging',
+      logger: 'silent',
+    });
+
+    await verify(signToken(keyA));
+
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([
+      `${ISSUER}/.well-known/openid-configuration`,
+      JWKS_URI,
+    ]);
+  });
+});
+
+describe('verifyUAEPassIdToken - key rotation', () => {
+  it('refetches the JWKS for an unknown kid', async () => {
+    await verify(signToken(keyA));
+    publishedKeys = [keyA.jwk, keyB.jwk];
+    clock = NOW + 31 * 1000;
+
+    await verify(signToken(keyB), { now: clock });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reuses the cached JWKS for a known kid', async () => {
+    await verify(signToken(keyA));
+    await verify(signToken(keyA));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches at most every 30 seconds', async () => {
+    await verify(signToken(keyA));
+    const unknown = signToken(keyB);
+
+    clock = NOW + 29 * 1000;
+    expect((await verifyError(unknown, { now: clock })).code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_KEY_NOT_FOUND);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    publishedKeys = [keyB.jwk];
+    clock = NOW + 31 * 1000;
+    await verify(unknown, { now: clock });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails with JWKS_UNAVAILABLE when the JWKS cannot be fetched', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('offline'));
+
+    expect((await verifyError(signToken(keyA))).code).toBe(UAE_PASS_ERROR_CODES.JWKS_UNAVAILABLE);
+  });
+});
+
+describe('verifyUAEPassIdToken - claims', () => {
+  it('rejects another issuer', async () => {
+    const error = await verifyError(signToken(keyA, { iss: 'https://id.example.com' }));
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_INVALID_ISSUER);
+  });
+
+  it('rejects another audience', async () => {
+    const error = await verifyError(signToken(keyA, { aud: 'other_client' }));
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_INVALID_AUDIENCE);
+  });
+
+  it('accepts an audience list with the client and a matching azp', async () => {
+    await expect(verify(signToken(keyA, { aud: ['other_client', CLIENT_ID], azp: CLIENT_ID }))).resolves.toBeTruthy();
+  });
+
+  it('rejects another authorized party', async () => {
+    const error = await verifyError(signToken(keyA, { aud: [CLIENT_ID, 'other_client'], azp: 'other_client' }));
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_INVALID_AUDIENCE);
+  });
+
+  it('allows 60 seconds of clock skew on exp', async () => {
+    await expect(verify(signToken(keyA, { exp: NOW_SECONDS - 60 }))).resolves.toBeTruthy();
+    expect((await verifyError(signToken(keyA, { exp: NOW_SECONDS - 61 }))).code).toBe(
+      UAE_PASS_ERROR_CODES.ID_TOKEN_EXPIRED
+    );
+  });
+
+  it('allows 60 seconds of clock skew on iat', async () => {
+    await expect(verify(signToken(keyA, { iat: NOW_SECONDS + 60 }))).resolves.toBeTruthy();
+    expect((await verifyError(signToken(keyA, { iat: NOW_SECONDS + 61 }))).code).toBe(
+      UAE_PASS_ERROR_CODES.ID_TOKEN_ISSUED_IN_FUTURE
+    );
+  });
+
+  it('honours a custom clock skew', async () => {
+    const error = await verifyError(signToken(keyA, { exp: NOW_SECONDS - 10 }), { clockSkewSeconds: 5 });
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_EXPIRED);
+  });
+
+  it('rejects another nonce', async () => {
+    const error = await verifyError(signToken(keyA, { nonce: 'nonce-2' }));
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_NONCE_MISMATCH);
+  });
+
+  it('rejects a token without a nonce', async () => {
+    const error = await verifyError(signToken(keyA, { nonce: undefined }));
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_NONCE_MISMATCH);
+  });
+
+  it('fails without a nonce to check against', async () => {
+    const error = await verifyError(signToken(keyA), { nonce: '' });
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_NONCE_MISMATCH);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects an acr below the required level', async () => {
+    const error = await verifyError(signToken(keyA, { acr: UAE_PASS_ACR_VALUES.MEDIUM }), {
+      acr: UAE_PASS_ACR_VALUES.HIGH,
+    });
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_ACR_MISMATCH);
+    expect(error.details).toEqual({ acr: UAE_PASS_ACR_VALUES.MEDIUM, requiredAcr: UAE_PASS_ACR_VALUES.HIGH });
+  });
+
+  it('accepts an acr at or above the required level', async () => {
+    await expect(
+      verify(signToken(keyA, { acr: UAE_PASS_ACR_VALUES.HIGH }), { acr: UAE_PASS_ACR_VALUES.MEDIUM })
+    ).resolves.toBeTruthy();
+  });
+
+  it('rejects an authentication older than maxAge', async () => {
+    const error = await verifyError(signToken(keyA, { auth_time: NOW_SECONDS - 400 }), { maxAge: 300 });
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_EXPIRED);
+  });
+
+  it('rejects a token missing required claims', async () => {
+    const error = await verifyError(signToken(keyA, { sub: undefined }));
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.ID_TOKEN_MALFORMED);
+  });
+});
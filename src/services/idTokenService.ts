@@ -0,0 +1,377 @@
+/**
+ * UAE Pass ID Token Verification
+ *
+ * Verifies OpenID Connect ID tokens on the device: RS256/RS384/RS512 signature
+ * against the environment's JWKS (cached), then iss, aud, exp/iat, nonce and acr
+ */
+
+import * as Crypto from 'expo-crypto';
+import { getUAEPassConfig } from '../config/uaePassConfig';
+import { decodeJwt, base64UrlDecode, type DecodedJwt } from '../utils/jwt';
+import { meetsUAEPassAcr, DEFAULT_UAE_PASS_CLOCK_SKEW_SECONDS } from './stepUpService';
+import { uaePassLogger } from '../utils/logger';
+import { UAEPassError, UAE_PASS_ERROR_CODES, type UAEPassErrorCode } from '../errors/uaePassError';
+import type { UAEPassIdTokenClaims } from '../types';
+
+// How long a fetched JWKS is reused (1 hour)
+export const DEFAULT_UAE_PASS_JWKS_TTL_MS = 60 * 60 * 1000;
+
+// Minimum time between refetches triggered by an unknown kid (key rotation)
+const JWKS_REFETCH_INTERVAL_MS = 30 * 1000;
+
+export interface UAEPassIdTokenVerifyOptions {
+  /**
+   * Nonce sent with the authorization request (result.nonce) - the token's nonce must equal it
+   */
+  nonce: string;
+  /**
+   * Minimum authentication level, e.g. UAE_PASS_ACR_VALUES.HIGH
+   */
+  acr?: string;
+  /**
+   * Maximum age of the authentication in seconds (checks auth_time)
+   */
+  maxAge?: number;
+  /**
+   * Expected aud (defaults to config.clientId)
+   */
+  audience?: string;
+  /**
+   * Expected iss (defaults to config.issuer)
+   */
+  issuer?: string;
+  /**
+   * JWKS location (defaults to config.jwksUri, then OpenID discovery on the issuer)
+   */
+  jwksUri?: string;
+  /**
+   * Allowed clock difference for exp/iat/auth_time (defaults to 60 seconds)
+   */
+  clockSkewSeconds?: number;
+  now?: number;
+}
+
+interface RsaJwk {
+  kty: 'RSA';
+  kid?: string;
+  alg?: string;
+  use?: string;
+  n: string;
+  e: string;
+}
+
+/**
+ * The part of the OpenID discovery document used here
+ */
+interface OpenIdDiscoveryDocument {
+  jwks_uri: string;
+}
+
+interface JsonWebKeySet {
+  keys: unknown[];
+}
+
+interface CachedJwks {
+  keys: RsaJwk[];
+  fetchedAt: number;
+}
+
+const jwksCache = new Map<string, CachedJwks>();
+const discoveryCache = new Map<string, string>();
+
+const RSA_ALGORITHMS: Record<string, { digest: Crypto.CryptoDigestAlgorithm; digestInfo: string }> = {
+  RS256: { digest: Crypto.CryptoDigestAlgorithm.SHA256, digestInfo: '3031300d060960864801650304020105000420' },
+  RS384: { digest: Crypto.CryptoDigestAlgorithm.SHA384, digestInfo: '3041300d060960864801650304020205000430' },
+  RS512: { digest: Crypto.CryptoDigestAlgorithm.SHA512, digestInfo: '3051300d060960864801650304020305000440' },
+};
+
+const fail = (code: UAEPassErrorCode, message: string, details?: unknown): never => {
+  throw new UAEPassError(code, message, { details });
+};
+
+// ==================== JWKS ====================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): boolean => value === undefined || typeof value === 'string';
+
+const isRsaJwk = (value: unknown): value is RsaJwk =>
+  isRecord(value) &&
+  value.kty === 'RSA' &&
+  typeof value.n === 'string' &&
+  typeof value.e === 'string' &&
+  optionalString(value.kid) &&
+  optionalString(value.alg) &&
+  optionalString(value.use);
+
+const isDiscoveryDocument = (value: Record<string, unknown>): value is Record<string, unknown> & OpenIdDiscoveryDocument =>
+  typeof value.jwks_uri === 'string';
+
+const isJsonWebKeySet = (value: Record<string, unknown>): value is Record<string, unknown> & JsonWebKeySet =>
+  Array.isArray(value.keys);
+
+const fetchJson = async (url: string, what: string): Promise<Record<string, unknown>> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { Accept: 'application/json' } });
+  } catch (error) {
+    return fail(UAE_PASS_ERROR_CODES.JWKS_UNAVAILABLE, `Could not reach ${what}`, error);
+  }
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !isRecord(payload)) {
+    return fail(UAE_PASS_ERROR_CODES.JWKS_UNAVAILABLE, `${what} responded with ${response.status}`, payload);
+  }
+  return payload;
+};
+
+/**
+ * JWKS URI from the issuer's OpenID discovery document (cached)
+ */
+const discoverJwksUri = async (issuer: string): Promise<string> => {
+  const cached = discoveryCache.get(issuer);
+  if (cached) return cached;
+
+  const document = await fetchJson(
+    `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`,
+    'OpenID discovery document'
+  );
+  if (!isDiscoveryDocument(document)) {
+    return fail(UAE_PASS_ERROR_CODES.JWKS_UNAVAILABLE, 'OpenID discovery document has no jwks_uri', document);
+  }
+  discoveryCache.set(issuer, document.jwks_uri);
+  return document.jwks_uri;
+};
+
+const loadJwks = async (jwksUri: string, forceRefresh: boolean): Promise<CachedJwks> => {
+  const cached = jwksCache.get(jwksUri);
+  const now = Date.now();
+  if (cached && !forceRefresh && now - cached.fetchedAt < DEFAULT_UAE_PASS_JWKS_TTL_MS) {
+    return cached;
+  }
+  if (cached && forceRefresh && now - cached.fetchedAt < JWKS_REFETCH_INTERVAL_MS) {
+    return cached;
+  }
+
+  uaePassLogger.debug('🔑 Fetching UAE Pass JWKS:', jwksUri);
+  const jwks = await fetchJson(jwksUri, 'JWKS endpoint');
+  if (!isJsonWebKeySet(jwks)) {
+    return fail(UAE_PASS_ERROR_CODES.JWKS_UNAVAILABLE, 'JWKS has no keys', jwks);
+  }
+  const entry: CachedJwks = {
+    keys: jwks.keys.filter(isRsaJwk),
+    fetchedAt: now,
+  };
+  jwksCache.set(jwksUri, entry);
+  return entry;
+};
+
+const findKey = (keys: RsaJwk[], kid: string | undefined, alg: string): RsaJwk | undefined =>
+  keys.find((key) =>
+    (kid === undefined || key.kid === kid) &&
+    (!key.alg || key.alg === alg) &&
+    (!key.use || key.use === 'sig')
+  );
+
+/**
+ * Forget cached JWKS and discovery documents (e.g. after switching environments)
+ */
+export const clearUAEPassJwksCache = () => {
+  jwksCache.clear();
+  discoveryCache.clear();
+};
+
+// ==================== RSA Signature ====================
+
+const bytesToBigInt = (bytes: Uint8Array): bigint => {
+  let value = BigInt(0);
+  for (const byte of bytes) {
+    value = (value << BigInt(8)) | BigInt(byte);
+  }
+  return value;
+};
+
+const bigIntToBytes = (value: bigint, length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(remaining & BigInt(0xff));
+    remaining >>= BigInt(8);
+  }
+  return bytes;
+};
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = BigInt(1);
+  let b = base % modulus;
+  let e = exponent;
+  while (e > BigInt(0)) {
+    if (e & BigInt(1)) {
+      result = (result * b) % modulus;
+    }
+    e >>= BigInt(1);
+    b = (b * b) % modulus;
+  }
+  return result;
+};
+
+const hexToBytes = (hex: string): Uint8Array =>
+  new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+
+const asciiBytes = (value: string): Uint8Array =>
+  new Uint8Array(Array.from(value, (char) => char.charCodeAt(0)));
+
+/**
+ * RSASSA-PKCS1-v1_5 verification (RFC 8017 §8.2.2)
+ * Hand-rolled with BigInt because React Native has no WebCrypto
+ */
+const verifyRsaSignature = async (jwt: DecodedJwt, key: RsaJwk, alg: string): Promise<boolean> => {
+  const { digest, digestInfo } = RSA_ALGORITHMS[alg];
+  const modulusBytes = base64UrlDecode(key.n);
+  const modulus = bytesToBigInt(modulusBytes);
+  const length = modulusBytes[0] === 0 ? modulusBytes.length - 1 : modulusBytes.length;
+  if (jwt.signature.length !== length) {
+    return false;
+  }
+
+  const signature = bytesToBigInt(jwt.signature);
+  if (signature >= modulus) {
+    return false;
+  }
+  const encoded = bigIntToBytes(modPow(signature, bytesToBigInt(base64UrlDecode(key.e)), modulus), length);
+
+  const hash = new Uint8Array(await Crypto.digest(digest, asciiBytes(jwt.signingInput)));
+  const suffix = new Uint8Array([...hexToBytes(digestInfo), ...hash]);
+  const paddingLength = length - suffix.length - 3;
+  if (paddingLength < 8) {
+    return false;
+  }
+
+  const expected = new Uint8Array(length);
+  expected[1] = 0x01;
+  expected.fill(0xff, 2, 2 + paddingLength);
+  expected.set(suffix, 3 + paddingLength);
+
+  let difference = 0;
+  for (let i = 0; i < length; i++) {
+    difference |= expected[i] ^ encoded[i];
+  }
+  return difference === 0;
+};
+
+// ==================== Verification ====================
+
+const readClaims = (payload: Record<string, unknown>): UAEPassIdTokenClaims => {
+  const { iss, sub, aud, exp, iat } = payload;
+  const audValid = typeof aud === 'string' || (Array.isArray(aud) && aud.every((value) => typeof value === 'string'));
+  if (typeof iss !== 'string' || typeof sub !== 'string' || !audValid || typeof exp !== 'number' || typeof iat !== 'number') {
+    return fail(UAE_PASS_ERROR_CODES.ID_TOKEN_MALFORMED, 'ID token is missing iss, sub, aud, exp or iat');
+  }
+  return payload as unknown as UAEPassIdTokenClaims;
+};
+
+/**
+ * Verify a UAE Pass ID token and return its claims
+ *
+ * Needs the `openid` scope (so the token response has an id_token) and config.issuer
+ * (set by the staging/production presets). The nonce from the authentication result is
+ * required: a token is never accepted without checking it. useUAEPassAuth().exchangeCode()
+ * already calls this for the token it receives.
+ *
+ * @example
+ * ```typescript
+ * const tokens = await exchangeCode({ code, codeVerifier: result.codeVerifier, clientSecret });
+ * const claims = await verifyUAEPassIdToken(tokens.idToken!, { nonce: result.nonce });
+ * ```
+ *
+ * @throws UAEPassError - ID_TOKEN_MALFORMED, ID_TOKEN_UNSUPPORTED_ALGORITHM, JWKS_UNAVAILABLE,
+ *   ID_TOKEN_KEY_NOT_FOUND, ID_TOKEN_INVALID_SIGNATURE, ID_TOKEN_INVALID_ISSUER,
+ *   ID_TOKEN_INVALID_AUDIENCE, ID_TOKEN_EXPIRED, ID_TOKEN_ISSUED_IN_FUTURE,
+ *   ID_TOKEN_NONCE_MISMATCH, ID_TOKEN_ACR_MISMATCH or NOT_CONFIGURED
+ */
+export const verifyUAEPassIdToken = async (
+  idToken: string,
+  options: UAEPassIdTokenVerifyOptions
+): Promise<UAEPassIdTokenClaims> => {
+  const config = getUAEPassConfig();
+  const issuer = options.issuer || config.issuer;
+  const audience = options.audience || config.clientId;
+  if (!issuer) {
+    return fail(UAE_PASS_ERROR_CODES.NOT_CONFIGURED, 'ID token issuer not configured. Set `issuer` in configureUAEPass().');
+  }
+  if (!options.nonce) {
+    return fail(UAE_PASS_ERROR_CODES.ID_TOKEN_NONCE_MISMATCH, 'No nonce to check the ID token against - pass result.nonce');
+  }
+
+  let jwt: DecodedJwt;
+  try {
+    jwt = decodeJwt(idToken);
+  } catch (error) {
+    return fail(UAE_PASS_ERROR_CODES.ID_TOKEN_MALFORMED, 'ID token is not a valid JWT', error);
+  }
+
+  // Signature
+  const alg = jwt.header.alg;
+  if (typeof alg !== 'string' || !RSA_ALGORITHMS[alg]) {
+    return fail(UAE_PASS_ERROR_CODES.ID_TOKEN_UNSUPPORTED_ALGORITHM, `Unsupported ID token algorithm "${String(alg)}"`);
+  }
+  const kid = typeof jwt.header.kid === 'string' ? jwt.header.kid : undefined;
+  const jwksUri = options.jwksUri || config.jwksUri || (await discoverJwksUri(issuer));
+
+  let key = findKey((await loadJwks(jwksUri, false)).keys, kid, alg);
+  if (!key) {
+    // The keys may have rotated since the JWKS was cached
+    key = findKey((await loadJwks(jwksUri, true)).keys, kid, alg);
+  }
+  if (!key) {
+    return fail(UAE_PASS_ERROR_CODES.ID_TOKEN_KEY_NOT_FOUND, `No JWKS key for kid "${kid ?? 'none'}" and ${alg}`);
+  }
+  if (!(await verifyRsaSignature(jwt, key, alg))) {
+    return fail(UAE_PASS_ERROR_CODES.ID_TOKEN_INVALID_SIGNATURE, 'ID token signature is invalid');
+  }
+
+  // Claims
+  const claims = readClaims(jwt.payload);
+  const skew = options.clockSkewSeconds ?? DEFAULT_UAE_PASS_CLOCK_SKEW_SECONDS;
+  const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+
+  if (claims.iss !== issuer) {
+    fail(UAE_PASS_ERROR_CODES.ID_TOKEN_INVALID_ISSUER, `ID token issuer "${claims.iss}" is not "${issuer}"`);
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(audience) || (claims.azp !== undefined && claims.azp !== audience)) {
+    fail(UAE_PASS_ERROR_CODES.ID_TOKEN_INVALID_AUDIENCE, `ID token is not issued to "${audience}"`);
+  }
+  if (claims.exp + skew < nowSeconds) {
+    fail(UAE_PASS_ERROR_CODES.ID_TOKEN_EXPIRED, 'ID token has expired', { exp: claims.exp });
+  }
+  if (claims.iat - skew > nowSeconds) {
+    fail(UAE_PASS_ERROR_CODES.ID_TOKEN_ISSUED_IN_FUTURE, 'ID token is issued in the future', { iat: claims.iat });
+  }
+  if (claims.nonce !== options.nonce) {
+    fail(UAE_PASS_ERROR_CODES.ID_TOKEN_NONCE_MISMATCH, 'ID token nonce does not match the request');
+  }
+  if (options.acr !== undefined && !meetsUAEPassAcr(claims.acr, options.acr)) {
+    fail(
+      UAE_PASS_ERROR_CODES.ID_TOKEN_ACR_MISMATCH,
+      `Authentication level "${claims.acr ?? 'none'}" does not meet "${options.acr}"`,
+      { acr: claims.acr, requiredAcr: options.acr }
+    );
+  }
+  if (options.maxAge !== undefined) {
+    if (typeof claims.auth_time !== 'number') {
+      fail(UAE_PASS_ERROR_CODES.ID_TOKEN_MALFORMED, 'ID token has no auth_time claim');
+    } else if (nowSeconds - claims.auth_time > options.maxAge + skew) {
+      fail(UAE_PASS_ERROR_CODES.ID_TOKEN_EXPIRED, `Authentication is older than ${options.maxAge}s`, {
+        authTime: claims.auth_time,
+      });
+    }
+  }
+
+  return claims;
+};
+
+export default {
+  verifyUAEPassIdToken,
+  clearUAEPassJwksCache,
+};
@@ -0,0 +1,182 @@
+/**
+ * UAE Pass Pending Session Store
+ *
+ * Persists the in-flight authentication request (state, code verifier, ACR, flow)
+ * so the callback can still be validated after Android kills the app process
+ * while the user is in the UAE Pass app
+ */
+
+import { getUAEPassConfig } from '../config/uaePassConfig';
+import { uaePassLogger } from '../utils/logger';
+import type { UAEPassPendingSession, UAEPassSessionStore } from '../types';
+
+const PENDING_SESSION_KEY = 'expo-uae-pass.pendingSession';
+
+// Default session lifetime: 10 minutes
+export const DEFAULT_PENDING_SESSION_TTL_MS = 10 * 60 * 1000;
+
+// Request of the flow that finished last (in memory only) - the code exchange still needs its nonce
+let completedSession: UAEPassPendingSession | null = null;
+
+// ==================== Store Adapters ====================
+
+/**
+ * In-memory store (default)
+ * Does NOT survive process death - use a persistent adapter in production
+ */
+export const createMemorySessionStore = (): UAEPassSessionStore => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+/**
+ * Subset of the expo-secure-store API used by the SecureStore adapter
+ */
+export interface SecureStoreLike {
+  getItemAsync: (key: string) => Promise<string | null>;
+  setItemAsync: (key: string, value: string) => Promise<void>;
+  deleteItemAsync: (key: string) => Promise<void>;
+}
+
+/**
+ * expo-secure-store adapter (recommended - the code verifier is a secret)
+ *
+ * @example
+ * ```typescript
+ * import * as SecureStore from 'expo-secure-store';
+ * configureUAEPass({ ..., sessionStore: createSecureStoreSessionStore(SecureStore) });
+ * ```
+ */
+export const createSecureStoreSessionStore = (
+  secureStore: SecureStoreLike
+): UAEPassSessionStore => ({
+  getItem: (key) => secureStore.getItemAsync(key),
+  setItem: (key, value) => secureStore.setItemAsync(key, value),
+  removeItem: (key) => secureStore.deleteItemAsync(key),
+});
+
+/**
+ * Subset of the @react-native-async-storage/async-storage API used by the AsyncStorage adapter
+ */
+export interface AsyncStorageLike {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+/**
+ * AsyncStorage adapter
+ *
+ * @example
+ * ```typescript
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ * configureUAEPass({ ..., sessionStore: createAsyncStorageSessionStore(AsyncStorage) });
+ * ```
+ */
+export const createAsyncStorageSessionStore = (
+  asyncStorage: AsyncStorageLike
+): UAEPassSessionStore => ({
+  getItem: (key) => asyncStorage.getItem(key),
+  setItem: (key, value) => asyncStorage.setItem(key, value),
+  removeItem: (key) => asyncStorage.removeItem(key),
+});
+
+// ==================== Session Access ====================
+
+const defaultStore = createMemorySessionStore();
+
+/**
+ * Get the configured store, falling back to the in-memory store
+ */
+const getSessionStore = (): UAEPassSessionStore => {
+  return getUAEPassConfig().sessionStore || defaultStore;
+};
+
+/**
+ * Check whether a pending session is older than the configured TTL
+ */
+export const isPendingSessionExpired = (
+  session: UAEPassPendingSession,
+  now: number = Date.now()
+): boolean => {
+  const ttl = getUAEPassConfig().pendingSessionTtlMs ?? DEFAULT_PENDING_SESSION_TTL_MS;
+  return now - session.createdAt > ttl;
+};
+
+/**
+ * Persist the in-flight authentication request
+ * Storage failures are logged, not thrown, so login still works without persistence
+ */
+export const savePendingSession = async (session: UAEPassPendingSession): Promise<void> => {
+  completedSession = null;
+  try {
+    await getSessionStore().setItem(PENDING_SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    uaePassLogger.warn('Failed to persist pending UAE Pass session:', error);
+  }
+};
+
+/**
+ * Load the in-flight authentication request, if any
+ */
+export const loadPendingSession = async (): Promise<UAEPassPendingSession | null> => {
+  try {
+    const raw = await getSessionStore().getItem(PENDING_SESSION_KEY);
+    if (!raw) {
+      return null;
+    }
+    const session = JSON.parse(raw) as UAEPassPendingSession;
+    if (!session || typeof session.state !== 'string' || typeof session.codeVerifier !== 'string') {
+      return null;
+    }
+    return session;
+  } catch (error) {
+    uaePassLogger.warn('Failed to load pending UAE Pass session:', error);
+    return null;
+  }
+};
+
+/**
+ * Remove the in-flight authentication request
+ * It stays readable through loadLatestPendingSession() until the next flow starts
+ */
+export const clearPendingSession = async (): Promise<void> => {
+  completedSession = (await loadPendingSession()) ?? completedSession;
+  try {
+    await getSessionStore().removeItem(PENDING_SESSION_KEY);
+  } catch (error) {
+    uaePassLogger.warn('Failed to clear pending UAE Pass session:', error);
+  }
+};
+
+/**
+ * The in-flight authentication request, or else the one the last finished flow cleared
+ * Lets exchangeCode() find the nonce of a flow completed by another hook or by resumePendingUAEPassAuth()
+ */
+export const loadLatestPendingSession = async (): Promise<UAEPassPendingSession | null> =>
+  (await loadPendingSession()) ?? completedSession;
+
+/**
+ * Forget the finished flow's request once its code has been exchanged
+ */
+export const forgetCompletedPendingSession = (): void => {
+  completedSession = null;
+};
+
+export default {
+  createMemorySessionStore,
+  createSecureStoreSessionStore,
+  createAsyncStorageSessionStore,
+  savePendingSession,
+  loadPendingSession,
+  clearPendingSession,
+  isPendingSessionExpired,
+};
@@ -0,0 +1,170 @@
+import { UAE_PASS_ACR_VALUES } from '../config/uaePassConfig';
+import { UAE_PASS_ERROR_CODES, type UAEPassError } from '../errors/uaePassError';
+import {
+  checkUAEPassStepUp,
+  createStepUpRequirement,
+  meetsUAEPassAcr,
+  UAE_PASS_ACR_LEVELS,
+} from './stepUpService';
+
+const { LOW, MOBILE_ON_DEVICE, MEDIUM, HIGH } = UAE_PASS_ACR_VALUES;
+
+const NOW = Date.UTC(2026, 0, 1, 12);
+const NOW_SECONDS = NOW / 1000;
+
+/**
+ * Unsigned token - checkUAEPassStepUp only reads the claims
+ */
+const idToken = (claims: Record<string, unknown>) => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+};
+
+const stepUpError = (run: () => unknown): UAEPassError => {
+  try {
+    run();
+  } catch (error) {
+    return error as UAEPassError;
+  }
+  throw new Error('Expected checkUAEPassStepUp to throw');
+};
+
+describe('meetsUAEPassAcr', () => {
+  it.each([
+    [LOW, LOW],
+    [MOBILE_ON_DEVICE, LOW],
+    [LOW, MOBILE_ON_DEVICE],
+    [MEDIUM, LOW],
+    [MEDIUM, MOBILE_ON_DEVICE],
+    [HIGH, MEDIUM],
+    [HIGH, HIGH],
+  ])('accepts %s for %s', (achieved, required) => {
+    expect(meetsUAEPassAcr(achieved, required)).toBe(true);
+  });
+
+  it.each([
+    [LOW, MEDIUM],
+    [MOBILE_ON_DEVICE, MEDIUM],
+    [MOBILE_ON_DEVICE, HIGH],
+    [MEDIUM, HIGH],
+  ])('rejects %s for %s', (achieved, required) => {
+    expect(meetsUAEPassAcr(achieved, required)).toBe(false);
+  });
+
+  it('ranks LOW and MOBILE_ON_DEVICE equally on purpose, so requiring one accepts the other', () => {
+    expect(UAE_PASS_ACR_LEVELS[LOW]).toBe(UAE_PASS_ACR_LEVELS[MOBILE_ON_DEVICE]);
+    expect(meetsUAEPassAcr(LOW, MOBILE_ON_DEVICE)).toBe(true);
+    expect(meetsUAEPassAcr(MOBILE_ON_DEVICE, LOW)).toBe(true);
+  });
+
+  it('only matches unknown values exactly', () => {
+    expect(meetsUAEPassAcr('urn:example:acr', 'urn:example:acr')).toBe(true);
+    expect(meetsUAEPassAcr('urn:example:acr', LOW)).toBe(false);
+    expect(meetsUAEPassAcr(HIGH, 'urn:example:acr')).toBe(false);
+  });
+
+  it('rejects a missing acr', () => {
+    expect(meetsUAEPassAcr(undefined, LOW)).toBe(false);
+  });
+});
+
+describe('createStepUpRequirement', () => {
+  it('defaults prompt to login', () => {
+    expect(createStepUpRequirement({ acr: HIGH, maxAge: 300 }, NOW)).toEqual({
+      acr: HIGH,
+      maxAge: 300,
+      prompt: 'login',
+      requestedAt: NOW,
+    });
+  });
+});
+
+describe('checkUAEPassStepUp', () => {
+  const requirement = createStepUpRequirement({ acr: HIGH }, NOW);
+
+  it('returns the acr and auth_time of a fresh authentication at the required level', () => {
+    expect(checkUAEPassStepUp(idToken({ acr: HIGH, auth_time: NOW_SECONDS }), requirement, { now: NOW })).toEqual({
+      acr: HIGH,
+      authTime: NOW_SECONDS,
+    });
+  });
+
+  it('rejects a lower acr', () => {
+    const error = stepUpError(() =>
+      checkUAEPassStepUp(idToken({ acr: MEDIUM, auth_time: NOW_SECONDS }), requirement, { now: NOW })
+    );
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.STEP_UP_FAILED);
+    expect(error.details).toEqual({ acr: MEDIUM, requiredAcr: HIGH });
+  });
+
+  it('rejects an app-to-app login for a MEDIUM step-up', () => {
+    const medium = createStepUpRequirement({ acr: MEDIUM }, NOW);
+
+    const error = stepUpError(() =>
+      checkUAEPassStepUp(idToken({ acr: MOBILE_ON_DEVICE, auth_time: NOW_SECONDS }), medium, { now: NOW })
+    );
+
+    expect(error.code).toBe(UAE_PASS_ERROR_CODES.STEP_UP_FAILED);
+  });
+
+  it('rejects a token without acr', () => {
+    const error = stepUpError(() =>
+      checkUAEPassStepUp(idToken({ auth_time: NOW_SECONDS }), requirement, { now: NOW })
+    );
+
+    expect(error.message).toBe(`Authentication level "none" does not meet "${HIGH}"`);
+  });
+
+  it('rejects a token it cannot decode', () => {
+    expect(stepUpError(() => checkUAEPassStepUp('not-a-jwt', requirement)).code).toBe(
+      UAE_PASS_ERROR_CODES.STEP_UP_FAILED
+    );
+  });
+
+  it('requires auth_time for prompt login', () => {
+    const error = stepUpError(() => checkUAEPassStepUp(idToken({ acr: HIGH }), requirement, { now: NOW }));
+
+    expect(error.message).toBe('ID token has no auth_time claim');
+  });
+
+  it('does not need auth_time without prompt login or maxAge', () => {
+    const relaxed = { acr: HIGH, requestedAt: NOW };
+
+    expect(checkUAEPassStepUp(idToken({ acr: HIGH }), relaxed, { now: NOW })).toEqual({
+      acr: HIGH,
+      authTime: undefined,
+    });
+  });
+
+  it('rejects an authentication from before the request, beyond the clock skew', () => {
+    const token = idToken({ acr: HIGH, auth_time: NOW_SECONDS - 61 });
+
+    expect(stepUpError(() => checkUAEPassStepUp(token, requirement, { now: NOW })).message).toBe(
+      'UAE Pass did not authenticate the user again'
+    );
+    expect(checkUAEPassStepUp(idToken({ acr: HIGH, auth_time: NOW_SECONDS - 60 }), requirement, { now: NOW }))
+      .toEqual({ acr: HIGH, authTime: NOW_SECONDS - 60 });
+  });
+
+  it('rejects an authentication older than maxAge', () => {
+    const withMaxAge = { acr: HIGH, maxAge: 300, requestedAt: NOW };
+    const token = idToken({ acr: HIGH, auth_time: NOW_SECONDS - 300 });
+
+    expect(checkUAEPassStepUp(token, withMaxAge, { now: NOW + 60 * 1000 })).toEqual({
+      acr: HIGH,
+      authTime: NOW_SECONDS - 300,
+    });
+    expect(stepUpError(() => checkUAEPassStepUp(token, withMaxAge, { now: NOW + 61 * 1000 })).message).toBe(
+      'Authentication is older than 300s'
+    );
+  });
+
+  it('honours a custom clock skew', () => {
+    const token = idToken({ acr: HIGH, auth_time: NOW_SECONDS - 10 });
+
+    expect(stepUpError(() => checkUAEPassStepUp(token, requirement, { now: NOW, clockSkewSeconds: 5 })).code).toBe(
+      UAE_PASS_ERROR_CODES.STEP_UP_FAILED
+    );
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * UAE Pass Step-Up Authentication
+ *
+ * Checks that the ID token of a reauthenticate() flow carries the requested
+ * authentication level (acr) and a fresh enough authentication (auth_time)
+ */
+
+import { UAE_PASS_ACR_VALUES } from '../config/uaePassConfig';
+import { decodeJwt } from '../utils/jwt';
+import { UAEPassError, UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+import type { UAEPassStepUpOptions, UAEPassStepUpRequirement } from '../types';
+
+// Allowed difference between the device clock and UAE Pass
+export const DEFAULT_UAE_PASS_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Relative strength of the known ACR values
+ * UAE Pass documents LOW and MOBILE_ON_DEVICE as the two default login flows (web and
+ * app-to-app); they pick the channel, not an assurance level, so both rank lowest and
+ * neither satisfies a MEDIUM or HIGH step-up
+ * The equal rank is deliberate: requiring either one accepts the other, because which one a
+ * login gets depends only on whether the UAE Pass app is installed
+ */
+export const UAE_PASS_ACR_LEVELS: Record<string, number> = {
+  [UAE_PASS_ACR_VALUES.LOW]: 1,
+  [UAE_PASS_ACR_VALUES.MOBILE_ON_DEVICE]: 1,
+  [UAE_PASS_ACR_VALUES.MEDIUM]: 2,
+  [UAE_PASS_ACR_VALUES.HIGH]: 3,
+};
+
+/**
+ * Whether an achieved acr is at least as strong as the required one
+ * Unknown values only satisfy an identical requirement
+ */
+export const meetsUAEPassAcr = (achieved: string | undefined, required: string): boolean => {
+  if (!achieved) return false;
+  if (achieved === required) return true;
+  const achievedLevel = UAE_PASS_ACR_LEVELS[achieved];
+  const requiredLevel = UAE_PASS_ACR_LEVELS[required];
+  return achievedLevel !== undefined && requiredLevel !== undefined && achievedLevel >= requiredLevel;
+};
+
+/**
+ * Record a step-up request (defaults prompt to 'login')
+ */
+export const createStepUpRequirement = (
+  options: UAEPassStepUpOptions,
+  now: number = Date.now()
+): UAEPassStepUpRequirement => ({
+  acr: options.acr,
+  maxAge: options.maxAge,
+  prompt: options.prompt ?? 'login',
+  requestedAt: now,
+});
+
+const stepUpFailed = (message: string, details?: unknown) =>
+  new UAEPassError(UAE_PASS_ERROR_CODES.STEP_UP_FAILED, message, { details });
+
+/**
+ * Check an ID token against a step-up requirement
+ *
+ * Reads the claims without verifying the signature - verify the token before trusting it
+ * (verifyUAEPassIdToken on the device, or on your backend)
+ *
+ * @returns The acr and auth_time (seconds) of the token
+ * @throws UAEPassError (STEP_UP_FAILED) when the token is unreadable, the acr is too weak,
+ *   or auth_time is missing, older than the request (prompt 'login') or older than maxAge
+ */
+export const checkUAEPassStepUp = (
+  idToken: string,
+  requirement: UAEPassStepUpRequirement,
+  options?: { now?: number; clockSkewSeconds?: number }
+): { acr: string; authTime?: number } => {
+  let claims: Record<string, unknown>;
+  try {
+    claims = decodeJwt(idToken).payload;
+  } catch (error) {
+    throw stepUpFailed('ID token could not be decoded', error);
+  }
+
+  const acr = typeof claims.acr === 'string' ? claims.acr : undefined;
+  if (!meetsUAEPassAcr(acr, requirement.acr)) {
+    throw stepUpFailed(`Authentication level "${acr ?? 'none'}" does not meet "${requirement.acr}"`, {
+      acr,
+      requiredAcr: requirement.acr,
+    });
+  }
+
+  const authTime = typeof claims.auth_time === 'number' ? claims.auth_time : undefined;
+  const needsAuthTime = requirement.prompt === 'login' || requirement.maxAge !== undefined;
+  if (!needsAuthTime) {
+    return { acr: acr as string, authTime };
+  }
+  if (authTime === undefined) {
+    throw stepUpFailed('ID token has no auth_time claim');
+  }
+
+  const skew = options?.clockSkewSeconds ?? DEFAULT_UAE_PASS_CLOCK_SKEW_SECONDS;
+  const nowSeconds = Math.floor((options?.now ?? Date.now()) / 1000);
+  if (requirement.prompt === 'login' && authTime + skew < Math.floor(requirement.requestedAt / 1000)) {
+    throw stepUpFailed('UAE Pass did not authenticate the user again', { authTime });
+  }
+  if (requirement.maxAge !== undefined && nowSeconds - authTime > requirement.maxAge + skew) {
+    throw stepUpFailed(`Authentication is older than ${requirement.maxAge}s`, { authTime });
+  }
+
+  return { acr: acr as string, authTime };
+};
+
+export default {
+  checkUAEPassStepUp,
+  meetsUAEPassAcr,
+  createStepUpRequirement,
+};
@@ -0,0 +1,80 @@
+/**
+ * UAE Pass Native Module Accessor
+ *
+ * Typed access to UAEPassModule (see specs/NativeUAEPassModule.ts) with a clear
+ * diagnosis when it is missing or was generated by an older plugin version
+ */
+
+import { Platform } from 'react-native';
+import NativeUAEPassModule, { type Spec } from '../specs/NativeUAEPassModule';
+import { UAEPassError, UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+
+export type UAEPassNativeModuleMethod = Exclude<keyof Spec, 'getConstants'>;
+
+const UAE_PASS_NATIVE_METHODS: readonly UAEPassNativeModuleMethod[] = [
+  'isUAEPassInstalled',
+  'launchUAEPassApp',
+  'openUAEPassWithIntent',
+  'clearCookies',
+];
+
+/**
+ * UAEPassModule, or null when it is not linked
+ */
+export const getUAEPassNativeModule = (): Spec | null => NativeUAEPassModule;
+
+/**
+ * Explain why UAEPassModule (or some of its methods) cannot be used
+ *
+ * @param methods - Methods the caller needs (defaults to all of them)
+ * @returns null when the module and every requested method are available
+ */
+export const diagnoseUAEPassNativeModule = (
+  methods: readonly UAEPassNativeModuleMethod[] = UAE_PASS_NATIVE_METHODS
+): string | null => {
+  if (Platform.OS !== 'android') {
+    return `UAEPassModule is Android-only (current platform: ${Platform.OS}).`;
+  }
+
+  const nativeModule = getUAEPassNativeModule();
+  if (!nativeModule) {
+    return (
+      'UAEPassModule is not linked. Add "expo-uae-pass/expo-plugin" to your app config plugins, ' +
+      'run npx expo prebuild --clean and rebuild the app (it is not available in Expo Go). ' +
+      'Run npx expo-uae-pass doctor to check the setup.'
+    );
+  }
+
+  const missing = methods.filter((method) => typeof nativeModule[method] !== 'function');
+  if (missing.length > 0) {
+    return (
+      `UAEPassModule is missing ${missing.join(', ')} - it was generated by an older plugin version. ` +
+      'Run npx expo prebuild --clean and rebuild the app.'
+    );
+  }
+
+  return null;
+};
+
+/**
+ * UAEPassModule with the requested methods available
+ *
+ * @throws UAEPassError (NATIVE_MODULE_MISSING) with the diagnosis as message
+ */
+export const requireUAEPassNativeModule = (
+  ...methods: UAEPassNativeModuleMethod[]
+): Spec => {
+  const diagnosis = diagnoseUAEPassNativeModule(methods.length > 0 ? methods : UAE_PASS_NATIVE_METHODS);
+  if (diagnosis) {
+    throw new UAEPassError(UAE_PASS_ERROR_CODES.NATIVE_MODULE_MISSING, diagnosis, {
+      details: { platform: Platform.OS, methods },
+    });
+  }
+  return getUAEPassNativeModule() as Spec;
+};
+
+export default {
+  getUAEPassNativeModule,
+  diagnoseUAEPassNativeModule,
+  requireUAEPassNativeModule,
+};
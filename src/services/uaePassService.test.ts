@@ -0,0 +1,319 @@
+import { Platform } from 'react-native';
+import * as WebBrowser from 'expo-web-browser';
+import { configureUAEPass } from '../config/uaePassConfig';
+import { UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+import {
+  authenticateWithUAEPass,
+  logoutFromUAEPass,
+  prepareUAEPassAuth,
+  resumePendingUAEPassAuth,
+} from './uaePassService';
+import { loadPendingSession } from './pendingSessionStore';
+import { startMockUAEPassIdP, mockUAEPass, type MockUAEPassIdP } from '../testing';
+import { uaePassNativeModuleMock } from '../testing/mockEnvironment';
+import { addUAEPassEventListener, type UAEPassEvent } from '../telemetry/uaePassEvents';
+
+let idp: MockUAEPassIdP;
+
+beforeAll(async () => {
+  idp = await startMockUAEPassIdP();
+});
+
+beforeEach(() => {
+  configureUAEPass(idp.config({ logger: 'silent' }));
+  mockUAEPass.useIdentityProvider(idp);
+});
+
+afterEach(() => {
+  mockUAEPass.reset();
+  idp.reset();
+  jest.restoreAllMocks();
+});
+
+afterAll(() => idp.stop());
+
+describe('authenticateWithUAEPass - Android native intent', () => {
+  beforeEach(() => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+    mockUAEPass.setAppInstalled(true);
+  });
+
+  it('receives the code through the app callback', async () => {
+    const result = await authenticateWithUAEPass();
+
+    expect(result.success).toBe(true);
+    expect(result.authorizationCode).toBeTruthy();
+    expect(result.codeVerifier).toBeTruthy();
+    expect(mockUAEPass.openedUrls[0].startsWith('uaepass://idshub/authorize?spUrl=')).toBe(true);
+    expect(idp.requests.some((request) => request.endpoint === 'authorize')).toBe(true);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('reports a denial in the app as cancelled', async () => {
+    mockUAEPass.setUserAction('deny');
+
+    const result = await authenticateWithUAEPass();
+
+    expect(result.errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('times out when the app never calls back', async () => {
+    mockUAEPass.setUserAction('ignore');
+
+    const result = await authenticateWithUAEPass({ timeoutMs: 50 });
+
+    expect(result.errorCode).toBe(UAE_PASS_ERROR_CODES.TIMEOUT);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    mockUAEPass.setUserAction('ignore');
+    const controller = new AbortController();
+
+    const pending = authenticateWithUAEPass({ signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(mockUAEPass.listenerCount).toBe(1);
+    controller.abort();
+
+    expect((await pending).errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('rejects a callback with a foreign state', async () => {
+    mockUAEPass.setUserAction('ignore');
+
+    const pending = authenticateWithUAEPass();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    mockUAEPass.deliverCallback('uaepasstest://auth/uaepass?code=stolen&state=other');
+
+    expect((await pending).errorCode).toBe(UAE_PASS_ERROR_CODES.STATE_MISMATCH);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+});
+
+describe('authenticateWithUAEPass - browser', () => {
+  it('uses the browser when the app is not installed', async () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+
+    const result = await authenticateWithUAEPass();
+
+    expect(result.success).toBe(true);
+    expect(mockUAEPass.openedUrls).toHaveLength(1);
+    expect(mockUAEPass.openedUrls[0].startsWith(idp.authorizationEndpoint)).toBe(true);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('uses the browser on iOS even with the app installed', async () => {
+    mockUAEPass.setAppInstalled(true);
+    const openAuthSession = jest.spyOn(WebBrowser, 'openAuthSessionAsync');
+
+    const result = await authenticateWithUAEPass();
+
+    expect(result.success).toBe(true);
+    expect(mockUAEPass.openedUrls[0].startsWith(idp.authorizationEndpoint)).toBe(true);
+    expect(openAuthSession.mock.calls[0][2]).toEqual({ preferEphemeralSession: true });
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+});
+
+describe('prepareUAEPassAuth - locale', () => {
+  const uiLocalesOf = (authUrl: string) => new URL(authUrl).searchParams.get('ui_locales');
+
+  it('defaults ui_locales to English', async () => {
+    expect(uiLocalesOf((await prepareUAEPassAuth()).authUrl)).toBe('en');
+  });
+
+  it('sends the configured locale as ui_locales', async () => {
+    configureUAEPass(idp.config({ logger: 'silent', locale: 'ar' }));
+
+    expect(uiLocalesOf((await prepareUAEPassAuth()).authUrl)).toBe('ar');
+  });
+
+  it('lets the flow locale override the configured one', async () => {
+    configureUAEPass(idp.config({ logger: 'silent', locale: 'en' }));
+
+    expect(uiLocalesOf((await prepareUAEPassAuth({ locale: 'ar' })).authUrl)).toBe('ar');
+  });
+});
+
+describe('resumePendingUAEPassAuth', () => {
+  const resumeLink = (pageUrl: string) =>
+    `uaepasstest://auth/uaepass/resume?url=${encodeURIComponent(pageUrl)}`;
+
+  it('returns the page to reload for a WebView resume link and keeps the session', async () => {
+    mockUAEPass.setAppInstalled(true);
+    const params = await prepareUAEPassAuth();
+
+    const result = await resumePendingUAEPassAuth(resumeLink(params.authUrl));
+
+    expect(result?.success).toBe(true);
+    expect(result?.authorizationCode).toBeUndefined();
+    expect(result?.details).toEqual({
+      useWebView: true,
+      authUrl: params.authUrl,
+      redirectUri: params.redirectUri,
+      expectedState: params.state,
+    });
+    expect(await loadPendingSession()).not.toBeNull();
+
+    const completed = await resumePendingUAEPassAuth(idp.authorize(params.authUrl));
+    expect(completed?.success).toBe(true);
+    expect(completed?.codeVerifier).toBe(params.codeVerifier);
+    expect(await loadPendingSession()).toBeNull();
+  });
+
+  it('handles resume_authn links', async () => {
+    mockUAEPass.setAppInstalled(true);
+    await prepareUAEPassAuth();
+    const pageUrl = `${idp.url}/trustedx-authserver/resume_authn?session=abc`;
+
+    const result = await resumePendingUAEPassAuth(pageUrl);
+
+    expect(result?.details?.authUrl).toBe(pageUrl);
+    expect(await loadPendingSession()).not.toBeNull();
+  });
+
+  it('ignores a resume link for a browser session', async () => {
+    const params = await prepareUAEPassAuth();
+
+    expect(await resumePendingUAEPassAuth(resumeLink(params.authUrl))).toBeNull();
+    expect(await loadPendingSession()).not.toBeNull();
+  });
+
+  it('recognises the resume link under a configured resumePath', async () => {
+    configureUAEPass(idp.config({ logger: 'silent', resumePath: 'uaepass-resume' }));
+    mockUAEPass.setAppInstalled(true);
+    const params = await prepareUAEPassAuth();
+
+    const result = await resumePendingUAEPassAuth(
+      `uaepasstest://uaepass-resume?url=${encodeURIComponent(params.authUrl)}`
+    );
+    expect(result?.details?.authUrl).toBe(params.authUrl);
+  });
+
+  it('rejects a callback with a foreign state and clears the session', async () => {
+    await prepareUAEPassAuth();
+
+    const result = await resumePendingUAEPassAuth('uaepasstest://auth/uaepass?code=stolen&state=other');
+
+    expect(result?.errorCode).toBe(UAE_PASS_ERROR_CODES.STATE_MISMATCH);
+    expect(await loadPendingSession()).toBeNull();
+  });
+});
+
+describe('flowCompleted', () => {
+  let completed: Extract<UAEPassEvent, { type: 'flowCompleted' }>[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    completed = [];
+    unsubscribe = addUAEPassEventListener((event) => {
+      if (event.type === 'flowCompleted') {
+        completed.push(event);
+      }
+    });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  it('is reported once for an app login', async () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+    mockUAEPass.setAppInstalled(true);
+
+    await authenticateWithUAEPass();
+
+    expect(completed).toEqual([expect.objectContaining({ success: true, errorCode: undefined })]);
+  });
+
+  it('is reported once for a browser login', async () => {
+    await authenticateWithUAEPass();
+
+    expect(completed).toEqual([expect.objectContaining({ success: true, errorCode: undefined })]);
+  });
+
+  it('is reported once for a login resumed from the callback', async () => {
+    const params = await prepareUAEPassAuth();
+
+    await resumePendingUAEPassAuth(idp.authorize(params.authUrl));
+
+    expect(completed).toEqual([expect.objectContaining({ success: true, errorCode: undefined })]);
+  });
+
+  it('is left to whoever shows the WebView for a resume link', async () => {
+    mockUAEPass.setAppInstalled(true);
+    const params = await prepareUAEPassAuth();
+
+    await resumePendingUAEPassAuth(
+      `uaepasstest://auth/uaepass/resume?url=${encodeURIComponent(params.authUrl)}`
+    );
+
+    expect(completed).toEqual([]);
+  });
+});
+
+describe('logoutFromUAEPass', () => {
+  const logoutUrl = () =>
+    `${idp.logoutEndpoint}?redirect_uri=${encodeURIComponent('uaepasstest://auth/uaepass')}`;
+
+  it.each(['android', 'ios'] as const)('ends the session and clears local state on %s', async (os) => {
+    jest.replaceProperty(Platform, 'OS', os);
+    const clearCookies = jest.spyOn(uaePassNativeModuleMock, 'clearCookies');
+    const openAuthSession = jest.spyOn(WebBrowser, 'openAuthSessionAsync');
+    await prepareUAEPassAuth();
+
+    const result = await logoutFromUAEPass();
+
+    expect(result).toEqual({
+      success: true,
+      cookiesCleared: true,
+      error: undefined,
+      errorCode: undefined,
+      details: undefined,
+    });
+    expect(mockUAEPass.openedUrls).toEqual([logoutUrl()]);
+    expect(openAuthSession).toHaveBeenCalledWith(logoutUrl(), 'uaepasstest://auth/uaepass', {
+      preferEphemeralSession: true,
+    });
+    expect(clearCookies).toHaveBeenCalledTimes(os === 'android' ? 1 : 0);
+    expect(await loadPendingSession()).toBeNull();
+  });
+
+  it('uses a custom clearCookies instead of the built-in one', async () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+    const nativeClearCookies = jest.spyOn(uaePassNativeModuleMock, 'clearCookies');
+    const clearCookies = jest.fn().mockResolvedValue(undefined);
+
+    const result = await logoutFromUAEPass({ clearCookies });
+
+    expect(result.cookiesCleared).toBe(true);
+    expect(clearCookies).toHaveBeenCalledTimes(1);
+    expect(nativeClearCookies).not.toHaveBeenCalled();
+  });
+
+  it('reports cookies that could not be cleared', async () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+    jest.spyOn(uaePassNativeModuleMock, 'clearCookies').mockRejectedValue(new Error('CookieManager unavailable'));
+
+    const result = await logoutFromUAEPass();
+
+    expect(result).toMatchObject({ success: true, cookiesCleared: false });
+  });
+
+  it('tears down locally when the logout endpoint cannot be opened', async () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+    jest.spyOn(WebBrowser, 'openAuthSessionAsync').mockRejectedValue(new Error('No browser available'));
+    await prepareUAEPassAuth();
+
+    const result = await logoutFromUAEPass();
+
+    expect(result).toMatchObject({
+      success: false,
+      cookiesCleared: true,
+      errorCode: UAE_PASS_ERROR_CODES.NETWORK,
+    });
+    expect(await loadPendingSession()).toBeNull();
+  });
+});
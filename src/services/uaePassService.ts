@@ -7,40 +7,53 @@
 
 import * as Linking from 'expo-linking';
 import * as WebBrowser from 'expo-web-browser';
-import { Platform, NativeModules } from 'react-native';
+import { Platform } from 'react-native';
 import {
   getUAEPassConfig,
   getUAEPassAppSchemes,
-  getUAEPassEnvironment,
+  getUAEPassResumeCallbackUrl,
+  getUAEPassUrlScheme,
   UAE_PASS_ACR_VALUES,
 } from '../config/uaePassConfig';
+import {
+  generateState,
+  generateNonce,
+  generateCodeVerifier,
+  deriveCodeChallenge,
+} from '../utils/pkce';
+import {
+  savePendingSession,
+  loadPendingSession,
+  clearPendingSession,
+  forgetCompletedPendingSession,
+  isPendingSessionExpired,
+} from './pendingSessionStore';
+import {
+  getUAEPassNativeModule,
+  diagnoseUAEPassNativeModule,
+  requireUAEPassNativeModule,
+} from './uaePassNativeModule';
+import { createStepUpRequirement } from './stepUpService';
+import { uaePassLogger } from '../utils/logger';
+import { emitUAEPassEvent, type UAEPassStrategy } from '../telemetry/uaePassEvents';
+import {
+  UAEPassError,
+  UAE_PASS_ERROR_CODES,
+  fromOAuthError,
+  toFailureResult,
+  toUAEPassError,
+} from '../errors/uaePassError';
 import type {
   UAEPassAuthResult,
   UAEPassWebViewAuthParams,
+  UAEPassFlowOptions,
+  UAEPassLocale,
+  UAEPassLogoutOptions,
+  UAEPassLogoutResult,
+  UAEPassStepUpOptions,
+  UAEPassStepUpRequirement,
 } from '../types';
 
-// ==================== Security Helper Functions ====================
-
-/**
- * Generate random state for CSRF protection
- */
-const generateState = (): string => {
-  return Math.random().toString(36).substring(2, 15) + 
-         Math.random().toString(36).substring(2, 15);
-};
-
-/**
- * Generate code verifier for PKCE (optional but recommended)
- */
-const generateCodeVerifier = (): string => {
-  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvyz0123456789-._~';
-  let verifier = '';
-  for (let i = 0; i < 128; i++) {
-    verifier += possible.charAt(Math.floor(Math.random() * possible.length));
-  }
-  return verifier;
-};
-
 // ==================== App Detection ====================
 
 /**
@@ -52,26 +65,25 @@ export const isUAEPassAppInstalled = async (): Promise<boolean> => {
   try {
     if (Platform.OS === 'android') {
       // Android: Use native module to check via PackageManager
-      const { UAEPassModule } = NativeModules;
-      
-      if (!UAEPassModule) {
-        console.warn('UAEPassModule is not available. Make sure you have added the expo plugin.');
+      const diagnosis = diagnoseUAEPassNativeModule(['isUAEPassInstalled']);
+      if (diagnosis) {
+        uaePassLogger.warn(diagnosis);
         return false;
       }
       
       const appSchemes = getUAEPassAppSchemes();
-      const isInstalled = await UAEPassModule.isUAEPassInstalled(appSchemes.android);
-      console.log(`Android: UAE Pass app installed: ${isInstalled}`, appSchemes.android);
+      const isInstalled = await requireUAEPassNativeModule('isUAEPassInstalled').isUAEPassInstalled(appSchemes.android);
+      uaePassLogger.debug(`Android: UAE Pass app installed: ${isInstalled}`, appSchemes.android);
       return isInstalled;
     } else {
       // iOS: Use URL scheme
       const appSchemes = getUAEPassAppSchemes();
       const canOpen = await Linking.canOpenURL(appSchemes.ios);
-      console.log(`iOS: UAE Pass app installed: ${canOpen}`);
+      uaePassLogger.debug(`iOS: UAE Pass app installed: ${canOpen}`);
       return canOpen;
     }
   } catch (error) {
-    console.error('Error checking UAE Pass app installation:', error);
+    uaePassLogger.error('Error checking UAE Pass app installation:', error);
     return false;
   }
 };
@@ -87,10 +99,14 @@ const buildAuthorizationURL = (params: {
   scopes: readonly string[];
   acrValue: string;
   state: string;
-  codeVerifier?: string;
+  nonce: string;
+  codeChallenge: string;
+  locale?: UAEPassLocale;
+  stepUp?: UAEPassStepUpRequirement;
 }): string => {
   const config = getUAEPassConfig();
-  const { clientId, redirectUri, scopes, acrValue, state } = params;
+  const { clientId, redirectUri, scopes, acrValue, state, nonce, codeChallenge, stepUp } = params;
+  const locale = params.locale || config.locale || 'en';
   
   const queryParams = new URLSearchParams({
     response_type: 'code',
@@ -98,13 +114,34 @@ const buildAuthorizationURL = (params: {
     redirect_uri: redirectUri,
     scope: scopes.join(' '),
     state: state,
+    nonce: nonce,
     acr_values: acrValue,
-    ui_locales: 'en', // or 'ar' for Arabic
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    ui_locales: locale,
   });
+  if (stepUp?.prompt) {
+    queryParams.set('prompt', stepUp.prompt);
+  }
+  if (stepUp?.maxAge !== undefined) {
+    queryParams.set('max_age', String(stepUp.maxAge));
+  }
   
   return `${config.authorizationEndpoint}?${queryParams.toString()}`;
 };
 
+/**
+ * ACR value for a request: the step-up level if one was asked for, otherwise based on app availability
+ */
+const selectAcrValue = (appInstalled: boolean, stepUp?: UAEPassStepUpRequirement): string => {
+  if (stepUp) {
+    return stepUp.acr;
+  }
+  return appInstalled
+    ? UAE_PASS_ACR_VALUES.MOBILE_ON_DEVICE
+    : UAE_PASS_ACR_VALUES.LOW;
+};
+
 // ==================== Callback Parser ====================
 
 /**
@@ -124,31 +161,28 @@ const parseCallbackURL = (url: string, expectedState: string): UAEPassAuthResult
     
     // Check for errors
     if (error) {
-      console.error('OAuth error:', error, errorDescription);
-      return {
-        success: false,
-        error: errorDescription || error,
-      };
+      uaePassLogger.error('OAuth error:', error, errorDescription);
+      return toFailureResult(fromOAuthError(error, errorDescription));
     }
     
     // Validate state (CSRF protection)
     if (state !== expectedState) {
-      console.error('State mismatch! Possible CSRF attack');
-      return {
-        success: false,
-        error: 'Invalid state parameter',
-      };
+      uaePassLogger.error('State mismatch! Possible CSRF attack');
+      emitUAEPassEvent({ type: 'stateValidated', valid: false });
+      return toFailureResult(
+        new UAEPassError(UAE_PASS_ERROR_CODES.STATE_MISMATCH, 'Invalid state parameter')
+      );
     }
+    emitUAEPassEvent({ type: 'stateValidated', valid: true });
     
     // Check if we have authorization code
     if (!code) {
-      return {
-        success: false,
-        error: 'No authorization code received',
-      };
+      return toFailureResult(
+        new UAEPassError(UAE_PASS_ERROR_CODES.NO_AUTHORIZATION_CODE, 'No authorization code received')
+      );
     }
     
-    console.log('✅ Authorization code received successfully');
+    uaePassLogger.info('✅ Authorization code received successfully');
     
     return {
       success: true,
@@ -157,12 +191,12 @@ const parseCallbackURL = (url: string, expectedState: string): UAEPassAuthResult
     };
     
   } catch (error) {
-    console.error('Error parsing callback URL:', error);
-    return {
-      success: false,
-      error: 'Failed to parse callback URL',
-      details: error,
-    };
+    uaePassLogger.error('Error parsing callback URL:', error);
+    return toFailureResult(
+      new UAEPassError(UAE_PASS_ERROR_CODES.INVALID_CALLBACK, 'Failed to parse callback URL', {
+        details: error,
+      })
+    );
   }
 };
 
@@ -178,24 +212,38 @@ const parseCallbackURL = (url: string, expectedState: string): UAEPassAuthResult
  * When UAE Pass app is NOT installed:
  * - Returns useWebView: false  
  * - Uses browser-based flow
+ * 
+ * @param options - Optional AbortSignal, locale and step-up requirement (see reauthenticateWithUAEPass)
+ * @throws UAEPassError (CANCELLED) if the signal is aborted
  */
-export const prepareUAEPassAuth = async (): Promise<UAEPassWebViewAuthParams> => {
+export const prepareUAEPassAuth = async (
+  options?: Pick<UAEPassFlowOptions, 'signal' | 'locale'> & { stepUp?: UAEPassStepUpOptions }
+): Promise<UAEPassWebViewAuthParams> => {
   const config = getUAEPassConfig();
+  const stepUp = options?.stepUp && createStepUpRequirement(options.stepUp);
+  emitUAEPassEvent({ type: 'flowStarted', entry: 'prepare' });
   
   // Check if UAE Pass app is installed
   const appInstalled = await isUAEPassAppInstalled();
-  console.log(`UAE Pass app installed: ${appInstalled}`);
+  uaePassLogger.debug(`UAE Pass app installed: ${appInstalled}`);
+  emitUAEPassEvent({ type: 'appDetection', installed: appInstalled });
   
-  // Determine ACR value based on app availability
-  const acrValue = appInstalled 
-    ? UAE_PASS_ACR_VALUES.MOBILE_ON_DEVICE 
-    : UAE_PASS_ACR_VALUES.LOW;
+  if (options?.signal?.aborted) {
+    emitUAEPassEvent({ type: 'cancelled', reason: 'aborted' });
+    throw new UAEPassError(UAE_PASS_ERROR_CODES.CANCELLED, 'Authentication aborted');
+  }
   
-  console.log(`Using ACR value: ${acrValue}`);
+  // Determine ACR value based on app availability (or the step-up level)
+  const acrValue = selectAcrValue(appInstalled, stepUp);
+  
+  uaePassLogger.debug(`Using ACR value: ${acrValue}`);
+  emitUAEPassEvent({ type: 'acrSelected', acrValue });
   
   // Generate security parameters
-  const state = generateState();
-  const codeVerifier = generateCodeVerifier();
+  const state = generateState(config.randomSource);
+  const nonce = generateNonce(config.randomSource);
+  const codeVerifier = generateCodeVerifier(config.randomSource);
+  const codeChallenge = await deriveCodeChallenge(codeVerifier);
   
   // Build authorization URL
   const authUrl = buildAuthorizationURL({
@@ -204,82 +252,341 @@ export const prepareUAEPassAuth = async (): Promise<UAEPassWebViewAuthParams> =>
     scopes: config.scopes || [],
     acrValue,
     state,
+    nonce,
+    codeChallenge,
+    locale: options?.locale,
+    stepUp,
   });
   
-  console.log('📋 Authorization URL:', authUrl);
-  console.log('📋 Redirect URI:', config.redirectUri);
-  console.log('📋 Use WebView:', appInstalled);
+  uaePassLogger.debug('📋 Authorization URL:', authUrl);
+  uaePassLogger.debug('📋 Redirect URI:', config.redirectUri);
+  uaePassLogger.debug('📋 Use WebView:', appInstalled);
+  
+  // Persist the request so the callback can be validated after process death
+  await savePendingSession({
+    state,
+    nonce,
+    codeVerifier,
+    acrValue,
+    redirectUri: config.redirectUri,
+    flow: appInstalled ? 'webview' : 'browser',
+    createdAt: Date.now(),
+    stepUp,
+  });
   
   return {
     authUrl,
     redirectUri: config.redirectUri,
     state,
+    nonce,
     codeVerifier,
     acrValue,
     useWebView: appInstalled,
+    stepUp,
   };
 };
 
-// ==================== Browser Authentication ====================
+// ==================== Callback Waiting ====================
+
+// Default time to wait for the UAE Pass callback: 5 minutes
+export const DEFAULT_UAE_PASS_TIMEOUT_MS = 5 * 60 * 1000;
 
 /**
- * Browser-based authentication flow
- * Used when UAE Pass app is NOT installed
+ * Resolve the timeout for a flow: per-call override > config > default
  */
-export const authenticateWithUAEPassBrowser = async (
-  authUrl: string,
-  state: string,
-  codeVerifier: string
-): Promise<UAEPassAuthResult> => {
-  console.log('Opening authentication in browser...');
-  const config = getUAEPassConfig();
+export const resolveTimeoutMs = (override?: number): number => {
+  return override ?? getUAEPassConfig().timeoutMs ?? DEFAULT_UAE_PASS_TIMEOUT_MS;
+};
 
-  // Keep subscription ref so we can remove it when user dismisses browser without completing auth
-  const subscriptionRef: { current: { remove: () => void } | null } = { current: null };
+/**
+ * Result used when a flow is aborted through its AbortSignal
+ */
+const abortedResult = (): UAEPassAuthResult =>
+  toFailureResult(
+    new UAEPassError(UAE_PASS_ERROR_CODES.CANCELLED, 'Authentication aborted')
+  );
 
-  // Set up deep link listener BEFORE opening URL
-  const authCodePromise = new Promise<UAEPassAuthResult>((resolve) => {
-    subscriptionRef.current = Linking.addEventListener('url', (event: Linking.EventType) => {
-      console.log('Deep link received:', event.url);
+/**
+ * Wait for a redirect deep link
+ * 
+ * Resolves exactly once - with onRedirect(url), onTimeout() or, when the signal aborts,
+ * onAbort() - and always removes the Linking listener, timer and abort listener.
+ * `cancel()` stops waiting without resolving (used when another path produced the result).
+ * Shared by the login and signing flows.
+ */
+export const waitForRedirect = <T>(params: {
+  timeoutMs: number;
+  signal?: AbortSignal;
+  isCallback?: (url: string) => boolean;
+  onRedirect: (url: string) => T;
+  onTimeout: () => T;
+  onAbort: () => T;
+}): { promise: Promise<T>; cancel: () => void } => {
+  const { timeoutMs, signal, isCallback } = params;
+  let subscription: { remove: () => void } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let settled = false;
+  let resolvePromise: (result: T) => void = () => {};
+
+  const cleanup = () => {
+    subscription?.remove();
+    subscription = null;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    signal?.removeEventListener('abort', onAbort);
+  };
+
+  const settle = (produce: (() => T) | null) => {
+    if (settled) return;
+    settled = true;
+    cleanup();
+    if (produce) {
+      resolvePromise(produce());
+    }
+  };
+
+  function onAbort() {
+    settle(params.onAbort);
+  }
+
+  const promise = new Promise<T>((resolve) => {
+    resolvePromise = resolve;
+  });
 
-      // Parse the callback URL
-      const result = parseCallbackURL(event.url, state);
+  subscription = Linking.addEventListener('url', (event: Linking.EventType) => {
+    uaePassLogger.debug('Deep link received:', event.url);
 
-      // Add code verifier to result for PKCE
+    // Ignore unrelated deep links
+    if (settled || (isCallback && !isCallback(event.url))) {
+      return;
+    }
+    settle(() => params.onRedirect(event.url));
+  });
+
+  timer = setTimeout(() => settle(params.onTimeout), timeoutMs);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort);
+  }
+
+  return { promise, cancel: () => settle(null) };
+};
+
+/**
+ * Wait for the authorization redirect
+ * 
+ * Resolves with the parsed callback, a TIMEOUT, or CANCELLED when the signal aborts
+ */
+const waitForCallback = (params: {
+  state: string;
+  codeVerifier: string;
+  timeoutMs: number;
+  timeoutMessage: string;
+  signal?: AbortSignal;
+  isCallback?: (url: string) => boolean;
+  /** Reported with the callbackReceived event */
+  strategy?: UAEPassStrategy;
+}): { promise: Promise<UAEPassAuthResult>; cancel: () => void } => {
+  const { state, codeVerifier, timeoutMessage, strategy } = params;
+
+  return waitForRedirect<UAEPassAuthResult>({
+    timeoutMs: params.timeoutMs,
+    signal: params.signal,
+    isCallback: params.isCallback,
+    onRedirect: (url) => {
+      emitUAEPassEvent({ type: 'callbackReceived', strategy });
+      // Parse the callback URL and add code verifier for PKCE
+      const result = parseCallbackURL(url, state);
       if (result.success) {
         result.codeVerifier = codeVerifier;
       }
+      return result;
+    },
+    onTimeout: () => {
+      emitUAEPassEvent({ type: 'timeout' });
+      return toFailureResult(new UAEPassError(UAE_PASS_ERROR_CODES.TIMEOUT, timeoutMessage));
+    },
+    onAbort: () => {
+      uaePassLogger.debug('🛑 UAE Pass authentication aborted');
+      emitUAEPassEvent({ type: 'cancelled', reason: 'aborted' });
+      return abortedResult();
+    },
+  });
+};
+
+// ==================== WebView Host ====================
+
+/**
+ * An app-to-app request for a mounted UAEPassAuthHost to show in UAEPassWebViewAuth
+ */
+export interface UAEPassWebViewRequest {
+  authUrl: string;
+  redirectUri: string;
+  expectedState: string;
+  codeVerifier: string;
+  locale?: UAEPassLocale;
+}
+
+/**
+ * Shows the WebView for a request and calls `complete` with its outcome
+ * @returns Function that hides the WebView
+ */
+export type UAEPassWebViewPresenter = (
+  request: UAEPassWebViewRequest,
+  complete: (result: UAEPassAuthResult) => void
+) => () => void;
+
+// Mounted hosts; the most recently mounted one presents
+const webViewHosts: UAEPassWebViewPresenter[] = [];
+
+/**
+ * Register a WebView host (called by UAEPassAuthHost on mount)
+ * @returns Unregister function
+ */
+export const registerUAEPassWebViewHost = (presenter: UAEPassWebViewPresenter): (() => void) => {
+  webViewHosts.push(presenter);
+  return () => {
+    const index = webViewHosts.lastIndexOf(presenter);
+    if (index !== -1) {
+      webViewHosts.splice(index, 1);
+    }
+  };
+};
+
+/**
+ * Whether a UAEPassAuthHost (or UAEPassProvider) is mounted
+ */
+export const hasUAEPassWebViewHost = (): boolean => webViewHosts.length > 0;
+
+/**
+ * Show the WebView through the mounted host and wait for the final result
+ * 
+ * Resolves exactly once - with the code, the WebView's typed error, a TIMEOUT, or
+ * CANCELLED when the signal aborts - and hides the WebView in every case.
+ * The caller runs the flow and reports flowCompleted for the result.
+ * Resolves NOT_CONFIGURED when no host is mounted.
+ */
+export const presentUAEPassWebView = (
+  request: UAEPassWebViewRequest,
+  options?: Pick<UAEPassFlowOptions, 'signal' | 'timeoutMs'>
+): Promise<UAEPassAuthResult> => {
+  const presenter = webViewHosts[webViewHosts.length - 1];
+  if (!presenter) {
+    return Promise.resolve(toFailureResult(new UAEPassError(
+      UAE_PASS_ERROR_CODES.NOT_CONFIGURED,
+      'No UAEPassAuthHost is mounted. Render <UAEPassProvider> (or <UAEPassAuthHost />) at the app root.'
+    )));
+  }
 
-      // Clean up listener
-      subscriptionRef.current?.remove();
-      subscriptionRef.current = null;
+  const signal = options?.signal;
+  return new Promise<UAEPassAuthResult>((resolve) => {
+    let settled = false;
+    let dismiss: (() => void) | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
 
-      // Resolve with result
+    const finish = (result: UAEPassAuthResult) => {
+      if (settled) return;
+      settled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', onAbort);
+      dismiss?.();
       resolve(result);
-    });
+    };
 
-    // Timeout after 5 minutes
-    setTimeout(() => {
-      subscriptionRef.current?.remove();
-      subscriptionRef.current = null;
-      resolve({
-        success: false,
-        error: 'Authentication timeout',
-      });
-    }, 5 * 60 * 1000);
+    function onAbort() {
+      if (settled) return;
+      emitUAEPassEvent({ type: 'cancelled', reason: 'aborted' });
+      finish(abortedResult());
+    }
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    timer = setTimeout(() => {
+      emitUAEPassEvent({ type: 'timeout' });
+      finish(toFailureResult(
+        new UAEPassError(UAE_PASS_ERROR_CODES.TIMEOUT, 'Authentication timeout')
+      ));
+    }, resolveTimeoutMs(options?.timeoutMs));
+
+    dismiss = presenter(request, finish);
+    // The presenter may have completed synchronously
+    if (settled) {
+      dismiss();
+    }
+  });
+};
+
+// ==================== Browser Authentication ====================
+
+/**
+ * Browser-based authentication flow
+ * Used when UAE Pass app is NOT installed
+ * 
+ * @param options - Optional timeout override and AbortSignal
+ */
+export const authenticateWithUAEPassBrowser = async (
+  authUrl: string,
+  state: string,
+  codeVerifier: string,
+  options?: UAEPassFlowOptions
+): Promise<UAEPassAuthResult> => {
+  if (options?.signal?.aborted) {
+    return abortedResult();
+  }
+
+  uaePassLogger.debug('Opening authentication in browser...');
+  emitUAEPassEvent({ type: 'strategyAttempted', strategy: 'browser' });
+  const config = getUAEPassConfig();
+
+  // Set up deep link listener BEFORE opening URL
+  const callback = waitForCallback({
+    state,
+    codeVerifier,
+    timeoutMs: resolveTimeoutMs(options?.timeoutMs),
+    timeoutMessage: 'Authentication timeout',
+    signal: options?.signal,
+    strategy: 'browser',
   });
 
   // Use WebBrowser.openAuthSessionAsync for browser flow
-  const browserResult = await WebBrowser.openAuthSessionAsync(
-    authUrl,
-    config.redirectUri
-  );
+  // Race it against the callback so abort/timeout resolve even while the browser is open
+  const outcome = await Promise.race([
+    // Ephemeral on iOS: the UAE Pass session cookies never reach Safari's shared jar
+    WebBrowser.openAuthSessionAsync(authUrl, config.redirectUri, { preferEphemeralSession: true }).then(
+      (browserResult) => ({ browserResult, result: null })
+    ),
+    callback.promise.then(
+      (result) => ({ browserResult: null, result })
+    ),
+  ]);
 
-  console.log('Browser result type:', browserResult.type);
+  if (outcome.result) {
+    // Deep link, timeout or abort arrived first - close the auth session if it is still open
+    if (!outcome.result.success) {
+      WebBrowser.dismissAuthSession();
+    }
+    uaePassLogger.info('Authentication result:', outcome.result.success ? 'SUCCESS' : 'FAILED');
+    return outcome.result;
+  }
+
+  const { browserResult } = outcome;
+  uaePassLogger.debug('Browser result type:', browserResult.type);
 
   // Handle different browser result types
   if (browserResult.type === 'success' && browserResult.url) {
-    console.log('✅ Got direct URL from browser:', browserResult.url);
+    uaePassLogger.debug('✅ Got direct URL from browser:', browserResult.url);
+    callback.cancel();
+    emitUAEPassEvent({ type: 'callbackReceived', strategy: 'browser' });
     const result = parseCallbackURL(browserResult.url, state);
     if (result.success) {
       result.codeVerifier = codeVerifier;
@@ -288,30 +595,30 @@ export const authenticateWithUAEPassBrowser = async (
   }
 
   if (browserResult.type === 'cancel') {
-    console.log('❌ User cancelled authentication');
-    return {
-      success: false,
-      error: 'User cancelled authentication',
-    };
+    uaePassLogger.info('❌ User cancelled authentication');
+    callback.cancel();
+    emitUAEPassEvent({ type: 'cancelled', reason: 'user' });
+    return toFailureResult(
+      new UAEPassError(UAE_PASS_ERROR_CODES.CANCELLED, 'User cancelled authentication')
+    );
   }
 
   if (browserResult.type === 'dismiss') {
     // User closed the browser without completing auth (e.g. back button, swipe away).
     // No deep link will come — treat as cancel so loading state is cleared immediately.
-    console.log('❌ Browser dismissed - user returned without completing auth');
-    subscriptionRef.current?.remove();
-    subscriptionRef.current = null;
-    return {
-      success: false,
-      error: 'User cancelled authentication',
-    };
+    uaePassLogger.debug('❌ Browser dismissed - user returned without completing auth');
+    callback.cancel();
+    emitUAEPassEvent({ type: 'cancelled', reason: 'dismissed' });
+    return toFailureResult(
+      new UAEPassError(UAE_PASS_ERROR_CODES.CANCELLED, 'User cancelled authentication')
+    );
   }
 
   // Otherwise wait for deep link callback
-  console.log('⏳ Waiting for deep link callback...');
-  const result = await authCodePromise;
+  uaePassLogger.debug('⏳ Waiting for deep link callback...');
+  const result = await callback.promise;
 
-  console.log('Authentication result:', result.success ? 'SUCCESS' : 'FAILED');
+  uaePassLogger.info('Authentication result:', result.success ? 'SUCCESS' : 'FAILED');
 
   return result;
 };
@@ -319,16 +626,15 @@ export const authenticateWithUAEPassBrowser = async (
 // ==================== Direct App Launch (Android) ====================
 
 /**
- * Build UAE Pass app deep link URL for direct app-to-app authentication
+ * Build UAE Pass app deep link URL for direct app-to-app authentication (and signing)
  */
-const buildUAEPassAppDeepLink = (params: {
+export const buildUAEPassAppDeepLink = (params: {
   authUrl: string;
   successUrl: string;
   failureUrl: string;
 }): string => {
   const { authUrl, successUrl, failureUrl } = params;
-  const env = getUAEPassEnvironment();
-  const uaePassScheme = env === 'production' ? 'uaepass' : 'uaepassstg';
+  const uaePassScheme = getUAEPassUrlScheme();
   
   const encodedAuthUrl = encodeURIComponent(authUrl);
   const encodedSuccessUrl = encodeURIComponent(successUrl);
@@ -343,68 +649,55 @@ const buildUAEPassAppDeepLink = (params: {
 const authenticateWithUAEPassApp = async (
   authUrl: string,
   state: string,
-  codeVerifier: string
+  codeVerifier: string,
+  options?: UAEPassFlowOptions
 ): Promise<UAEPassAuthResult> => {
-  console.log('📱 Opening UAE Pass app directly...');
+  if (options?.signal?.aborted) {
+    return abortedResult();
+  }
+
+  uaePassLogger.debug('📱 Opening UAE Pass app directly...');
   const config = getUAEPassConfig();
   const appSchemes = getUAEPassAppSchemes();
   
   // Set up deep link listener BEFORE opening UAE Pass app
-  const authCodePromise = new Promise<UAEPassAuthResult>((resolve) => {
-    const subscription = Linking.addEventListener('url', (event: Linking.EventType) => {
-      console.log('📱 Deep link received from UAE Pass app:', event.url);
-      
-      // Check if this is our callback
-      if (event.url.includes(config.redirectUri) || event.url.includes('code=')) {
-        // Parse the callback URL
-        const result = parseCallbackURL(event.url, state);
-        
-        // Add code verifier to result for PKCE
-        if (result.success) {
-          result.codeVerifier = codeVerifier;
-        }
-        
-        // Clean up listener
-        subscription.remove();
-        
-        // Resolve with result
-        resolve(result);
-      }
-    });
-    
-    // Timeout after 5 minutes
-    setTimeout(() => {
-      subscription.remove();
-      resolve({
-        success: false,
-        error: 'Authentication timeout - UAE Pass app did not respond',
-      });
-    }, 5 * 60 * 1000);
+  const callback = waitForCallback({
+    state,
+    codeVerifier,
+    timeoutMs: resolveTimeoutMs(options?.timeoutMs),
+    timeoutMessage: 'Authentication timeout - UAE Pass app did not respond',
+    signal: options?.signal,
+    // Check if this is our callback
+    isCallback: (url) => url.includes(config.redirectUri) || url.includes('code='),
   });
   
   // Try using native module for Android
   if (Platform.OS === 'android') {
-    const { UAEPassModule } = NativeModules;
+    const nativeModule = getUAEPassNativeModule();
     
-    if (UAEPassModule?.openUAEPassWithIntent) {
-      console.log('📱 Using native module to open UAE Pass app...');
+    if (typeof nativeModule?.openUAEPassWithIntent === 'function') {
+      uaePassLogger.debug('📱 Using native module to open UAE Pass app...');
+      emitUAEPassEvent({ type: 'strategyAttempted', strategy: 'nativeIntent' });
       try {
-        await UAEPassModule.openUAEPassWithIntent(
+        await nativeModule.openUAEPassWithIntent(
           authUrl,
           config.redirectUri,
           appSchemes.android
         );
-        console.log('📱 Native module opened UAE Pass app, waiting for callback...');
-        const result = await authCodePromise;
+        uaePassLogger.debug('📱 Native module opened UAE Pass app, waiting for callback...');
+        emitUAEPassEvent({ type: 'appLaunched', strategy: 'nativeIntent' });
+        const result = await callback.promise;
         return result;
       } catch (error) {
-        console.log('📱 Native module launch failed:', error);
+        uaePassLogger.debug('📱 Native module launch failed:', error);
+        emitUAEPassEvent({ type: 'strategyFailed', strategy: 'nativeIntent' });
       }
     }
     
     // Try launchUAEPassApp method
-    if (UAEPassModule?.launchUAEPassApp) {
-      console.log('📱 Trying launchUAEPassApp...');
+    if (typeof nativeModule?.launchUAEPassApp === 'function') {
+      uaePassLogger.debug('📱 Trying launchUAEPassApp...');
+      emitUAEPassEvent({ type: 'strategyAttempted', strategy: 'nativeLaunch' });
       const deepLinkUrl = buildUAEPassAppDeepLink({
         authUrl,
         successUrl: config.redirectUri,
@@ -412,113 +705,377 @@ const authenticateWithUAEPassApp = async (
       });
       
       try {
-        await UAEPassModule.launchUAEPassApp(appSchemes.android, deepLinkUrl);
-        console.log('📱 Launched UAE Pass app, waiting for callback...');
-        const result = await authCodePromise;
+        await nativeModule.launchUAEPassApp(appSchemes.android, deepLinkUrl);
+        uaePassLogger.debug('📱 Launched UAE Pass app, waiting for callback...');
+        emitUAEPassEvent({ type: 'appLaunched', strategy: 'nativeLaunch' });
+        const result = await callback.promise;
         return result;
       } catch (error) {
-        console.log('📱 launchUAEPassApp failed:', error);
+        uaePassLogger.debug('📱 launchUAEPassApp failed:', error);
+        emitUAEPassEvent({ type: 'strategyFailed', strategy: 'nativeLaunch' });
       }
     }
   }
   
   // Fallback: Try Linking API methods
-  console.log('📱 Trying Linking API methods...');
+  uaePassLogger.debug('📱 Trying Linking API methods...');
   
-  const env = getUAEPassEnvironment();
-  const uaePassScheme = env === 'production' ? 'uaepass' : 'uaepassstg';
+  const uaePassScheme = getUAEPassUrlScheme();
   const deepLinkUrl = buildUAEPassAppDeepLink({
     authUrl,
     successUrl: config.redirectUri,
     failureUrl: `${config.redirectUri}?error=cancelled`,
   });
   
-  console.log('📱 Trying UAE Pass deep link:', deepLinkUrl);
+  uaePassLogger.debug('📱 Trying UAE Pass deep link:', deepLinkUrl);
+  emitUAEPassEvent({ type: 'strategyAttempted', strategy: 'deepLink' });
   
   try {
     const canOpen = await Linking.canOpenURL(`${uaePassScheme}://`);
-    console.log('📱 Can open UAE Pass scheme:', canOpen);
+    uaePassLogger.debug('📱 Can open UAE Pass scheme:', canOpen);
     
     if (canOpen) {
       await Linking.openURL(deepLinkUrl);
-      console.log('📱 Opened UAE Pass app via Linking, waiting for callback...');
-      const result = await authCodePromise;
+      uaePassLogger.debug('📱 Opened UAE Pass app via Linking, waiting for callback...');
+      emitUAEPassEvent({ type: 'appLaunched', strategy: 'deepLink' });
+      const result = await callback.promise;
       return result;
     }
   } catch (error) {
-    console.log('📱 Failed to open with deep link:', error);
+    uaePassLogger.debug('📱 Failed to open with deep link:', error);
+  }
+  emitUAEPassEvent({ type: 'strategyFailed', strategy: 'deepLink' });
+  
+  // Stop waiting for the app callback - the browser flow sets up its own
+  callback.cancel();
+  if (options?.signal?.aborted) {
+    return abortedResult();
   }
   
   // If all direct methods fail, fall back to browser
-  console.log('⚠️ All direct app launch methods failed, falling back to browser...');
-  return authenticateWithUAEPassBrowser(authUrl, state, codeVerifier);
+  uaePassLogger.info('⚠️ All direct app launch methods failed, falling back to browser...');
+  return authenticateWithUAEPassBrowser(authUrl, state, codeVerifier, options);
 };
 
 // ==================== Main Authentication Function ====================
 
+/**
+ * Emit flowCompleted for a finished flow and pass the result through
+ */
+const completeFlow = (result: UAEPassAuthResult): UAEPassAuthResult => {
+  emitUAEPassEvent({ type: 'flowCompleted', success: result.success, errorCode: result.errorCode });
+  return result;
+};
+
 /**
  * Main UAE Pass Authentication Function
  * 
  * This function handles BOTH flows:
  * 1. Direct app launch (when UAE Pass app IS installed)
  * 2. Browser flow (when UAE Pass app is NOT installed)
+ * 
+ * @param options - Optional timeout override, AbortSignal and step-up requirement
  */
-export const authenticateWithUAEPass = async (): Promise<UAEPassAuthResult> => {
+export const authenticateWithUAEPass = async (
+  options?: UAEPassFlowOptions & { stepUp?: UAEPassStepUpOptions }
+): Promise<UAEPassAuthResult> => {
   try {
-    console.log('=== UAE Pass Authentication Started ===');
+    const stepUp = options?.stepUp && createStepUpRequirement(options.stepUp);
+    uaePassLogger.info('=== UAE Pass Authentication Started ===');
+    emitUAEPassEvent({ type: 'flowStarted', entry: 'authenticate' });
     
     // 1. Check if UAE Pass app is installed
     const appInstalled = await isUAEPassAppInstalled();
-    console.log(`UAE Pass app installed: ${appInstalled}`);
+    uaePassLogger.debug(`UAE Pass app installed: ${appInstalled}`);
+    emitUAEPassEvent({ type: 'appDetection', installed: appInstalled });
+    
+    if (options?.signal?.aborted) {
+      emitUAEPassEvent({ type: 'cancelled', reason: 'aborted' });
+      return completeFlow(abortedResult());
+    }
     
-    // 2. Determine ACR value based on app availability
-    const acrValue = appInstalled 
-      ? UAE_PASS_ACR_VALUES.MOBILE_ON_DEVICE 
-      : UAE_PASS_ACR_VALUES.LOW;
+    // 2. Determine ACR value based on app availability (or the step-up level)
+    const acrValue = selectAcrValue(appInstalled, stepUp);
     
-    console.log(`Using ACR value: ${acrValue}`);
+    uaePassLogger.debug(`Using ACR value: ${acrValue}`);
+    emitUAEPassEvent({ type: 'acrSelected', acrValue });
     
     // 3. Generate security parameters
-    const state = generateState();
-    const codeVerifier = generateCodeVerifier();
+    const config = getUAEPassConfig();
+    const state = generateState(config.randomSource);
+    const nonce = generateNonce(config.randomSource);
+    const codeVerifier = generateCodeVerifier(config.randomSource);
+    const codeChallenge = await deriveCodeChallenge(codeVerifier);
     
     // 4. Build authorization URL
-    const config = getUAEPassConfig();
     const authUrl = buildAuthorizationURL({
       clientId: config.clientId,
       redirectUri: config.redirectUri,
       scopes: config.scopes || [],
       acrValue,
       state,
+      nonce,
+      codeChallenge,
+      locale: options?.locale,
+      stepUp,
     });
     
-    console.log('📋 Authorization URL:', authUrl);
-    console.log('📋 Redirect URI:', config.redirectUri);
+    uaePassLogger.debug('📋 Authorization URL:', authUrl);
+    uaePassLogger.debug('📋 Redirect URI:', config.redirectUri);
+    
+    const useApp = appInstalled && Platform.OS === 'android';
+    
+    // 5. Persist the request so the callback can be validated after process death
+    await savePendingSession({
+      state,
+      nonce,
+      codeVerifier,
+      acrValue,
+      redirectUri: config.redirectUri,
+      flow: useApp ? 'app' : 'browser',
+      createdAt: Date.now(),
+      stepUp,
+    });
     
-    // 5. DIFFERENT FLOW BASED ON APP INSTALLATION
-    if (appInstalled && Platform.OS === 'android') {
+    // 6. DIFFERENT FLOW BASED ON APP INSTALLATION
+    let result: UAEPassAuthResult;
+    if (useApp) {
       // Android: Try direct app launch
-      return await authenticateWithUAEPassApp(authUrl, state, codeVerifier);
+      result = await authenticateWithUAEPassApp(authUrl, state, codeVerifier, options);
     } else {
       // Browser-only flow: UAE Pass app is NOT installed or iOS
-      console.log('🌐 Using browser flow');
-      return await authenticateWithUAEPassBrowser(authUrl, state, codeVerifier);
+      uaePassLogger.debug('🌐 Using browser flow');
+      result = await authenticateWithUAEPassBrowser(authUrl, state, codeVerifier, options);
     }
     
+    await clearPendingSession();
+    if (result.success) {
+      result.nonce = nonce;
+      result.stepUp = stepUp;
+    }
+    return completeFlow(result);
+    
   } catch (error) {
-    console.error('UAE Pass authentication error:', error);
+    uaePassLogger.error('UAE Pass authentication error:', error);
+    return completeFlow(toFailureResult(toUAEPassError(error)));
+  }
+};
+
+/**
+ * Step-up authentication before a high-value action (payment, document approval)
+ * 
+ * Forces a fresh UAE Pass login (prompt=login by default) at the given level.
+ * The successful result carries `stepUp`; after the code exchange, pass the ID token
+ * and that requirement to checkUAEPassStepUp() (or do it on your backend).
+ * 
+ * @param stepUp - Required acr, optional maxAge (seconds) and prompt
+ * @param options - Optional timeout override, AbortSignal and locale
+ */
+export const reauthenticateWithUAEPass = (
+  stepUp: UAEPassStepUpOptions,
+  options?: UAEPassFlowOptions
+): Promise<UAEPassAuthResult> => authenticateWithUAEPass({ ...options, stepUp });
+
+// ==================== Resume After Process Death ====================
+
+/**
+ * UAE Pass page to reload from a WebView resume link, or null for any other URL
+ * Resume links are the callbacks UAEPassWebViewAuth hands to the UAE Pass app
+ * (`yourapp://` + config.resumePath + `?url=...`) and resume_authn links
+ */
+const getWebViewResumeURL = (url: string): string | null => {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, 'https://'));
+  } catch (error) {
+    return null;
+  }
+  if (url.includes('resume_authn')) {
+    return parsedUrl.searchParams.get('url') || (/^https?:\/\//.test(url) ? url : null);
+  }
+  const base = url.split(/[?#]/)[0].replace(/\/+$/, '');
+  if (base.toLowerCase() !== getUAEPassResumeCallbackUrl().toLowerCase()) {
+    return null;
+  }
+  return parsedUrl.searchParams.get('url');
+};
+
+/**
+ * Complete a pending authentication after the app was restarted
+ * 
+ * Call this on app start. It reads the persisted pending session and the URL
+ * that launched the app (Linking.getInitialURL() unless a URL is given), then:
+ * - Returns null when there is no pending session or the URL is not our callback
+ * - Clears the session and returns an error result when it has expired
+ * - For a WebView flow relaunched through a resume link, keeps the session and returns
+ *   WebView parameters (`details.useWebView`) whose authUrl is the UAE Pass page to reload
+ * - Validates the callback against the persisted state and returns the code + verifier
+ */
+export const resumePendingUAEPassAuth = async (
+  url?: string | null
+): Promise<UAEPassAuthResult | null> => {
+  const session = await loadPendingSession();
+  if (!session) {
+    return null;
+  }
+  
+  if (isPendingSessionExpired(session)) {
+    uaePassLogger.info('⌛ Pending UAE Pass session expired');
+    await clearPendingSession();
+    emitUAEPassEvent({ type: 'flowStarted', entry: 'resume' });
+    return completeFlow(toFailureResult(
+      new UAEPassError(UAE_PASS_ERROR_CODES.SESSION_EXPIRED, 'Authentication session expired')
+    ));
+  }
+  
+  const callbackUrl = url ?? (await Linking.getInitialURL());
+  if (!callbackUrl) {
+    return null;
+  }
+  
+  // A resume link is not the callback - the WebView has to reload the UAE Pass page first
+  const resumeUrl = getWebViewResumeURL(callbackUrl);
+  if (resumeUrl) {
+    if (session.flow !== 'webview') {
+      return null;
+    }
+    uaePassLogger.debug('📱 Resuming pending UAE Pass WebView session:', resumeUrl);
+    // The WebView that reloads the page completes the flow
+    emitUAEPassEvent({ type: 'flowStarted', entry: 'resume' });
     return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Authentication error',
-      details: error,
+      success: true,
+      authorizationCode: undefined,
+      state: session.state,
+      codeVerifier: session.codeVerifier,
+      nonce: session.nonce,
+      stepUp: session.stepUp,
+      details: {
+        useWebView: true,
+        authUrl: resumeUrl,
+        redirectUri: session.redirectUri,
+        expectedState: session.state,
+      },
     };
   }
+  
+  if (
+    !(callbackUrl.startsWith(session.redirectUri) || callbackUrl.includes('code=') || callbackUrl.includes('error='))
+  ) {
+    return null;
+  }
+  
+  uaePassLogger.debug('📱 Resuming pending UAE Pass session from callback:', callbackUrl);
+  emitUAEPassEvent({ type: 'flowStarted', entry: 'resume' });
+  const result = parseCallbackURL(callbackUrl, session.state);
+  if (result.success) {
+    result.codeVerifier = session.codeVerifier;
+    result.nonce = session.nonce;
+    result.stepUp = session.stepUp;
+  }
+  
+  await clearPendingSession();
+  return completeFlow(result);
+};
+
+// ==================== Logout ====================
+
+/**
+ * Build the UAE Pass logout URL
+ * Uses config.logoutEndpoint, or derives idshub/logout from the authorization endpoint
+ */
+const buildLogoutURL = (): string => {
+  const config = getUAEPassConfig();
+  const logoutEndpoint =
+    config.logoutEndpoint ||
+    config.authorizationEndpoint.replace(/\/authorize\/?(\?.*)?$/, '/logout');
+  const redirectUri = config.postLogoutRedirectUri || config.redirectUri;
+  
+  return `${logoutEndpoint}?redirect_uri=${encodeURIComponent(redirectUri)}`;
+};
+
+/**
+ * Clear WebView/shared cookies left by UAEPassWebViewAuth
+ * Android: native CookieManager via UAEPassModule
+ * iOS: nothing to clear - the WebView is incognito and the browser session ephemeral
+ * Other platforms (or to replace the above): the clearCookies option
+ */
+const clearUAEPassCookies = async (options?: UAEPassLogoutOptions): Promise<boolean> => {
+  try {
+    if (options?.clearCookies) {
+      await options.clearCookies();
+      return true;
+    }
+    
+    if (Platform.OS === 'ios') {
+      uaePassLogger.debug('iOS UAE Pass sessions are not persisted - no cookies to clear');
+      return true;
+    }
+    
+    if (Platform.OS === 'android') {
+      const nativeModule = getUAEPassNativeModule();
+      if (typeof nativeModule?.clearCookies === 'function') {
+        await nativeModule.clearCookies();
+        return true;
+      }
+    }
+    
+    uaePassLogger.warn('UAE Pass cookies were not cleared. Pass clearCookies to logoutFromUAEPass() on this platform.');
+    return false;
+  } catch (error) {
+    uaePassLogger.error('Error clearing UAE Pass cookies:', error);
+    return false;
+  }
+};
+
+/**
+ * Log out from UAE Pass and tear down local session data
+ * 
+ * 1. Opens the UAE Pass idshub/logout endpoint to end the SSO session
+ * 2. Clears WebView/shared cookies
+ * 3. Clears any pending auth session
+ * 
+ * Local teardown always runs, even if the logout endpoint could not be reached.
+ */
+export const logoutFromUAEPass = async (
+  options?: UAEPassLogoutOptions
+): Promise<UAEPassLogoutResult> => {
+  const config = getUAEPassConfig();
+  const redirectUri = config.postLogoutRedirectUri || config.redirectUri;
+  let error: UAEPassError | undefined;
+  
+  try {
+    const logoutUrl = buildLogoutURL();
+    uaePassLogger.info('🚪 Logging out from UAE Pass:', logoutUrl);
+    // Ephemeral like the login, so iOS does not show the sign-in prompt or keep logout cookies in Safari
+    const browserResult = await WebBrowser.openAuthSessionAsync(logoutUrl, redirectUri, {
+      preferEphemeralSession: true,
+    });
+    uaePassLogger.debug('Logout browser result type:', browserResult.type);
+  } catch (err) {
+    uaePassLogger.error('UAE Pass logout error:', err);
+    error = toUAEPassError(err, UAE_PASS_ERROR_CODES.NETWORK, 'Logout error');
+  }
+  
+  const cookiesCleared = await clearUAEPassCookies(options);
+  await clearPendingSession();
+  forgetCompletedPendingSession();
+  
+  return {
+    success: !error,
+    cookiesCleared,
+    error: error?.message,
+    errorCode: error?.code,
+    details: error?.details,
+  };
 };
 
 export default {
   authenticateWithUAEPass,
+  reauthenticateWithUAEPass,
   authenticateWithUAEPassBrowser,
   prepareUAEPassAuth,
   isUAEPassAppInstalled,
+  resumePendingUAEPassAuth,
+  logoutFromUAEPass,
 };
 
@@ -0,0 +1,181 @@
+import { Platform } from 'react-native';
+import { configureUAEPass } from '../config/uaePassConfig';
+import { UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+import {
+  createUAEPassSignerProcess,
+  downloadUAEPassSignedDocument,
+  type UAEPassSigningServerOptions,
+} from '../server/uaePassSigning';
+import { parseSigningCallbackURL, signWithUAEPass } from './uaePassSigningService';
+import { startMockUAEPassIdP, mockUAEPass, type MockUAEPassIdP } from '../testing';
+import type { UAEPassSignerProcess } from '../types';
+
+const CLIENT_SECRET = 'test-secret';
+const FINISH_CALLBACK_URL = 'uaepasstest://signing/finish';
+const PDF = new TextEncoder().encode('%PDF-1.4 mock document');
+
+let idp: MockUAEPassIdP;
+let signingOptions: UAEPassSigningServerOptions;
+
+const createProcess = (finishCallbackUrl = FINISH_CALLBACK_URL): Promise<UAEPassSignerProcess> =>
+  createUAEPassSignerProcess({ document: PDF, documentName: 'contract.pdf', finishCallbackUrl }, signingOptions);
+
+const deepLinkParams = (url: string) => new URLSearchParams(url.split('?').slice(1).join('?'));
+
+beforeAll(async () => {
+  idp = await startMockUAEPassIdP({ clientSecret: CLIENT_SECRET });
+  signingOptions = {
+    clientId: idp.clientId,
+    clientSecret: CLIENT_SECRET,
+    tokenEndpoint: idp.tokenEndpoint,
+    signingApiUrl: idp.signingApiUrl,
+  };
+});
+
+beforeEach(() => {
+  configureUAEPass(idp.config({ logger: 'silent' }));
+  mockUAEPass.useIdentityProvider(idp);
+});
+
+afterEach(() => {
+  mockUAEPass.reset();
+  idp.reset();
+  jest.restoreAllMocks();
+});
+
+afterAll(() => idp.stop());
+
+describe('signWithUAEPass - Android app', () => {
+  beforeEach(() => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+    mockUAEPass.setAppInstalled(true);
+  });
+
+  it('signs through a signing deep link', async () => {
+    const process = await createProcess();
+
+    const result = await signWithUAEPass(process);
+
+    expect(result).toMatchObject({ success: true, status: 'finished', processId: process.processId });
+    const deepLink = mockUAEPass.openedUrls[0];
+    expect(deepLink.startsWith('uaepass://idshub/authorize?')).toBe(true);
+    expect(deepLinkParams(deepLink).get('spUrl')).toBe(process.signUrl);
+    expect(deepLinkParams(deepLink).get('successURL')).toBe(FINISH_CALLBACK_URL);
+    expect(deepLinkParams(deepLink).get('failureURL')).toBe(`${FINISH_CALLBACK_URL}?status=canceled`);
+    expect(await downloadUAEPassSignedDocument(process.documentIds[0], signingOptions)).toBeInstanceOf(Uint8Array);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('reports a denial through the failure URL as cancelled', async () => {
+    mockUAEPass.setUserAction('deny');
+    const process = await createProcess();
+
+    const result = await signWithUAEPass(process);
+
+    expect(result).toMatchObject({ success: false, status: 'canceled', errorCode: UAE_PASS_ERROR_CODES.CANCELLED });
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('appends the failure status to a finish URL that has a query', async () => {
+    mockUAEPass.setUserAction('deny');
+    const process = await createProcess(`${FINISH_CALLBACK_URL}?ref=42`);
+
+    const result = await signWithUAEPass(process);
+
+    expect(deepLinkParams(mockUAEPass.openedUrls[0]).get('failureURL')).toBe(
+      `${FINISH_CALLBACK_URL}?ref=42&status=canceled`
+    );
+    expect(result.errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+  });
+
+  it('treats error= on the finish callback as cancelled', async () => {
+    mockUAEPass.setUserAction('ignore');
+    const process = await createProcess();
+
+    const pending = signWithUAEPass(process);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    mockUAEPass.deliverCallback(`${FINISH_CALLBACK_URL}?error=cancelled`);
+
+    expect(await pending).toMatchObject({ status: 'canceled', errorCode: UAE_PASS_ERROR_CODES.CANCELLED });
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('ignores the finish URL without a status or error', async () => {
+    mockUAEPass.setUserAction('ignore');
+    const process = await createProcess();
+
+    const pending = signWithUAEPass(process, { timeoutMs: 50 });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    mockUAEPass.deliverCallback(FINISH_CALLBACK_URL);
+
+    expect((await pending).errorCode).toBe(UAE_PASS_ERROR_CODES.TIMEOUT);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+});
+
+describe('signWithUAEPass - browser', () => {
+  it('signs on the signing page', async () => {
+    const process = await createProcess();
+
+    const result = await signWithUAEPass(process);
+
+    expect(result).toMatchObject({ success: true, status: 'finished' });
+    expect(mockUAEPass.openedUrls).toEqual([process.signUrl]);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('reports a dismissed browser as cancelled', async () => {
+    mockUAEPass.setUserAction('dismiss');
+    const process = await createProcess();
+
+    expect((await signWithUAEPass(process)).errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+
+  it('times out and aborts', async () => {
+    mockUAEPass.setUserAction('ignore');
+    const process = await createProcess();
+
+    expect((await signWithUAEPass(process, { timeoutMs: 50 })).errorCode).toBe(UAE_PASS_ERROR_CODES.TIMEOUT);
+
+    const controller = new AbortController();
+    const pending = signWithUAEPass(process, { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+    expect((await pending).errorCode).toBe(UAE_PASS_ERROR_CODES.CANCELLED);
+    expect(mockUAEPass.listenerCount).toBe(0);
+  });
+});
+
+describe('parseSigningCallbackURL', () => {
+  const process: UAEPassSignerProcess = {
+    processId: 'process-1',
+    signUrl: 'https://example.com/sign',
+    finishCallbackUrl: FINISH_CALLBACK_URL,
+    documentIds: ['document-1'],
+  };
+
+  it.each([
+    ['finished', true, undefined],
+    ['canceled', false, UAE_PASS_ERROR_CODES.CANCELLED],
+    ['failed', false, UAE_PASS_ERROR_CODES.SIGNING_FAILED],
+  ])('maps status=%s', (status, success, errorCode) => {
+    const result = parseSigningCallbackURL(`${FINISH_CALLBACK_URL}?status=${status}`, process);
+
+    expect(result.success).toBe(success);
+    expect(result.errorCode).toBe(errorCode);
+  });
+
+  it('maps error= without a status to cancelled', () => {
+    expect(parseSigningCallbackURL(`${FINISH_CALLBACK_URL}?error=cancelled`, process)).toMatchObject({
+      status: 'canceled',
+      errorCode: UAE_PASS_ERROR_CODES.CANCELLED,
+    });
+  });
+
+  it('rejects an unknown status', () => {
+    expect(parseSigningCallbackURL(`${FINISH_CALLBACK_URL}?status=done`, process).errorCode).toBe(
+      UAE_PASS_ERROR_CODES.INVALID_CALLBACK
+    );
+  });
+});
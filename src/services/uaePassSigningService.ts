@@ -0,0 +1,227 @@
+/**
+ * UAE Pass Document Signing Service
+ *
+ * Sends the user to UAE Pass to sign the documents of a signer process and waits for the
+ * finish callback. Creating the process and downloading the signed PDF need the client
+ * credentials, so they run on your backend (expo-uae-pass/server).
+ */
+
+import * as WebBrowser from 'expo-web-browser';
+import * as Linking from 'expo-linking';
+import { Platform } from 'react-native';
+import { getUAEPassAppSchemes } from '../config/uaePassConfig';
+import {
+  buildUAEPassAppDeepLink,
+  isUAEPassAppInstalled,
+  resolveTimeoutMs,
+  waitForRedirect,
+} from './uaePassService';
+import { getUAEPassNativeModule } from './uaePassNativeModule';
+import { uaePassLogger } from '../utils/logger';
+import { UAEPassError, UAE_PASS_ERROR_CODES, toUAEPassError } from '../errors/uaePassError';
+import type {
+  UAEPassFlowOptions,
+  UAEPassSignerProcess,
+  UAEPassSigningResult,
+  UAEPassSigningStatus,
+} from '../types';
+
+const SIGNING_STATUSES: readonly UAEPassSigningStatus[] = ['finished', 'canceled', 'failed'];
+
+/**
+ * Append a query parameter, using & when the URL already has a query
+ */
+const withQueryParam = (url: string, name: string, value: string): string =>
+  `${url}${url.includes('?') ? '&' : '?'}${name}=${encodeURIComponent(value)}`;
+
+/**
+ * Build a failed UAEPassSigningResult from a UAEPassError
+ */
+const toSigningFailure = (
+  process: UAEPassSignerProcess,
+  error: UAEPassError,
+  status?: UAEPassSigningStatus
+): UAEPassSigningResult => ({
+  success: false,
+  processId: process.processId,
+  documentIds: process.documentIds,
+  status,
+  error: error.message,
+  errorCode: error.code,
+  uaePassError: error,
+});
+
+// ==================== Callback Parser ====================
+
+/**
+ * Parse the finish callback (finish_callback_url?status=finished|canceled|failed)
+ * An error= parameter without a status (from the UAE Pass app) counts as canceled
+ */
+export const parseSigningCallbackURL = (
+  url: string,
+  process: UAEPassSignerProcess
+): UAEPassSigningResult => {
+  let status: string | null;
+  let errorParam: string | null;
+  try {
+    // Custom schemes are not parsed reliably by URL - normalise them to https
+    const parsed = new URL(url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, 'https://'));
+    status = parsed.searchParams.get('status');
+    errorParam = parsed.searchParams.get('error');
+  } catch (error) {
+    return toSigningFailure(process, new UAEPassError(
+      UAE_PASS_ERROR_CODES.INVALID_CALLBACK,
+      'Failed to parse signing callback URL',
+      { details: error }
+    ));
+  }
+
+  // The UAE Pass app reports a cancelled or failed launch with error= instead of a status
+  if (!status && errorParam) {
+    return toSigningFailure(
+      process,
+      new UAEPassError(UAE_PASS_ERROR_CODES.CANCELLED, 'User cancelled signing', {
+        details: { error: errorParam },
+      }),
+      'canceled'
+    );
+  }
+
+  if (!status || !SIGNING_STATUSES.includes(status as UAEPassSigningStatus)) {
+    return toSigningFailure(process, new UAEPassError(
+      UAE_PASS_ERROR_CODES.INVALID_CALLBACK,
+      `Unexpected signing status "${status}"`
+    ));
+  }
+
+  if (status === 'canceled') {
+    return toSigningFailure(
+      process,
+      new UAEPassError(UAE_PASS_ERROR_CODES.CANCELLED, 'User cancelled signing'),
+      'canceled'
+    );
+  }
+  if (status === 'failed') {
+    return toSigningFailure(
+      process,
+      new UAEPassError(UAE_PASS_ERROR_CODES.SIGNING_FAILED, 'UAE Pass could not sign the document'),
+      'failed'
+    );
+  }
+
+  return {
+    success: true,
+    processId: process.processId,
+    documentIds: process.documentIds,
+    status: 'finished',
+  };
+};
+
+// ==================== Signing Flow ====================
+
+/**
+ * Sign the documents of a signer process in UAE Pass
+ *
+ * Android with the UAE Pass app installed: opens the app through UAEPassModule
+ * Otherwise (or if that fails): opens the signing page in a browser auth session
+ *
+ * @param process - Signer process created by your backend
+ * @param options - Optional timeout override and AbortSignal
+ */
+export const signWithUAEPass = async (
+  process: UAEPassSignerProcess,
+  options?: Omit<UAEPassFlowOptions, 'locale'>
+): Promise<UAEPassSigningResult> => {
+  const aborted = () => toSigningFailure(
+    process,
+    new UAEPassError(UAE_PASS_ERROR_CODES.CANCELLED, 'Signing aborted')
+  );
+  if (options?.signal?.aborted) {
+    return aborted();
+  }
+
+  try {
+    uaePassLogger.info('=== UAE Pass Signing Started ===');
+    // The finish callback carries status= (or error= from the UAE Pass app)
+    const isCallback = (url: string) =>
+      url.startsWith(process.finishCallbackUrl) && /[?&](status|error)=/.test(url);
+    const waitOptions = {
+      timeoutMs: resolveTimeoutMs(options?.timeoutMs),
+      signal: options?.signal,
+      isCallback,
+      onRedirect: (url: string) => parseSigningCallbackURL(url, process),
+      onTimeout: () => toSigningFailure(
+        process,
+        new UAEPassError(UAE_PASS_ERROR_CODES.TIMEOUT, 'Signing timeout')
+      ),
+      onAbort: aborted,
+    };
+
+    // App-to-app (Android)
+    // Not openUAEPassWithIntent: its login deep link sends failures to callbackUrl?error=cancelled
+    const appInstalled = await isUAEPassAppInstalled();
+    if (appInstalled && Platform.OS === 'android') {
+      const nativeModule = getUAEPassNativeModule();
+      const deepLinkUrl = buildUAEPassAppDeepLink({
+        authUrl: process.signUrl,
+        successUrl: process.finishCallbackUrl,
+        failureUrl: withQueryParam(process.finishCallbackUrl, 'status', 'canceled'),
+      });
+      const callback = waitForRedirect(waitOptions);
+      try {
+        if (typeof nativeModule?.launchUAEPassApp === 'function') {
+          await nativeModule.launchUAEPassApp(getUAEPassAppSchemes().android, deepLinkUrl);
+        } else {
+          await Linking.openURL(deepLinkUrl);
+        }
+        uaePassLogger.debug('📱 Opened UAE Pass app for signing, waiting for callback...');
+        return await callback.promise;
+      } catch (error) {
+        uaePassLogger.debug('📱 Could not open UAE Pass app for signing:', error);
+        callback.cancel();
+      }
+    }
+
+    // Browser
+    uaePassLogger.debug('🌐 Opening signing page in browser...');
+    const callback = waitForRedirect(waitOptions);
+    const outcome = await Promise.race([
+      WebBrowser.openAuthSessionAsync(process.signUrl, process.finishCallbackUrl).then(
+        (browserResult) => ({ browserResult, result: null })
+      ),
+      callback.promise.then(
+        (result) => ({ browserResult: null, result })
+      ),
+    ]);
+
+    if (outcome.result) {
+      if (!outcome.result.success) {
+        WebBrowser.dismissAuthSession();
+      }
+      return outcome.result;
+    }
+
+    const { browserResult } = outcome;
+    if (browserResult.type === 'success' && browserResult.url) {
+      callback.cancel();
+      return parseSigningCallbackURL(browserResult.url, process);
+    }
+    if (browserResult.type === 'cancel' || browserResult.type === 'dismiss') {
+      callback.cancel();
+      return toSigningFailure(
+        process,
+        new UAEPassError(UAE_PASS_ERROR_CODES.CANCELLED, 'User cancelled signing')
+      );
+    }
+
+    return await callback.promise;
+  } catch (error) {
+    uaePassLogger.error('UAE Pass signing error:', error);
+    return toSigningFailure(process, toUAEPassError(error));
+  }
+};
+
+export default {
+  signWithUAEPass,
+  parseSigningCallbackURL,
+};
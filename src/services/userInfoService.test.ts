@@ -0,0 +1,77 @@
+import { configureUAEPass } from '../config/uaePassConfig';
+import { UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+import { fetchUAEPassUserInfo, normalizeUAEPassUserInfo } from './userInfoService';
+import { startMockUAEPassIdP, MOCK_UAE_PASS_USERS, type MockUAEPassIdP } from '../testing';
+
+let idp: MockUAEPassIdP;
+
+beforeAll(async () => {
+  idp = await startMockUAEPassIdP();
+});
+
+beforeEach(() => {
+  configureUAEPass(idp.config({ logger: 'silent' }));
+});
+
+afterEach(() => {
+  idp.reset();
+  jest.restoreAllMocks();
+});
+
+afterAll(() => idp.stop());
+
+describe('normalizeUAEPassUserInfo', () => {
+  it('maps the claims of a verified user', () => {
+    expect(normalizeUAEPassUserInfo(MOCK_UAE_PASS_USERS.SOP3)).toMatchObject({
+      uuid: MOCK_UAE_PASS_USERS.SOP3.uuid,
+      sub: MOCK_UAE_PASS_USERS.SOP3.sub,
+      userType: 'SOP3',
+    });
+  });
+
+  it.each([
+    ['uuid', { uuid: 'only-uuid' }, 'only-uuid'],
+    ['sub', { sub: 'only-sub' }, 'only-sub'],
+  ])('uses %s for both identifiers when the other is missing', (_, claims, identifier) => {
+    expect(normalizeUAEPassUserInfo(claims)).toMatchObject({ uuid: identifier, sub: identifier });
+  });
+
+  it('throws when both uuid and sub are missing', () => {
+    expect(() => normalizeUAEPassUserInfo({ email: 'a@example.com' })).toThrow(
+      expect.objectContaining({ code: UAE_PASS_ERROR_CODES.USERINFO_FAILED })
+    );
+  });
+
+  it('keeps claim values out of the error details', () => {
+    const { uuid, sub, ...claims } = MOCK_UAE_PASS_USERS.SOP3;
+
+    let error: unknown;
+    try {
+      normalizeUAEPassUserInfo(claims);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toMatchObject({ details: { claimNames: Object.keys(claims) } });
+    const serialized = JSON.stringify(error) + String(error);
+    [claims.idn, claims.mobile, claims.email, claims.fullnameEN].forEach((value) => {
+      expect(serialized).not.toContain(value);
+    });
+  });
+});
+
+describe('fetchUAEPassUserInfo', () => {
+  it('reports a non-JSON body as USERINFO_FAILED', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response('<html></html>', { status: 200 }));
+
+    await expect(fetchUAEPassUserInfo('access-token')).rejects.toMatchObject({
+      code: UAE_PASS_ERROR_CODES.USERINFO_FAILED,
+    });
+  });
+
+  it('reports an error status as USERINFO_FAILED', async () => {
+    await expect(fetchUAEPassUserInfo('unknown-token')).rejects.toMatchObject({
+      code: UAE_PASS_ERROR_CODES.USERINFO_FAILED,
+    });
+  });
+});
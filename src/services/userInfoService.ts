@@ -0,0 +1,143 @@
+/**
+ * UAE Pass User Info Service
+ *
+ * Fetches the userinfo endpoint and maps UAE Pass claims to a typed profile
+ */
+
+import { getUAEPassConfig } from '../config/uaePassConfig';
+import { UAEPassError, UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+import type {
+  UAEPassUserInfoClaims,
+  UAEPassUserProfile,
+  UAEPassUserType,
+} from '../types';
+
+const USER_TYPES: readonly UAEPassUserType[] = ['SOP1', 'SOP2', 'SOP3'];
+
+/**
+ * Trim a claim value, treating empty strings and non-strings as missing
+ */
+const optionalString = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+/**
+ * Normalise userType claim (e.g. "sop3" -> "SOP3")
+ */
+const normalizeUserType = (value: unknown): UAEPassUserType | undefined => {
+  const userType = optionalString(value)?.toUpperCase();
+  return USER_TYPES.find((type) => type === userType);
+};
+
+/**
+ * Normalise gender claim ("Male"/"M" -> "male")
+ */
+const normalizeGender = (value: unknown): 'male' | 'female' | undefined => {
+  const gender = optionalString(value)?.toLowerCase();
+  if (gender === 'male' || gender === 'm') return 'male';
+  if (gender === 'female' || gender === 'f') return 'female';
+  return undefined;
+};
+
+/**
+ * Map raw UAE Pass userinfo claims to a UAEPassUserProfile
+ * uuid and sub are filled from each other when only one is present
+ * @throws UAEPassError (USERINFO_FAILED) if the claims have neither uuid nor sub
+ *   (details list the claim names only - values are personal data)
+ */
+export const normalizeUAEPassUserInfo = (claims: UAEPassUserInfoClaims): UAEPassUserProfile => {
+  const uuid = optionalString(claims.uuid) || optionalString(claims.sub);
+  const sub = optionalString(claims.sub) || uuid;
+
+  if (!uuid || !sub) {
+    throw new UAEPassError(
+      UAE_PASS_ERROR_CODES.USERINFO_FAILED,
+      'Invalid UAE Pass userinfo response: missing sub/uuid',
+      { details: { claimNames: Object.keys(claims) } }
+    );
+  }
+
+  const firstNameEn = optionalString(claims.firstnameEN);
+  const lastNameEn = optionalString(claims.lastnameEN);
+  const firstNameAr = optionalString(claims.firstnameAR);
+  const lastNameAr = optionalString(claims.lastnameAR);
+
+  return {
+    uuid,
+    sub,
+    idn: optionalString(claims.idn),
+    idType: optionalString(claims.idType),
+    userType: normalizeUserType(claims.userType),
+    unifiedId: optionalString(claims.unifiedID),
+    firstNameEn,
+    lastNameEn,
+    fullNameEn:
+      optionalString(claims.fullnameEN) ||
+      ([firstNameEn, lastNameEn].filter(Boolean).join(' ') || undefined),
+    firstNameAr,
+    lastNameAr,
+    fullNameAr:
+      optionalString(claims.fullnameAR) ||
+      ([firstNameAr, lastNameAr].filter(Boolean).join(' ') || undefined),
+    titleEn: optionalString(claims.titleEN),
+    titleAr: optionalString(claims.titleAR),
+    nationalityEn: optionalString(claims.nationalityEN),
+    nationalityAr: optionalString(claims.nationalityAR),
+    gender: normalizeGender(claims.gender),
+    mobile: optionalString(claims.mobile),
+    email: optionalString(claims.email),
+    raw: claims,
+  };
+};
+
+/**
+ * Fetch the signed-in user's profile from the UAE Pass userinfo endpoint
+ *
+ * @param accessToken - Access token from the token exchange
+ * @throws UAEPassError - NOT_CONFIGURED, NETWORK or USERINFO_FAILED
+ */
+export const fetchUAEPassUserInfo = async (accessToken: string): Promise<UAEPassUserProfile> => {
+  const config = getUAEPassConfig();
+
+  if (!config.userInfoEndpoint) {
+    throw new UAEPassError(
+      UAE_PASS_ERROR_CODES.NOT_CONFIGURED,
+      'User info endpoint not configured. Set userInfoEndpoint in configureUAEPass().'
+    );
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(config.userInfoEndpoint, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/json',
+      },
+    });
+  } catch (error) {
+    throw new UAEPassError(UAE_PASS_ERROR_CODES.NETWORK, 'Could not reach UAE Pass userinfo endpoint', {
+      details: error,
+    });
+  }
+
+  if (!response.ok) {
+    throw new UAEPassError(
+      UAE_PASS_ERROR_CODES.USERINFO_FAILED,
+      `UAE Pass userinfo request failed with status ${response.status}`
+    );
+  }
+
+  const claims = (await response.json().catch(() => null)) as UAEPassUserInfoClaims | null;
+  if (!claims || typeof claims !== 'object') {
+    throw new UAEPassError(UAE_PASS_ERROR_CODES.USERINFO_FAILED, 'Invalid UAE Pass userinfo response: not JSON');
+  }
+  return normalizeUAEPassUserInfo(claims);
+};
+
+export default {
+  fetchUAEPassUserInfo,
+  normalizeUAEPassUserInfo,
+};
@@ -0,0 +1,34 @@
+/**
+ * UAEPassModule native module spec
+ *
+ * Codegen spec (package.json codegenConfig: UAEPassSpec). The Kotlin module generated by
+ * expo-plugin/withUAEPassModule.js implements it - its tests compare the module against the
+ * codegen Java spec, so keep both in sync. The module stays a bridge module rather than
+ * extending NativeUAEPassModuleSpec: the app never builds the JNI binding a TurboModule needs,
+ * so the new architecture loads it through the interop layer; TurboModuleRegistry.get resolves
+ * it either way.
+ */
+
+import type { TurboModule } from 'react-native';
+import { TurboModuleRegistry } from 'react-native';
+
+export interface Spec extends TurboModule {
+  /**
+   * Whether the UAE Pass app with this package name is installed (PackageManager lookup)
+   */
+  isUAEPassInstalled(packageName: string): Promise<boolean>;
+  /**
+   * Open a UAE Pass deep link, pinned to the package when it is installed
+   */
+  launchUAEPassApp(packageName: string, deepLinkUrl: string): Promise<boolean>;
+  /**
+   * Open the UAE Pass app with the authorization URL and success/failure callbacks built from callbackUrl
+   */
+  openUAEPassWithIntent(authUrl: string, callbackUrl: string, packageName: string): Promise<boolean>;
+  /**
+   * Clear WebView cookies (android.webkit.CookieManager); resolves with whether any were removed
+   */
+  clearCookies(): Promise<boolean>;
+}
+
+export default TurboModuleRegistry.get<Spec>('UAEPassModule');
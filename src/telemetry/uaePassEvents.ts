@@ -0,0 +1,130 @@
+/**
+ * UAE Pass Flow Events
+ *
+ * Typed telemetry emitted by the service, hook and WebView component, e.g. to count
+ * app-to-app vs browser logins, time each step and find where users drop off.
+ * Events never carry URLs, codes, state or tokens.
+ */
+
+import type { UAEPassErrorCode } from '../errors/uaePassError';
+
+/**
+ * How the user is sent to UAE Pass
+ * - nativeIntent / nativeLaunch: UAEPassModule.openUAEPassWithIntent / launchUAEPassApp (Android)
+ * - deepLink: Linking.openURL with the UAE Pass app scheme
+ * - browser: WebBrowser auth session
+ * - webView: UAEPassWebViewAuth
+ */
+export type UAEPassStrategy = 'nativeIntent' | 'nativeLaunch' | 'deepLink' | 'browser' | 'webView';
+
+export type UAEPassEventPayload =
+  | { type: 'flowStarted'; entry: 'authenticate' | 'prepare' | 'resume' }
+  | { type: 'appDetection'; installed: boolean }
+  | { type: 'acrSelected'; acrValue: string }
+  | { type: 'strategyAttempted'; strategy: UAEPassStrategy }
+  | { type: 'strategyFailed'; strategy: UAEPassStrategy }
+  | { type: 'appLaunched'; strategy: UAEPassStrategy }
+  | { type: 'callbackReceived'; strategy?: UAEPassStrategy }
+  | { type: 'stateValidated'; valid: boolean }
+  | { type: 'timeout' }
+  | { type: 'cancelled'; reason: 'user' | 'dismissed' | 'aborted' }
+  /**
+   * Once per flow, from whatever produced the final result: authenticateWithUAEPass,
+   * resumePendingUAEPassAuth, useUAEPassAuth, or a UAEPassWebViewAuth rendered by the app
+   */
+  | { type: 'flowCompleted'; success: boolean; errorCode?: UAEPassErrorCode }
+  | { type: 'codeExchanged'; success: boolean; errorCode?: UAEPassErrorCode };
+
+export interface UAEPassEventMeta {
+  /**
+   * Identifies the login attempt the event belongs to
+   */
+  flowId: string;
+  /**
+   * When the event fired (ms since epoch)
+   */
+  timestamp: number;
+  /**
+   * Time since the flow started
+   */
+  durationMs: number;
+  /**
+   * Time since the previous event of the same flow
+   */
+  stepDurationMs: number;
+}
+
+export type UAEPassEvent = UAEPassEventPayload & UAEPassEventMeta;
+
+export type UAEPassEventType = UAEPassEvent['type'];
+
+export type UAEPassEventListener = (event: UAEPassEvent) => void;
+
+interface FlowTrace {
+  id: string;
+  startedAt: number;
+  lastEventAt: number;
+}
+
+const listeners = new Set<UAEPassEventListener>();
+let configListener: UAEPassEventListener | undefined;
+let currentTrace: FlowTrace | null = null;
+let traceSequence = 0;
+
+const newTrace = (now: number): FlowTrace => {
+  traceSequence += 1;
+  return { id: `${now.toString(36)}-${traceSequence}`, startedAt: now, lastEventAt: now };
+};
+
+/**
+ * Subscribe to flow events
+ * @returns Unsubscribe function
+ */
+export const addUAEPassEventListener = (listener: UAEPassEventListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Set the listener from config.onEvent (called by configureUAEPass)
+ */
+export const setUAEPassConfigEventListener = (listener?: UAEPassEventListener) => {
+  configListener = listener;
+};
+
+/**
+ * Emit an event for the current flow (starts a new flow on 'flowStarted')
+ * Listener errors are swallowed so analytics can never break authentication
+ */
+export const emitUAEPassEvent = (payload: UAEPassEventPayload) => {
+  const now = Date.now();
+  if (payload.type === 'flowStarted' || !currentTrace) {
+    currentTrace = newTrace(now);
+  }
+  const trace = currentTrace;
+
+  const event = {
+    ...payload,
+    flowId: trace.id,
+    timestamp: now,
+    durationMs: now - trace.startedAt,
+    stepDurationMs: now - trace.lastEventAt,
+  } as UAEPassEvent;
+  trace.lastEventAt = now;
+
+  [configListener, ...listeners].forEach((listener) => {
+    if (!listener) return;
+    try {
+      listener(event);
+    } catch {
+      // ignore listener failures
+    }
+  });
+};
+
+export default {
+  addUAEPassEventListener,
+  emitUAEPassEvent,
+};
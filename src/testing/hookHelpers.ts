@@ -0,0 +1,140 @@
+/**
+ * useUAEPassAuth Test Helpers
+ *
+ * Drive the hook through a whole login against the mock identity provider:
+ * authenticate, complete the WebView step when the app path is used, then exchange the code.
+ * Testing-library agnostic - pass your `act` to wrap state updates.
+ */
+
+import type { TokenResponse } from 'expo-auth-session';
+import type { UseUAEPassAuthReturn } from '../hooks/useUAEPassAuth';
+import { UAEPassError, UAE_PASS_ERROR_CODES, fromOAuthError, toFailureResult } from '../errors/uaePassError';
+import type { UAEPassAuthResult, UAEPassFlowOptions } from '../types';
+import { mockUAEPass } from './mockEnvironment';
+import type { MockUAEPassIdP } from './mockIdentityProvider';
+
+type ActLike = (callback: () => Promise<void>) => unknown;
+
+export interface MockUAEPassLoginOptions {
+  idp: MockUAEPassIdP;
+  /**
+   * Mock user that approves the login (defaults to the identity provider's selected user)
+   */
+  user?: string;
+  /**
+   * When set, the code is exchanged through exchangeCode() with this secret
+   */
+  clientSecret?: string;
+  flowOptions?: UAEPassFlowOptions;
+  /**
+   * act() from @testing-library/react-native (or react-test-renderer)
+   */
+  act?: ActLike;
+}
+
+export interface MockUAEPassLoginResult {
+  /**
+   * Final result; for the WebView path this is what UAEPassWebViewAuth would report
+   */
+  result: UAEPassAuthResult;
+  /**
+   * Token response when clientSecret was given and the login succeeded
+   */
+  tokens: TokenResponse | null;
+}
+
+const runInAct = async <T>(act: ActLike | undefined, callback: () => Promise<T>): Promise<T> => {
+  if (!act) {
+    return callback();
+  }
+  let value!: T;
+  await act(async () => {
+    value = await callback();
+  });
+  return value;
+};
+
+/**
+ * Complete the WebView step the way UAEPassWebViewAuth would: approve the authorization URL
+ * at the identity provider and check the returned state
+ */
+export const completeMockWebViewLogin = (
+  idp: MockUAEPassIdP,
+  params: { authUrl: string; expectedState: string; codeVerifier?: string; nonce?: string }
+): UAEPassAuthResult => {
+  const callback = new URL(idp.authorize(params.authUrl).replace(/^[a-z][a-z0-9+.-]*:\/\//i, 'https://'));
+  const code = callback.searchParams.get('code');
+  const state = callback.searchParams.get('state');
+  const error = callback.searchParams.get('error');
+
+  if (error) {
+    return toFailureResult(fromOAuthError(error, callback.searchParams.get('error_description')));
+  }
+  if (state !== params.expectedState) {
+    return toFailureResult(new UAEPassError(
+      UAE_PASS_ERROR_CODES.STATE_MISMATCH,
+      'Invalid state parameter - possible CSRF attack'
+    ));
+  }
+  return {
+    success: !!code,
+    authorizationCode: code || undefined,
+    state: state || undefined,
+    codeVerifier: params.codeVerifier,
+    nonce: params.nonce,
+  };
+};
+
+/**
+ * Log in through useUAEPassAuth end to end
+ *
+ * @param getHook - Returns the current hook value (e.g. `() => result.current` from renderHook)
+ *
+ * @example
+ * ```typescript
+ * const { result } = renderHook(() => useUAEPassAuth());
+ * const { result: login, tokens } = await loginWithMockUAEPass(() => result.current, {
+ *   idp,
+ *   user: 'SOP2',
+ *   clientSecret: 'secret',
+ *   act,
+ * });
+ * ```
+ */
+export const loginWithMockUAEPass = async (
+  getHook: () => UseUAEPassAuthReturn,
+  options: MockUAEPassLoginOptions
+): Promise<MockUAEPassLoginResult> => {
+  const { idp, user, clientSecret, flowOptions, act } = options;
+
+  if (user) {
+    idp.setUser(user);
+  }
+  mockUAEPass.useIdentityProvider(idp);
+
+  let result = await runInAct(act, () => getHook().authenticate(flowOptions));
+
+  if (result.success && result.details?.useWebView) {
+    result = completeMockWebViewLogin(idp, {
+      authUrl: result.details.authUrl,
+      expectedState: result.details.expectedState,
+      codeVerifier: result.codeVerifier,
+      nonce: result.nonce,
+    });
+  }
+
+  if (!result.success || !result.authorizationCode || !clientSecret) {
+    return { result, tokens: null };
+  }
+
+  const code = result.authorizationCode;
+  const tokens = await runInAct(act, () =>
+    getHook().exchangeCode({ code, codeVerifier: result.codeVerifier, clientSecret })
+  );
+  return { result, tokens };
+};
+
+export default {
+  loginWithMockUAEPass,
+  completeMockWebViewLogin,
+};
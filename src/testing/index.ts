@@ -0,0 +1,34 @@
+/**
+ * expo-uae-pass/testing
+ *
+ * Test toolkit: a local mock UAE Pass identity provider, mocks for the modules the
+ * library talks to, and helpers that drive useUAEPassAuth end to end
+ */
+
+// Mock identity provider (Node)
+export {
+  startMockUAEPassIdP,
+  MOCK_UAE_PASS_USERS,
+  type MockUAEPassIdP,
+  type MockUAEPassIdPOptions,
+  type MockUAEPassIdPRequest,
+} from './mockIdentityProvider';
+
+// Module mocks and their controller
+export {
+  mockUAEPass,
+  expoLinkingMock,
+  expoWebBrowserMock,
+  expoCryptoMock,
+  expoAuthSessionMock,
+  uaePassNativeModuleMock,
+  type MockUAEPassUserAction,
+} from './mockEnvironment';
+
+// useUAEPassAuth helpers
+export {
+  loginWithMockUAEPass,
+  completeMockWebViewLogin,
+  type MockUAEPassLoginOptions,
+  type MockUAEPassLoginResult,
+} from './hookHelpers';
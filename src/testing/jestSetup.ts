@@ -0,0 +1,20 @@
+/**
+ * Jest setup for expo-uae-pass
+ *
+ * Add to setupFiles to replace expo-linking, expo-web-browser, expo-crypto,
+ * expo-auth-session and UAEPassModule with the mocks in mockEnvironment.ts:
+ *
+ *   setupFiles: ['expo-uae-pass/testing/jest-setup']
+ */
+
+jest.mock('expo-linking', () => require('./mockEnvironment').expoLinkingMock);
+jest.mock('expo-web-browser', () => ({
+  __esModule: true,
+  ...require('./mockEnvironment').expoWebBrowserMock,
+}));
+jest.mock('expo-crypto', () => require('./mockEnvironment').expoCryptoMock);
+jest.mock('expo-auth-session', () => require('./mockEnvironment').expoAuthSessionMock);
+jest.mock('../specs/NativeUAEPassModule', () => ({
+  __esModule: true,
+  default: require('./mockEnvironment').uaePassNativeModuleMock,
+}));
@@ -0,0 +1,330 @@
+/**
+ * Mock UAE Pass Device Environment
+ *
+ * Stand-ins for expo-linking, expo-web-browser, expo-crypto, expo-auth-session and UAEPassModule driven by one
+ * controller, so tests can simulate the UAE Pass app being installed or not and control how
+ * (and whether) the callback is delivered. Installed for Jest by testing/jest-setup.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Spec } from '../specs/NativeUAEPassModule';
+import type { MockUAEPassIdP } from './mockIdentityProvider';
+
+/**
+ * What the simulated user does once UAE Pass (app or browser) is opened
+ * - approve: the identity provider issues a code, or finishes signing (needs useIdentityProvider())
+ * - deny: UAE Pass redirects back with error=access_denied (signing: status=canceled);
+ *   the app goes to the failureURL of its deep link when there is one
+ * - dismiss: the browser is closed without a redirect; the app never calls back
+ * - ignore: nothing happens until deliverCallback() (timeout and abort tests)
+ */
+export type MockUAEPassUserAction = 'approve' | 'deny' | 'dismiss' | 'ignore';
+
+type UrlListener = (event: { url: string }) => void;
+
+type BrowserResult = { type: 'success'; url: string } | { type: 'cancel' | 'dismiss' };
+
+interface MockEnvironmentState {
+  appInstalled: boolean;
+  userAction: MockUAEPassUserAction;
+  idp: MockUAEPassIdP | null;
+  initialUrl: string | null;
+}
+
+const UAE_PASS_SCHEME_REGEX = /^uaepass(stg|dev)?:\/\//;
+
+const initialState = (): MockEnvironmentState => ({
+  appInstalled: false,
+  userAction: 'approve',
+  idp: null,
+  initialUrl: null,
+});
+
+let state = initialState();
+const urlListeners = new Set<UrlListener>();
+const openedUrls: string[] = [];
+let pendingBrowser: ((result: BrowserResult) => void) | null = null;
+
+const emitUrl = (url: string) => {
+  urlListeners.forEach((listener) => listener({ url }));
+};
+
+const denyUrl = (authUrl: string): string => {
+  const params = new URL(authUrl).searchParams;
+  const redirectUri = params.get('redirect_uri') || '';
+  const query = new URLSearchParams({ error: 'access_denied', error_description: 'User denied access' });
+  const callbackState = params.get('state');
+  if (callbackState) query.set('state', callbackState);
+  return `${redirectUri}${redirectUri.includes('?') ? '&' : '?'}${query.toString()}`;
+};
+
+/**
+ * Callback URL for the configured user action, or null when UAE Pass should not redirect
+ * @param failureUrl - failureURL of the app deep link; the app sends a denial there
+ */
+const resolveCallback = (authUrl: string, failureUrl?: string | null): string | null => {
+  if (state.userAction === 'deny' && failureUrl) {
+    return failureUrl;
+  }
+  // Signing pages of the mock identity provider call back with a status instead of a code
+  if (state.idp?.isSigningUrl(authUrl) && (state.userAction === 'approve' || state.userAction === 'deny')) {
+    return state.idp.sign(authUrl, state.userAction === 'approve' ? 'finished' : 'canceled');
+  }
+  switch (state.userAction) {
+    case 'approve':
+      if (!state.idp) {
+        throw new Error('mockUAEPass: call useIdentityProvider(idp) before approving logins');
+      }
+      return state.idp.authorize(authUrl);
+    case 'deny':
+      return denyUrl(authUrl);
+    default:
+      return null;
+  }
+};
+
+/**
+ * Simulate the UAE Pass app handling a deep link: it calls back through a deep link
+ * (spUrl is the authorization or signing URL, failureURL receives denials)
+ */
+const handleAppLaunch = (deepLink: string) => {
+  const params = new URLSearchParams(deepLink.split('?').slice(1).join('?'));
+  const authUrl = params.get('spUrl');
+  if (!authUrl) {
+    return;
+  }
+  const callbackUrl = resolveCallback(authUrl, params.get('failureURL') || params.get('failureurl'));
+  if (callbackUrl) {
+    setTimeout(() => emitUrl(callbackUrl), 0);
+  }
+};
+
+/**
+ * The deep link UAEPassModule.openUAEPassWithIntent builds around a URL
+ * (failures go to callbackUrl?error=cancelled, as in the Kotlin module)
+ */
+const intentDeepLink = (authUrl: string, callbackUrl: string, packageName: string): string => {
+  const scheme = packageName.includes('.stg') ? 'uaepassstg' : 'uaepass';
+  return `${scheme}://idshub/authorize?spUrl=${encodeURIComponent(authUrl)}` +
+    `&successURL=${encodeURIComponent(callbackUrl)}` +
+    `&failureURL=${encodeURIComponent(`${callbackUrl}?error=cancelled`)}`;
+};
+
+// ==================== Module Mocks ====================
+
+/**
+ * expo-linking replacement
+ */
+export const expoLinkingMock = {
+  addEventListener: (_type: 'url', listener: UrlListener) => {
+    urlListeners.add(listener);
+    return { remove: () => urlListeners.delete(listener) };
+  },
+  getInitialURL: async (): Promise<string | null> => state.initialUrl,
+  canOpenURL: async (url: string): Promise<boolean> =>
+    UAE_PASS_SCHEME_REGEX.test(url) ? state.appInstalled : true,
+  openURL: async (url: string): Promise<true> => {
+    openedUrls.push(url);
+    if (UAE_PASS_SCHEME_REGEX.test(url)) {
+      if (!state.appInstalled) {
+        throw new Error(`No app can handle ${url.split('?')[0]}`);
+      }
+      handleAppLaunch(url);
+    }
+    return true;
+  },
+  createURL: (path: string): string => `uaepasstest://${path.replace(/^\//, '')}`,
+};
+
+/**
+ * expo-web-browser replacement
+ * Logout URLs of the identity provider redirect straight back
+ */
+export const expoWebBrowserMock = {
+  openAuthSessionAsync: async (url: string, _redirectUrl?: string): Promise<BrowserResult> => {
+    openedUrls.push(url);
+    if (state.idp && url.startsWith(state.idp.logoutEndpoint)) {
+      const redirectUri = new URL(url).searchParams.get('redirect_uri');
+      return redirectUri ? { type: 'success', url: redirectUri } : { type: 'dismiss' };
+    }
+    if (state.userAction === 'dismiss') {
+      return { type: 'dismiss' };
+    }
+    const callbackUrl = resolveCallback(url);
+    if (callbackUrl) {
+      return { type: 'success', url: callbackUrl };
+    }
+    // 'ignore': the browser stays open until deliverCallback() or dismissAuthSession()
+    return new Promise<BrowserResult>((resolve) => {
+      pendingBrowser = resolve;
+    });
+  },
+  dismissAuthSession: () => {
+    pendingBrowser?.({ type: 'dismiss' });
+    pendingBrowser = null;
+  },
+  maybeCompleteAuthSession: () => ({ type: 'failed' as const, message: 'Not supported in tests' }),
+};
+
+/**
+ * Node hash name for an expo-crypto algorithm ('SHA-256' -> 'sha256')
+ */
+const nodeHashName = (algorithm: string): string => algorithm.replace('-', '').toLowerCase();
+
+/**
+ * expo-crypto replacement backed by Node's crypto
+ */
+export const expoCryptoMock = {
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256', SHA384: 'SHA-384', SHA512: 'SHA-512' },
+  CryptoEncoding: { HEX: 'hex', BASE64: 'base64' },
+  getRandomBytes: (byteCount: number): Uint8Array => new Uint8Array(randomBytes(byteCount)),
+  digestStringAsync: async (
+    algorithm: string,
+    data: string,
+    options?: { encoding?: 'hex' | 'base64' }
+  ): Promise<string> => createHash(nodeHashName(algorithm)).update(data).digest(options?.encoding || 'hex'),
+  digest: async (algorithm: string, data: ArrayBufferView | ArrayBuffer): Promise<ArrayBuffer> => {
+    const bytes = ArrayBuffer.isView(data)
+      ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+      : new Uint8Array(data);
+    const hash = createHash(nodeHashName(algorithm)).update(bytes).digest();
+    return hash.buffer.slice(hash.byteOffset, hash.byteOffset + hash.byteLength);
+  },
+};
+
+/**
+ * expo-auth-session replacement: exchangeCodeAsync posts to the real token endpoint
+ * (the mock identity provider in tests), everything else is left out
+ */
+export const expoAuthSessionMock = {
+  exchangeCodeAsync: async (
+    config: {
+      clientId: string;
+      clientSecret?: string;
+      code: string;
+      redirectUri: string;
+      extraParams?: Record<string, string>;
+    },
+    discovery: { tokenEndpoint?: string }
+  ) => {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      client_id: config.clientId,
+      code: config.code,
+      redirect_uri: config.redirectUri,
+      ...(config.clientSecret ? { client_secret: config.clientSecret } : undefined),
+      ...config.extraParams,
+    });
+    const response = await fetch(discovery.tokenEndpoint || '', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: body.toString(),
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      throw new Error(payload?.error_description || payload?.error || `Token endpoint responded with ${response.status}`);
+    }
+    return {
+      accessToken: payload.access_token as string,
+      tokenType: payload.token_type as string,
+      expiresIn: payload.expires_in as number | undefined,
+      scope: payload.scope as string | undefined,
+      idToken: payload.id_token as string | undefined,
+      refreshToken: payload.refresh_token as string | undefined,
+      issuedAt: Math.floor(Date.now() / 1000),
+    };
+  },
+};
+
+const requireInstalled = (packageName: string) => {
+  if (!state.appInstalled) {
+    throw new Error(`${packageName} is not installed`);
+  }
+};
+
+/**
+ * UAEPassModule replacement (Android)
+ */
+export const uaePassNativeModuleMock: Spec = {
+  isUAEPassInstalled: async () => state.appInstalled,
+  launchUAEPassApp: async (packageName, deepLinkUrl) => {
+    requireInstalled(packageName);
+    openedUrls.push(deepLinkUrl);
+    handleAppLaunch(deepLinkUrl);
+    return true;
+  },
+  openUAEPassWithIntent: async (authUrl, callbackUrl, packageName) => {
+    requireInstalled(packageName);
+    const deepLinkUrl = intentDeepLink(authUrl, callbackUrl, packageName);
+    openedUrls.push(deepLinkUrl);
+    handleAppLaunch(deepLinkUrl);
+    return true;
+  },
+  clearCookies: async () => true,
+};
+
+// ==================== Controller ====================
+
+/**
+ * Controls the mocked modules from tests
+ */
+export const mockUAEPass = {
+  /**
+   * Simulate the UAE Pass app being installed (native module, canOpenURL and deep links)
+   */
+  setAppInstalled: (installed: boolean) => {
+    state.appInstalled = installed;
+  },
+  /**
+   * What the user does in UAE Pass (defaults to 'approve')
+   */
+  setUserAction: (action: MockUAEPassUserAction) => {
+    state.userAction = action;
+  },
+  /**
+   * Identity provider that completes approved logins
+   */
+  useIdentityProvider: (idp: MockUAEPassIdP | null) => {
+    state.idp = idp;
+  },
+  /**
+   * URL returned by Linking.getInitialURL() (e.g. to test resume after process death)
+   */
+  setInitialURL: (url: string | null) => {
+    state.initialUrl = url;
+  },
+  /**
+   * Deliver a callback: completes an open browser session, otherwise fires a Linking 'url' event
+   */
+  deliverCallback: (url: string) => {
+    if (pendingBrowser) {
+      pendingBrowser({ type: 'success', url });
+      pendingBrowser = null;
+      return;
+    }
+    emitUrl(url);
+  },
+  /**
+   * URLs opened through Linking, the browser or UAEPassModule, in order
+   */
+  get openedUrls(): readonly string[] {
+    return openedUrls;
+  },
+  /**
+   * Active Linking 'url' listeners (0 after a flow means nothing leaked)
+   */
+  get listenerCount(): number {
+    return urlListeners.size;
+  },
+  /**
+   * Restore defaults (call in afterEach)
+   */
+  reset: () => {
+    state = initialState();
+    urlListeners.clear();
+    openedUrls.length = 0;
+    pendingBrowser = null;
+  },
+};
+
+export default mockUAEPass;
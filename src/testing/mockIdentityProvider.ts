@@ -0,0 +1,642 @@
+/**
+ * Mock UAE Pass Identity Provider
+ *
+ * Local HTTP server implementing the authorize / token / userinfo / logout endpoints
+ * for scripted users (with RS256 ID tokens, OpenID discovery and a JWKS), plus a stand-in for the eSign signer process API, so login and
+ * signing flows can be tested without reaching UAE Pass.
+ * Node only - use it from Jest or an integration test runner, never from the app.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { createHash, generateKeyPairSync, randomBytes, sign as signBytes } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { UAEPassConfig } from '../config/uaePassConfig';
+import type { UAEPassSigningStatus, UAEPassUserInfoClaims, UAEPassUserType } from '../types';
+
+/**
+ * Scripted users, one per UAE Pass account type
+ * SOP1 is an unverified (visitor) account without Emirates ID data
+ */
+export const MOCK_UAE_PASS_USERS: Record<UAEPassUserType, UAEPassUserInfoClaims> = {
+  SOP1: {
+    sub: 'mock-sop1-sub',
+    uuid: 'mock-sop1-uuid',
+    userType: 'SOP1',
+    firstnameEN: 'Sara',
+    lastnameEN: 'Visitor',
+    fullnameEN: 'Sara Visitor',
+    gender: 'Female',
+    mobile: '971500000001',
+    email: 'sop1@example.com',
+  },
+  SOP2: {
+    sub: 'mock-sop2-sub',
+    uuid: 'mock-sop2-uuid',
+    userType: 'SOP2',
+    idn: '784199000000002',
+    idType: 'ID',
+    unifiedID: '100000002',
+    firstnameEN: 'Omar',
+    lastnameEN: 'Resident',
+    fullnameEN: 'Omar Resident',
+    firstnameAR: 'عمر',
+    lastnameAR: 'مقيم',
+    fullnameAR: 'عمر مقيم',
+    nationalityEN: 'EGY',
+    nationalityAR: 'مصري',
+    gender: 'Male',
+    mobile: '971500000002',
+    email: 'sop2@example.com',
+  },
+  SOP3: {
+    sub: 'mock-sop3-sub',
+    uuid: 'mock-sop3-uuid',
+    userType: 'SOP3',
+    idn: '784199000000003',
+    idType: 'ID',
+    unifiedID: '100000003',
+    firstnameEN: 'Fatima',
+    lastnameEN: 'Citizen',
+    fullnameEN: 'Fatima Citizen',
+    firstnameAR: 'فاطمة',
+    lastnameAR: 'مواطن',
+    fullnameAR: 'فاطمة مواطن',
+    titleEN: 'Ms',
+    titleAR: 'السيدة',
+    nationalityEN: 'ARE',
+    nationalityAR: 'إماراتي',
+    gender: 'Female',
+    mobile: '971500000003',
+    email: 'sop3@example.com',
+  },
+};
+
+export interface MockUAEPassIdPOptions {
+  /**
+   * Client id the authorize and token endpoints accept (defaults to 'mock_client')
+   */
+  clientId?: string;
+  /**
+   * When set, the token endpoint requires this client secret (body or Basic auth)
+   */
+  clientSecret?: string;
+  /**
+   * Port to listen on (defaults to a random free port)
+   */
+  port?: number;
+  /**
+   * Extra users, or overrides of MOCK_UAE_PASS_USERS, keyed by id
+   */
+  users?: Record<string, UAEPassUserInfoClaims>;
+  /**
+   * User that approves the login when none is selected (defaults to 'SOP3')
+   */
+  defaultUser?: string;
+  /**
+   * How long issued codes stay valid (defaults to 60 seconds)
+   */
+  codeTtlMs?: number;
+}
+
+/**
+ * A request the mock received (authorize() calls are recorded too)
+ */
+export interface MockUAEPassIdPRequest {
+  endpoint: 'authorize' | 'token' | 'userinfo' | 'logout' | 'discovery' | 'jwks' | 'signing';
+  method: string;
+  params: Record<string, string>;
+}
+
+export interface MockUAEPassIdP {
+  /**
+   * Base URL, e.g. http://127.0.0.1:53121
+   */
+  url: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userInfoEndpoint: string;
+  logoutEndpoint: string;
+  /**
+   * ID token issuer (the base URL); discovery is served under it
+   */
+  issuer: string;
+  jwksUri: string;
+  /**
+   * eSign API base for the server signing helpers (signingApiUrl)
+   */
+  signingApiUrl: string;
+  clientId: string;
+  /**
+   * UAEPassConfig pointing at this mock, for configureUAEPass()
+   */
+  config: (overrides?: Partial<UAEPassConfig>) => UAEPassConfig;
+  /**
+   * Select the user that approves the next logins
+   */
+  setUser: (userId: string) => void;
+  /**
+   * Make the next authorization fail with an OAuth error (e.g. 'access_denied')
+   */
+  failNextAuthorization: (error: string, errorDescription?: string) => void;
+  /**
+   * Claims merged into the ID tokens issued from now on (e.g. { acr } or an expired exp), null to stop
+   */
+  setIdTokenClaims: (claims: Record<string, unknown> | null) => void;
+  /**
+   * Complete an authorization URL as the selected user and return the redirect (callback) URL
+   * @throws Error when the request is invalid (unknown client, missing redirect_uri)
+   */
+  authorize: (authUrl: string) => string;
+  /**
+   * Complete a signing page URL (a signer process task) and return the finish callback URL
+   * @throws Error for an unknown signer process
+   */
+  sign: (signUrl: string, outcome?: UAEPassSigningStatus) => string;
+  /**
+   * Whether a URL is a signing page of this mock
+   */
+  isSigningUrl: (url: string) => boolean;
+  /**
+   * Requests received so far
+   */
+  requests: MockUAEPassIdPRequest[];
+  /**
+   * Forget codes, tokens, signer processes, requests, ID token claims and the selected user
+   */
+  reset: () => void;
+  stop: () => Promise<void>;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  userId: string;
+  scope: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  nonce?: string;
+  acr: string;
+  authTime: number;
+  expiresAt: number;
+}
+
+interface SignerProcessRecord {
+  id: string;
+  finishCallbackUrl: string;
+  documentId: string;
+  document: Buffer;
+  status: 'active' | UAEPassSigningStatus;
+  userId?: string;
+}
+
+const SIGNING_API_PATH = '/trustedx-resources/esignsp/v2';
+const SIGNING_PAGE_PATH = '/trustedx-gw/SignServlet';
+
+const DEFAULT_CLIENT_ID = 'mock_client';
+const DEFAULT_CODE_TTL_MS = 60 * 1000;
+const ACCESS_TOKEN_TTL_SECONDS = 3600;
+const ID_TOKEN_TTL_SECONDS = 600;
+const DEFAULT_ACR = 'urn:safelayer:tws:policies:authentication:level:low';
+
+const randomToken = (): string => randomBytes(24).toString('hex');
+
+const s256 = (verifier: string): string =>
+  createHash('sha256').update(verifier).digest('base64url');
+
+const appendParams = (url: string, params: Record<string, string>): string => {
+  const query = new URLSearchParams(params).toString();
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+};
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+/**
+ * Split a multipart/form-data body into named parts (enough for the signer process upload)
+ */
+const parseMultipart = (body: Buffer, contentType: string): Record<string, Buffer> => {
+  const boundary = /boundary=([^;]+)/.exec(contentType)?.[1];
+  if (!boundary) return {};
+  const parts: Record<string, Buffer> = {};
+  // latin1 maps bytes 1:1, so binary parts survive the string split
+  for (const section of body.toString('latin1').split(`--${boundary}`)) {
+    const headerEnd = section.indexOf('\r\n\r\n');
+    if (headerEnd === -1) continue;
+    const name = /name="([^"]+)"/.exec(section.slice(0, headerEnd))?.[1];
+    if (name) {
+      parts[name] = Buffer.from(section.slice(headerEnd + 4).replace(/\r\n$/, ''), 'latin1');
+    }
+  }
+  return parts;
+};
+
+const sendJson = (res: ServerResponse, statusCode: number, body: unknown) => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const sendRedirect = (res: ServerResponse, location: string) => {
+  res.writeHead(302, { Location: location });
+  res.end();
+};
+
+/**
+ * Start the mock identity provider on 127.0.0.1
+ *
+ * @example
+ * ```typescript
+ * const idp = await startMockUAEPassIdP({ clientSecret: 'secret' });
+ * configureUAEPass(idp.config({ redirectUri: 'myapp://auth/uaepass' }));
+ * idp.setUser('SOP1');
+ * // ...
+ * await idp.stop();
+ * ```
+ */
+export const startMockUAEPassIdP = async (
+  options: MockUAEPassIdPOptions = {}
+): Promise<MockUAEPassIdP> => {
+  const clientId = options.clientId || DEFAULT_CLIENT_ID;
+  const defaultUser = options.defaultUser || 'SOP3';
+  const codeTtlMs = options.codeTtlMs ?? DEFAULT_CODE_TTL_MS;
+  const users: Record<string, UAEPassUserInfoClaims> = { ...MOCK_UAE_PASS_USERS, ...options.users };
+
+  const codes = new Map<string, IssuedCode>();
+  const accessTokens = new Map<string, string>();
+  const signingTokens = new Set<string>();
+  const signerProcesses = new Map<string, SignerProcessRecord>();
+  const requests: MockUAEPassIdPRequest[] = [];
+  let selectedUser = defaultUser;
+  let nextError: { error: string; errorDescription?: string } | null = null;
+  let idTokenClaims: Record<string, unknown> | null = null;
+
+  // ID token signing key, published through the JWKS
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const keyId = randomToken().slice(0, 16);
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: keyId, alg: 'RS256', use: 'sig' };
+
+  const issueIdToken = (issued: IssuedCode): string => {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid: keyId })}.${encode({
+      iss: baseUrl,
+      sub: users[issued.userId]?.sub || issued.userId,
+      aud: clientId,
+      iat: now,
+      exp: now + ID_TOKEN_TTL_SECONDS,
+      auth_time: issued.authTime,
+      acr: issued.acr,
+      ...(issued.nonce ? { nonce: issued.nonce } : undefined),
+      ...idTokenClaims,
+    })}`;
+    return `${signingInput}.${signBytes('sha256', Buffer.from(signingInput), privateKey).toString('base64url')}`;
+  };
+
+  const authorize = (authUrl: string): string => {
+    const params = Object.fromEntries(new URL(authUrl).searchParams);
+    requests.push({ endpoint: 'authorize', method: 'GET', params });
+
+    if (params.client_id !== clientId) {
+      throw new Error(`Unknown client_id "${params.client_id}"`);
+    }
+    if (!params.redirect_uri) {
+      throw new Error('redirect_uri is required');
+    }
+    const state: Record<string, string> = params.state ? { state: params.state } : {};
+
+    if (nextError) {
+      const { error, errorDescription } = nextError;
+      nextError = null;
+      return appendParams(params.redirect_uri, {
+        error,
+        ...(errorDescription ? { error_description: errorDescription } : undefined),
+        ...state,
+      });
+    }
+
+    const code = randomToken();
+    codes.set(code, {
+      clientId,
+      redirectUri: params.redirect_uri,
+      userId: params.mock_user || selectedUser,
+      scope: params.scope || '',
+      codeChallenge: params.code_challenge,
+      codeChallengeMethod: params.code_challenge_method,
+      nonce: params.nonce,
+      acr: params.acr_values || DEFAULT_ACR,
+      authTime: Math.floor(Date.now() / 1000),
+      expiresAt: Date.now() + codeTtlMs,
+    });
+    return appendParams(params.redirect_uri, { code, ...state });
+  };
+
+  const exchangeCode = (params: Record<string, string>, authorization?: string) => {
+    let requestClientId = params.client_id;
+    let requestSecret = params.client_secret;
+    if (authorization?.startsWith('Basic ')) {
+      const [id, secret] = Buffer.from(authorization.slice(6), 'base64').toString('utf8').split(':');
+      requestClientId = decodeURIComponent(id);
+      requestSecret = decodeURIComponent(secret || '');
+    }
+
+    if (params.grant_type !== 'authorization_code' && params.grant_type !== 'client_credentials') {
+      return { status: 400, body: { error: 'unsupported_grant_type' } };
+    }
+    if (requestClientId !== clientId || (options.clientSecret && requestSecret !== options.clientSecret)) {
+      return { status: 401, body: { error: 'invalid_client' } };
+    }
+
+    if (params.grant_type === 'client_credentials') {
+      const signingToken = randomToken();
+      signingTokens.add(signingToken);
+      return {
+        status: 200,
+        body: {
+          access_token: signingToken,
+          token_type: 'Bearer',
+          expires_in: ACCESS_TOKEN_TTL_SECONDS,
+          scope: params.scope || '',
+        },
+      };
+    }
+
+    const issued = codes.get(params.code);
+    // Codes are single use
+    codes.delete(params.code);
+    if (!issued || issued.expiresAt < Date.now()) {
+      return { status: 400, body: { error: 'invalid_grant', error_description: 'Unknown or expired code' } };
+    }
+    if (issued.redirectUri !== params.redirect_uri) {
+      return { status: 400, body: { error: 'invalid_grant', error_description: 'redirect_uri mismatch' } };
+    }
+    if (issued.codeChallenge) {
+      const verifier = params.code_verifier || '';
+      const challenge = issued.codeChallengeMethod === 'S256' ? s256(verifier) : verifier;
+      if (challenge !== issued.codeChallenge) {
+        return { status: 400, body: { error: 'invalid_grant', error_description: 'PKCE verification failed' } };
+      }
+    }
+
+    const accessToken = randomToken();
+    accessTokens.set(accessToken, issued.userId);
+    return {
+      status: 200,
+      body: {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: ACCESS_TOKEN_TTL_SECONDS,
+        scope: issued.scope,
+        ...(issued.scope.split(' ').includes('openid') ? { id_token: issueIdToken(issued) } : undefined),
+      },
+    };
+  };
+
+  const sign = (signUrl: string, outcome: UAEPassSigningStatus = 'finished'): string => {
+    const processId = new URL(signUrl).searchParams.get('process') || '';
+    const record = signerProcesses.get(processId);
+    if (!record) {
+      throw new Error(`Unknown signer process "${processId}"`);
+    }
+    record.status = outcome;
+    record.userId = selectedUser;
+    return appendParams(record.finishCallbackUrl, { status: outcome });
+  };
+
+  // Signer process API: create, download signed document content, delete
+  const handleSigningRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    path: string,
+    method: string
+  ) => {
+    requests.push({ endpoint: 'signing', method, params: { path } });
+    const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    if (!signingTokens.has(token)) {
+      sendJson(res, 401, { error: 'invalid_token' });
+      return;
+    }
+
+    if (path === '/signer_processes' && method === 'POST') {
+      const parts = parseMultipart(await readBody(req), req.headers['content-type'] || '');
+      let finishCallbackUrl: string | undefined;
+      try {
+        finishCallbackUrl = JSON.parse(parts.process?.toString('utf8') || '{}').finish_callback_url;
+      } catch {
+        finishCallbackUrl = undefined;
+      }
+      if (!finishCallbackUrl || !parts.document?.length) {
+        sendJson(res, 400, { error: 'invalid_request', message: 'process.finish_callback_url and document are required' });
+        return;
+      }
+      const record: SignerProcessRecord = {
+        id: randomToken(),
+        finishCallbackUrl,
+        documentId: randomToken(),
+        document: parts.document,
+        status: 'active',
+      };
+      signerProcesses.set(record.id, record);
+      res.setHeader('Location', `${baseUrl}${SIGNING_API_PATH}/signer_processes/${record.id}`);
+      sendJson(res, 201, {
+        id: record.id,
+        status: 'active',
+        tasks: { pending: [{ type: 'urn:safelayer:eidas:processes:document:sign:esigp:task:sign', url: `${baseUrl}${SIGNING_PAGE_PATH}?process=${record.id}` }] },
+        documents: [{ url: `${baseUrl}${SIGNING_API_PATH}/documents/${record.documentId}` }],
+      });
+      return;
+    }
+
+    const documentMatch = /^\/documents\/([^/]+)\/content$/.exec(path);
+    if (documentMatch && method === 'GET') {
+      const record = [...signerProcesses.values()].find((item) => item.documentId === documentMatch[1]);
+      if (!record) {
+        sendJson(res, 404, { error: 'not_found' });
+        return;
+      }
+      if (record.status !== 'finished') {
+        sendJson(res, 409, { error: 'not_signed', message: `Signer process is ${record.status}` });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/pdf' });
+      // The original bytes plus a PDF comment naming the signer
+      res.end(Buffer.concat([record.document, Buffer.from(`\n% Signed by mock UAE Pass user ${record.userId}\n`)]));
+      return;
+    }
+
+    const processMatch = /^\/signer_processes\/([^/]+)$/.exec(path);
+    if (processMatch && method === 'DELETE') {
+      signerProcesses.delete(processMatch[1]);
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    sendJson(res, 404, { error: 'not_found' });
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const requestUrl = new URL(req.url || '/', baseUrl);
+    const method = req.method || 'GET';
+
+    if (requestUrl.pathname.startsWith(SIGNING_API_PATH)) {
+      await handleSigningRequest(req, res, requestUrl.pathname.slice(SIGNING_API_PATH.length), method);
+      return;
+    }
+
+    switch (requestUrl.pathname) {
+      case '/idshub/authorize': {
+        let location: string;
+        try {
+          location = authorize(requestUrl.toString());
+        } catch (error) {
+          sendJson(res, 400, { error: 'invalid_request', error_description: (error as Error).message });
+          return;
+        }
+        sendRedirect(res, location);
+        return;
+      }
+      case '/idshub/token': {
+        if (method !== 'POST') {
+          sendJson(res, 405, { error: 'invalid_request' });
+          return;
+        }
+        const params = Object.fromEntries(new URLSearchParams((await readBody(req)).toString('utf8')));
+        requests.push({ endpoint: 'token', method, params });
+        const { status, body } = exchangeCode(params, req.headers.authorization);
+        sendJson(res, status, body);
+        return;
+      }
+      case '/idshub/userinfo': {
+        requests.push({ endpoint: 'userinfo', method, params: {} });
+        const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+        const userId = accessTokens.get(token);
+        const claims = userId ? users[userId] : undefined;
+        if (!claims) {
+          sendJson(res, 401, { error: 'invalid_token' });
+          return;
+        }
+        sendJson(res, 200, claims);
+        return;
+      }
+      case '/.well-known/openid-configuration': {
+        requests.push({ endpoint: 'discovery', method, params: {} });
+        sendJson(res, 200, {
+          issuer: baseUrl,
+          authorization_endpoint: endpoints.authorizationEndpoint,
+          token_endpoint: endpoints.tokenEndpoint,
+          userinfo_endpoint: endpoints.userInfoEndpoint,
+          end_session_endpoint: endpoints.logoutEndpoint,
+          jwks_uri: jwksUri,
+          id_token_signing_alg_values_supported: ['RS256'],
+        });
+        return;
+      }
+      case '/idshub/jwks': {
+        requests.push({ endpoint: 'jwks', method, params: {} });
+        sendJson(res, 200, { keys: [jwk] });
+        return;
+      }
+      case '/idshub/logout': {
+        const params = Object.fromEntries(requestUrl.searchParams);
+        requests.push({ endpoint: 'logout', method, params });
+        if (params.redirect_uri) {
+          sendRedirect(res, params.redirect_uri);
+        } else {
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          res.end('Logged out');
+        }
+        return;
+      }
+      default:
+        sendJson(res, 404, { error: 'not_found' });
+    }
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      sendJson(res, 500, { error: 'server_error', error_description: String(error) });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port || 0, '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const endpoints = {
+    authorizationEndpoint: `${baseUrl}/idshub/authorize`,
+    tokenEndpoint: `${baseUrl}/idshub/token`,
+    userInfoEndpoint: `${baseUrl}/idshub/userinfo`,
+    logoutEndpoint: `${baseUrl}/idshub/logout`,
+  };
+  const signingPageUrl = `${baseUrl}${SIGNING_PAGE_PATH}`;
+  const jwksUri = `${baseUrl}/idshub/jwks`;
+
+  return {
+    url: baseUrl,
+    ...endpoints,
+    issuer: baseUrl,
+    jwksUri,
+    signingApiUrl: `${baseUrl}${SIGNING_API_PATH}`,
+    clientId,
+    config: (overrides) => ({
+      environment: 'mock',
+      clientId,
+      redirectUri: 'uaepasstest://auth/uaepass',
+      environments: {
+        mock: {
+          ...endpoints,
+          issuer: baseUrl,
+          appSchemes: { ios: 'uaepass://', android: 'ae.uaepass.mainapp' },
+        },
+      },
+      ...overrides,
+    }),
+    setUser: (userId) => {
+      if (!users[userId]) {
+        throw new Error(`Unknown mock user "${userId}"`);
+      }
+      selectedUser = userId;
+    },
+    failNextAuthorization: (error, errorDescription) => {
+      nextError = { error, errorDescription };
+    },
+    setIdTokenClaims: (claims) => {
+      idTokenClaims = claims;
+    },
+    authorize,
+    sign,
+    isSigningUrl: (url) => url.startsWith(signingPageUrl),
+    requests,
+    reset: () => {
+      codes.clear();
+      accessTokens.clear();
+      signingTokens.clear();
+      signerProcesses.clear();
+      requests.length = 0;
+      selectedUser = defaultUser;
+      nextError = null;
+      idTokenClaims = null;
+    },
+    stop: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+};
+
+export default {
+  startMockUAEPassIdP,
+  MOCK_UAE_PASS_USERS,
+};
@@ -2,6 +2,8 @@
  * TypeScript type definitions for expo-uae-pass
  */
 
+import type { UAEPassError, UAEPassErrorCode } from '../errors/uaePassError';
+
 /**
  * Result of UAE Pass authentication
  */
@@ -10,7 +12,23 @@ export interface UAEPassAuthResult {
   authorizationCode?: string;
   state?: string;
   codeVerifier?: string;
+  /**
+   * Nonce sent with the request - pass it to verifyUAEPassIdToken()
+   */
+  nonce?: string;
+  /**
+   * Human-readable error message
+   */
   error?: string;
+  /**
+   * Stable error code - branch on this, not on `error`
+   */
+  errorCode?: UAEPassErrorCode;
+  uaePassError?: UAEPassError;
+  /**
+   * Requirement of a reauthenticate() flow - check the ID token against it after the exchange
+   */
+  stepUp?: UAEPassStepUpRequirement;
   details?: any;
 }
 
@@ -21,9 +39,211 @@ export interface UAEPassWebViewAuthParams {
   authUrl: string;
   redirectUri: string;
   state: string;
+  nonce: string;
   codeVerifier: string;
   acrValue: string;
   useWebView: boolean;
+  stepUp?: UAEPassStepUpRequirement;
+}
+
+/**
+ * Source of cryptographically secure random bytes
+ * Used for state, PKCE code verifier and nonce generation
+ */
+export type UAEPassRandomSource = (byteCount: number) => Uint8Array;
+
+/**
+ * UI / UAE Pass page language
+ */
+export type UAEPassLocale = 'en' | 'ar';
+
+/**
+ * Per-call options for authentication flows
+ */
+export interface UAEPassFlowOptions {
+  /**
+   * UAE Pass page language (overrides config.locale)
+   */
+  locale?: UAEPassLocale;
+  /**
+   * How long to wait for the UAE Pass callback (overrides config.timeoutMs)
+   */
+  timeoutMs?: number;
+  /**
+   * Aborting removes listeners, dismisses the auth session and resolves with CANCELLED
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Step-up authentication request (reauthenticate)
+ */
+export interface UAEPassStepUpOptions {
+  /**
+   * Required authentication level, e.g. UAE_PASS_ACR_VALUES.HIGH
+   */
+  acr: string;
+  /**
+   * Maximum age of the authentication in seconds (OIDC max_age)
+   */
+  maxAge?: number;
+  /**
+   * 'login' forces UAE Pass to authenticate again even with a live session (default)
+   */
+  prompt?: 'login';
+}
+
+/**
+ * Step-up requirement recorded when the request was sent
+ */
+export interface UAEPassStepUpRequirement extends UAEPassStepUpOptions {
+  /**
+   * When the request was sent (ms since epoch) - auth_time must not be earlier
+   */
+  requestedAt: number;
+}
+
+/**
+ * Result of UAE Pass logout
+ */
+export interface UAEPassLogoutResult {
+  success: boolean;
+  /**
+   * Whether WebView/shared cookies were cleared
+   */
+  cookiesCleared: boolean;
+  error?: string;
+  errorCode?: UAEPassErrorCode;
+  details?: any;
+}
+
+/**
+ * Options for UAE Pass logout
+ */
+export interface UAEPassLogoutOptions {
+  /**
+   * Replaces the built-in cookie clearing (native on Android; not needed on iOS, where
+   * sessions are never persisted). For example `() => CookieManager.clearAll(true)`
+   * from @react-native-cookies/cookies
+   */
+  clearCookies?: () => Promise<unknown>;
+}
+
+/**
+ * Flow used by an in-flight authentication request
+ */
+export type UAEPassAuthFlow = 'app' | 'browser' | 'webview';
+
+/**
+ * In-flight authentication request persisted across app restarts
+ */
+export interface UAEPassPendingSession {
+  state: string;
+  /**
+   * Missing in sessions persisted by older versions
+   */
+  nonce?: string;
+  codeVerifier: string;
+  acrValue: string;
+  redirectUri: string;
+  flow: UAEPassAuthFlow;
+  createdAt: number;
+  stepUp?: UAEPassStepUpRequirement;
+}
+
+/**
+ * Minimal async key-value storage used to persist pending sessions
+ * Matches the shape of AsyncStorage and can wrap SecureStore
+ */
+export interface UAEPassSessionStore {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+/**
+ * UAE Pass account level
+ * SOP1 - basic (unverified), SOP2 - verified, SOP3 - verified with Emirates ID
+ */
+export type UAEPassUserType = 'SOP1' | 'SOP2' | 'SOP3';
+
+/**
+ * Raw claims returned by the UAE Pass userinfo endpoint
+ * Names follow the UAE Pass claim set as-is; a valid response has uuid, sub or both
+ */
+export interface UAEPassUserInfoClaims {
+  sub?: string;
+  uuid?: string;
+  spuuid?: string;
+  idn?: string;
+  idType?: string;
+  userType?: string;
+  unifiedID?: string;
+  firstnameEN?: string;
+  lastnameEN?: string;
+  fullnameEN?: string;
+  firstnameAR?: string;
+  lastnameAR?: string;
+  fullnameAR?: string;
+  titleEN?: string;
+  titleAR?: string;
+  nationalityEN?: string;
+  nationalityAR?: string;
+  gender?: string;
+  mobile?: string;
+  email?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Normalised UAE Pass user profile
+ */
+export interface UAEPassUserProfile {
+  /**
+   * uuid and sub are always set - each falls back to the other when the response has only one
+   */
+  uuid: string;
+  sub: string;
+  idn?: string;
+  idType?: string;
+  userType?: UAEPassUserType;
+  unifiedId?: string;
+  firstNameEn?: string;
+  lastNameEn?: string;
+  fullNameEn?: string;
+  firstNameAr?: string;
+  lastNameAr?: string;
+  fullNameAr?: string;
+  titleEn?: string;
+  titleAr?: string;
+  nationalityEn?: string;
+  nationalityAr?: string;
+  gender?: 'male' | 'female';
+  mobile?: string;
+  email?: string;
+  /**
+   * Original claims, for fields not covered above
+   */
+  raw: UAEPassUserInfoClaims;
+}
+
+/**
+ * Claims of a verified UAE Pass ID token (see verifyUAEPassIdToken)
+ */
+export interface UAEPassIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  /**
+   * Expiry, issued-at and authentication time in seconds since epoch
+   */
+  exp: number;
+  iat: number;
+  auth_time?: number;
+  nonce?: string;
+  acr?: string;
+  azp?: string;
+  [claim: string]: unknown;
 }
 
 /**
@@ -54,3 +274,42 @@ export interface UAEPassCallbackResponse {
   expires_at: string;
 }
 
+
+/**
+ * Signer process created by your backend for a PDF
+ * (see createUAEPassSignerProcess in expo-uae-pass/server)
+ */
+export interface UAEPassSignerProcess {
+  processId: string;
+  /**
+   * UAE Pass page where the user reviews and signs the document (the pending task URL)
+   */
+  signUrl: string;
+  /**
+   * Deep link UAE Pass opens when signing ends (the process finish_callback_url)
+   */
+  finishCallbackUrl: string;
+  documentIds: string[];
+}
+
+/**
+ * Outcome reported by UAE Pass on the finish callback
+ */
+export type UAEPassSigningStatus = 'finished' | 'canceled' | 'failed';
+
+/**
+ * Result of a signing flow
+ * On success, download the signed documents on your backend (downloadUAEPassSignedDocument)
+ */
+export interface UAEPassSigningResult {
+  success: boolean;
+  processId?: string;
+  documentIds?: string[];
+  status?: UAEPassSigningStatus;
+  /**
+   * Human-readable error message
+   */
+  error?: string;
+  errorCode?: UAEPassErrorCode;
+  uaePassError?: UAEPassError;
+}
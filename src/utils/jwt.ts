@@ -0,0 +1,82 @@
+/**
+ * JWT Helpers
+ *
+ * Base64url decoding and JWT splitting without Buffer/atob/TextDecoder,
+ * which are not guaranteed to exist in Hermes
+ */
+
+const BASE64URL_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Decoded JWT parts (claims are NOT verified)
+ */
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  /**
+   * `header.payload` as sent - the input the signature covers
+   */
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+/**
+ * Base64url-decode to bytes (padding and standard base64 characters are tolerated)
+ * @throws Error on characters outside the alphabet
+ */
+export const base64UrlDecode = (input: string): Uint8Array => {
+  const normalized = input.replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of normalized) {
+    const value = BASE64URL_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid base64url character "${char}"`);
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Decode UTF-8 bytes to a string
+ */
+const utf8Decode = (bytes: Uint8Array): string => {
+  let escaped = '';
+  for (let i = 0; i < bytes.length; i++) {
+    escaped += `%${bytes[i].toString(16).padStart(2, '0')}`;
+  }
+  return decodeURIComponent(escaped);
+};
+
+const decodeJsonSegment = (segment: string, name: string): Record<string, unknown> => {
+  const value = JSON.parse(utf8Decode(base64UrlDecode(segment)));
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`JWT ${name} is not a JSON object`);
+  }
+  return value as Record<string, unknown>;
+};
+
+/**
+ * Split and decode a compact JWS without checking its signature
+ * @throws Error if the token is not a well-formed JWT
+ */
+export const decodeJwt = (token: string): DecodedJwt => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('JWT must have three segments');
+  }
+  return {
+    header: decodeJsonSegment(parts[0], 'header'),
+    payload: decodeJsonSegment(parts[1], 'payload'),
+    signingInput: `${parts[0]}.${parts[1]}`,
+    signature: base64UrlDecode(parts[2]),
+  };
+};
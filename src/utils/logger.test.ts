@@ -0,0 +1,209 @@
+import {
+  configureUAEPassLogger,
+  redactUAEPassSecrets,
+  REDACTED,
+  uaePassLogger,
+  type UAEPassLogSink,
+} from './logger';
+import { UAEPassError, UAE_PASS_ERROR_CODES } from '../errors/uaePassError';
+
+const createSink = (): jest.Mocked<UAEPassLogSink> => ({
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+});
+
+afterEach(() => {
+  configureUAEPassLogger('silent');
+});
+
+describe('redactUAEPassSecrets - URLs', () => {
+  it('redacts secret query and fragment parameters and keeps the rest', () => {
+    expect(
+      redactUAEPassSecrets('myapp://auth/uaepass?code=abc123&state=xyz&lang=ar#access_token=t0k&token_type=Bearer')
+    ).toBe(`myapp://auth/uaepass?code=${REDACTED}&state=${REDACTED}&lang=ar#access_token=${REDACTED}&token_type=Bearer`);
+  });
+
+  it('matches parameter names case-insensitively and only as whole names', () => {
+    expect(redactUAEPassSecrets('https://x.ae/cb?CODE=abc&errorcode=42&client_secret=s3')).toBe(
+      `https://x.ae/cb?CODE=${REDACTED}&errorcode=42&client_secret=${REDACTED}`
+    );
+  });
+
+  it('leaves empty values alone', () => {
+    expect(redactUAEPassSecrets('https://x.ae/cb?code=&state=s')).toBe(`https://x.ae/cb?code=&state=${REDACTED}`);
+  });
+
+  it('redacts percent-encoded nested URLs', () => {
+    const callback = 'myapp://auth/uaepass?code=abc&state=xyz&ui_locales=en';
+    const url = `uaepass://idshub/authorize?successURL=${encodeURIComponent(callback)}&browserPackage=x`;
+
+    expect(redactUAEPassSecrets(url)).toBe(
+      `uaepass://idshub/authorize?successURL=${encodeURIComponent('myapp://auth/uaepass?code=')}${REDACTED}` +
+        `${encodeURIComponent('&state=')}${REDACTED}${encodeURIComponent('&ui_locales=en')}&browserPackage=x`
+    );
+  });
+
+  it('redacts double-encoded nested URLs', () => {
+    const inner = encodeURIComponent(encodeURIComponent('myapp://cb?state=xyz&lang=en'));
+
+    const redacted = redactUAEPassSecrets(`https://stg-id.uaepass.ae/idshub/authorize?redirect=${inner}`) as string;
+
+    expect(redacted).not.toContain('xyz');
+    expect(redacted).toContain(`%253Fstate%253D${REDACTED}%2526lang%253Den`);
+  });
+});
+
+describe('redactUAEPassSecrets - JSON', () => {
+  it('redacts secret members of a JSON string', () => {
+    const body = JSON.stringify({
+      access_token: 'at-1',
+      token_type: 'Bearer',
+      id_token: 'eyJ.payload.sig',
+      expires_in: 3600,
+      scope: 'openid',
+    });
+
+    expect(JSON.parse(redactUAEPassSecrets(body) as string)).toEqual({
+      access_token: REDACTED,
+      token_type: 'Bearer',
+      id_token: REDACTED,
+      expires_in: 3600,
+      scope: 'openid',
+    });
+  });
+
+  it('handles whitespace, escaped quotes and nesting', () => {
+    const body = JSON.stringify({ result: { codeVerifier: 'v"1\\2', locale: 'en' } }, null, 2);
+
+    const redacted = redactUAEPassSecrets(body) as string;
+
+    expect(JSON.parse(redacted)).toEqual({ result: { codeVerifier: REDACTED, locale: 'en' } });
+  });
+
+  it('redacts JSON embedded in a log message', () => {
+    expect(redactUAEPassSecrets('Token response: {"refresh_token":"rt-1","errorCode":"x"}')).toBe(
+      `Token response: {"refresh_token":"${REDACTED}","errorCode":"x"}`
+    );
+  });
+});
+
+describe('redactUAEPassSecrets - values', () => {
+  it('redacts secret keys of nested objects and arrays', () => {
+    expect(
+      redactUAEPassSecrets({
+        state: 's',
+        details: { tokens: [{ accessToken: 'at', expiresIn: 10 }], authUrl: 'https://x.ae/a?nonce=n&x=1' },
+      })
+    ).toEqual({
+      state: REDACTED,
+      details: { tokens: [{ accessToken: REDACTED, expiresIn: 10 }], authUrl: `https://x.ae/a?nonce=${REDACTED}&x=1` },
+    });
+  });
+
+  it('keeps empty secret values and non-string primitives', () => {
+    expect(redactUAEPassSecrets({ code: '', count: 2, ok: true, missing: null })).toEqual({
+      code: '',
+      count: 2,
+      ok: true,
+      missing: null,
+    });
+  });
+
+  it('keeps the code of errors and results, but not an authorization code parameter', () => {
+    expect(
+      redactUAEPassSecrets({
+        success: false,
+        errorCode: 'STATE_MISMATCH',
+        code: 'STATE_MISMATCH',
+        details: { callbackUrl: 'myapp://cb?code=abc', body: 'grant_type=authorization_code&code=abc' },
+      })
+    ).toEqual({
+      success: false,
+      errorCode: 'STATE_MISMATCH',
+      code: 'STATE_MISMATCH',
+      details: {
+        callbackUrl: `myapp://cb?code=${REDACTED}`,
+        body: `grant_type=authorization_code&code=${REDACTED}`,
+      },
+    });
+  });
+
+  it('keeps the name, code and redacted details of a UAEPassError', () => {
+    const error = new UAEPassError(UAE_PASS_ERROR_CODES.STATE_MISMATCH, 'Invalid state parameter', {
+      details: { state: 'xyz', expected: 'other', url: 'myapp://cb?code=abc' },
+    });
+
+    const redacted = redactUAEPassSecrets(error) as UAEPassError;
+
+    expect(redacted).toBeInstanceOf(Error);
+    expect(redacted.name).toBe('UAEPassError');
+    expect(redacted.message).toBe('Invalid state parameter');
+    expect(redacted.code).toBe(UAE_PASS_ERROR_CODES.STATE_MISMATCH);
+    expect(redacted.details).toEqual({ state: REDACTED, expected: 'other', url: `myapp://cb?code=${REDACTED}` });
+  });
+
+  it('redacts Error messages and keeps the name', () => {
+    const error = new TypeError('Request failed for myapp://cb?code=abc');
+
+    const redacted = redactUAEPassSecrets(error) as Error;
+
+    expect(redacted.message).toBe(`Request failed for myapp://cb?code=${REDACTED}`);
+    expect(redacted.name).toBe('TypeError');
+  });
+
+  it('stops at a depth limit instead of recursing forever', () => {
+    const cyclic: Record<string, unknown> = { code: 'c' };
+    cyclic.self = cyclic;
+
+    expect(() => redactUAEPassSecrets(cyclic)).not.toThrow();
+  });
+});
+
+describe('uaePassLogger', () => {
+  it('redacts every argument before it reaches the sink', () => {
+    const sink = createSink();
+    configureUAEPassLogger({ level: 'debug', sink });
+
+    uaePassLogger.info('Callback', 'myapp://cb?code=abc', { idToken: 'jwt' });
+
+    expect(sink.info).toHaveBeenCalledWith('Callback', `myapp://cb?code=${REDACTED}`, { idToken: REDACTED });
+  });
+
+  it('drops messages above the configured level', () => {
+    const sink = createSink();
+    configureUAEPassLogger({ level: 'warn', sink });
+
+    uaePassLogger.error('e');
+    uaePassLogger.warn('w');
+    uaePassLogger.info('i');
+    uaePassLogger.debug('d');
+
+    expect(sink.error).toHaveBeenCalledWith('e');
+    expect(sink.warn).toHaveBeenCalledWith('w');
+    expect(sink.info).not.toHaveBeenCalled();
+    expect(sink.debug).not.toHaveBeenCalled();
+  });
+
+  it('warns with warnAlways whatever the level, still redacted', () => {
+    const sink = createSink();
+    configureUAEPassLogger({ level: 'silent', sink });
+
+    uaePassLogger.warn('dropped');
+    uaePassLogger.warnAlways('Config issue', 'myapp://cb?code=abc');
+
+    expect(sink.warn).toHaveBeenCalledTimes(1);
+    expect(sink.warn).toHaveBeenCalledWith('Config issue', `myapp://cb?code=${REDACTED}`);
+  });
+
+  it('survives a throwing sink', () => {
+    const sink = createSink();
+    sink.error.mockImplementation(() => {
+      throw new Error('sink down');
+    });
+    configureUAEPassLogger({ level: 'error', sink });
+
+    expect(() => uaePassLogger.error('e')).not.toThrow();
+  });
+});
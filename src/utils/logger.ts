@@ -0,0 +1,162 @@
+/**
+ * UAE Pass Logger
+ *
+ * Levelled logger used by the service, hook and components.
+ * Every argument is passed through redactUAEPassSecrets() first, so authorization codes,
+ * state, PKCE verifiers and tokens never reach app log pipelines.
+ */
+
+export type UAEPassLogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
+
+/**
+ * Where log lines go (console-shaped, so `console` itself works)
+ */
+export interface UAEPassLogSink {
+  error: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  info: (...args: unknown[]) => void;
+  debug: (...args: unknown[]) => void;
+}
+
+export interface UAEPassLoggerOptions {
+  /**
+   * Most verbose level to emit (defaults to 'debug' in __DEV__, 'silent' in production)
+   */
+  level?: UAEPassLogLevel;
+  /**
+   * Log destination (defaults to console)
+   */
+  sink?: UAEPassLogSink;
+}
+
+const LEVEL_ORDER: Record<UAEPassLogLevel, number> = {
+  silent: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4,
+};
+
+/**
+ * Object keys and JSON members whose values are secrets
+ * `code` is not one of them: UAEPassError and result objects use it for the error code
+ */
+const SECRET_KEYS = [
+  'state',
+  'code_verifier',
+  'codeVerifier',
+  'authorizationCode',
+  'access_token',
+  'accessToken',
+  'id_token',
+  'idToken',
+  'refresh_token',
+  'refreshToken',
+  'client_secret',
+  'nonce',
+];
+
+/**
+ * Query and form body parameters whose values are secrets (`code` is the authorization code)
+ */
+const SECRET_PARAMS = ['code', ...SECRET_KEYS];
+
+export const REDACTED = '[REDACTED]';
+
+// key=value in query strings and fragments, also inside URL-encoded (and double-encoded) nested URLs
+const SECRET_PARAM_REGEX = new RegExp(
+  `((?:^|[?&#]|%3F|%26|%23|%253F|%2526)(?:${SECRET_PARAMS.join('|')})(?:=|%3D|%253D))((?:(?!%26|%2526|%23)[^&#\\s"'])*)`,
+  'gi'
+);
+
+// "key": "value" in JSON text, e.g. a token response body logged as a string
+const SECRET_JSON_REGEX = new RegExp(
+  `("(?:${SECRET_KEYS.join('|')})"\\s*:\\s*")((?:[^"\\\\]|\\\\.)*)"`,
+  'gi'
+);
+
+const MAX_REDACT_DEPTH = 5;
+
+/**
+ * Redact secrets from a value before it is logged
+ * Strings: query/fragment/body parameters and JSON members; objects: secret keys (recursively);
+ * Errors: a copy with the redacted message, the name, `code` and redacted `details`
+ */
+export const redactUAEPassSecrets = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string') {
+    return value
+      .replace(SECRET_PARAM_REGEX, (_match, prefix: string, secret: string) =>
+        secret ? `${prefix}${REDACTED}` : prefix
+      )
+      .replace(SECRET_JSON_REGEX, (_match, prefix: string, secret: string) =>
+        secret ? `${prefix}${REDACTED}"` : `${prefix}"`
+      );
+  }
+  if (value instanceof Error) {
+    const redacted: Error & { code?: unknown; details?: unknown } = new Error(
+      redactUAEPassSecrets(value.message) as string
+    );
+    redacted.name = value.name;
+    const { code, details } = value as Error & { code?: unknown; details?: unknown };
+    if (code !== undefined) redacted.code = code;
+    if (details !== undefined) redacted.details = redactUAEPassSecrets(details, depth + 1);
+    return redacted;
+  }
+  if (!value || typeof value !== 'object' || depth >= MAX_REDACT_DEPTH) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactUAEPassSecrets(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+      key,
+      SECRET_KEYS.includes(key) && item ? REDACTED : redactUAEPassSecrets(item, depth + 1),
+    ])
+  );
+};
+
+const consoleSink: UAEPassLogSink = {
+  error: (...args) => console.error(...args),
+  warn: (...args) => console.warn(...args),
+  info: (...args) => console.log(...args),
+  debug: (...args) => console.log(...args),
+};
+
+const defaultLevel = (): UAEPassLogLevel =>
+  typeof __DEV__ !== 'undefined' && __DEV__ ? 'debug' : 'silent';
+
+let currentLevel: UAEPassLogLevel = defaultLevel();
+let currentSink: UAEPassLogSink = consoleSink;
+
+/**
+ * Set the level and sink (called by configureUAEPass with config.logger)
+ */
+export const configureUAEPassLogger = (options?: UAEPassLoggerOptions | UAEPassLogLevel) => {
+  const resolved = typeof options === 'string' ? { level: options } : options || {};
+  currentLevel = resolved.level || defaultLevel();
+  currentSink = resolved.sink || consoleSink;
+};
+
+const log = (level: Exclude<UAEPassLogLevel, 'silent'>, args: unknown[], ignoreLevel = false) => {
+  if (!ignoreLevel && LEVEL_ORDER[level] > LEVEL_ORDER[currentLevel]) return;
+  try {
+    currentSink[level](...args.map((arg) => redactUAEPassSecrets(arg)));
+  } catch {
+    // A failing sink must never break authentication
+  }
+};
+
+export const uaePassLogger = {
+  error: (...args: unknown[]) => log('error', args),
+  warn: (...args: unknown[]) => log('warn', args),
+  info: (...args: unknown[]) => log('info', args),
+  debug: (...args: unknown[]) => log('debug', args),
+  /**
+   * Warn through the sink whatever the level - for problems the app must hear about
+   * even in production (e.g. configuration issues)
+   */
+  warnAlways: (...args: unknown[]) => log('warn', args, true),
+};
+
+export default uaePassLogger;
@@ -0,0 +1,80 @@
+import {
+  base64UrlEncode,
+  deriveCodeChallenge,
+  generateCodeVerifier,
+  generateNonce,
+  generateState,
+} from './pkce';
+
+// RFC 7636 Appendix B
+const RFC_7636_VERIFIER_BYTES = new Uint8Array([
+  116, 24, 223, 180, 151, 153, 224, 37, 79, 250, 96, 125, 216, 173, 187, 186,
+  22, 212, 37, 77, 105, 214, 191, 240, 91, 88, 5, 88, 83, 132, 141, 121,
+]);
+const RFC_7636_VERIFIER = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+const RFC_7636_CHALLENGE = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM';
+
+// RFC 7636 §4.1: unreserved characters only, 43-128 long
+const VERIFIER_REGEX = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+describe('deriveCodeChallenge', () => {
+  it('matches the RFC 7636 Appendix B example', async () => {
+    expect(await deriveCodeChallenge(RFC_7636_VERIFIER)).toBe(RFC_7636_CHALLENGE);
+  });
+});
+
+describe('generateCodeVerifier', () => {
+  it('encodes 32 random bytes as the RFC 7636 Appendix B verifier', () => {
+    expect(generateCodeVerifier(() => RFC_7636_VERIFIER_BYTES)).toBe(RFC_7636_VERIFIER);
+  });
+
+  it('is 43 unreserved characters and differs per call', () => {
+    const first = generateCodeVerifier();
+    const second = generateCodeVerifier();
+
+    expect(first).toHaveLength(43);
+    expect(first).toMatch(VERIFIER_REGEX);
+    expect(second).toMatch(VERIFIER_REGEX);
+    expect(first).not.toBe(second);
+  });
+
+  it('asks the random source for 32 bytes', () => {
+    const randomSource = jest.fn((byteCount: number) => new Uint8Array(byteCount));
+
+    generateCodeVerifier(randomSource);
+
+    expect(randomSource).toHaveBeenCalledWith(32);
+  });
+});
+
+describe('random source', () => {
+  it.each([
+    ['verifier', generateCodeVerifier],
+    ['state', generateState],
+    ['nonce', generateNonce],
+  ])('rejects a source that returns the wrong byte count (%s)', (_, generate) => {
+    expect(() => generate(() => new Uint8Array(8))).toThrow('Random source returned 8 bytes');
+  });
+
+  it('rejects a source that returns nothing', () => {
+    expect(() => generateState(() => undefined as unknown as Uint8Array)).toThrow(
+      'Random source returned 0 bytes, expected 16'
+    );
+  });
+
+  it('generates 128-bit state and nonce', () => {
+    expect(generateState()).toMatch(/^[A-Za-z0-9\-_]{22}$/);
+    expect(generateNonce()).toMatch(/^[A-Za-z0-9\-_]{22}$/);
+  });
+});
+
+describe('base64UrlEncode', () => {
+  it.each([
+    [[], ''],
+    [[0xfb], '-w'],
+    [[0xfb, 0xff], '-_8'],
+    [[0xfb, 0xff, 0xbf], '-_-_'],
+  ])('encodes %j without padding', (bytes, expected) => {
+    expect(base64UrlEncode(new Uint8Array(bytes))).toBe(expected);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * PKCE & Random Value Helpers
+ *
+ * RFC 7636 (S256) code challenge derivation and CSPRNG-backed
+ * state / code verifier / nonce generation
+ */
+
+import * as Crypto from 'expo-crypto';
+import type { UAEPassRandomSource } from '../types';
+
+const BASE64URL_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Default random source - native CSPRNG via expo-crypto
+ */
+export const defaultRandomSource: UAEPassRandomSource = (byteCount: number) =>
+  Crypto.getRandomBytes(byteCount);
+
+/**
+ * Base64url-encode bytes without padding (RFC 4648 §5)
+ * Implemented by hand so it does not depend on Buffer/btoa being available in Hermes
+ */
+export const base64UrlEncode = (bytes: Uint8Array): string => {
+  let output = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    output += BASE64URL_ALPHABET[(chunk >> 18) & 63];
+    output += BASE64URL_ALPHABET[(chunk >> 12) & 63];
+    output += BASE64URL_ALPHABET[(chunk >> 6) & 63];
+    output += BASE64URL_ALPHABET[chunk & 63];
+  }
+  const remaining = bytes.length - i;
+  if (remaining === 1) {
+    const chunk = bytes[i] << 16;
+    output += BASE64URL_ALPHABET[(chunk >> 18) & 63];
+    output += BASE64URL_ALPHABET[(chunk >> 12) & 63];
+  } else if (remaining === 2) {
+    const chunk = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    output += BASE64URL_ALPHABET[(chunk >> 18) & 63];
+    output += BASE64URL_ALPHABET[(chunk >> 12) & 63];
+    output += BASE64URL_ALPHABET[(chunk >> 6) & 63];
+  }
+  return output;
+};
+
+/**
+ * Convert standard base64 to base64url without padding
+ */
+const base64ToBase64Url = (base64: string): string =>
+  base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Generate a random URL-safe string from the given number of random bytes
+ */
+const randomUrlSafeString = (
+  byteCount: number,
+  randomSource: UAEPassRandomSource = defaultRandomSource
+): string => {
+  const bytes = randomSource(byteCount);
+  if (!bytes || bytes.length !== byteCount) {
+    throw new Error(`Random source returned ${bytes?.length ?? 0} bytes, expected ${byteCount}`);
+  }
+  return base64UrlEncode(bytes);
+};
+
+/**
+ * Generate random state for CSRF protection (128 bits)
+ */
+export const generateState = (randomSource?: UAEPassRandomSource): string =>
+  randomUrlSafeString(16, randomSource);
+
+/**
+ * Generate nonce for OpenID Connect replay protection (128 bits)
+ */
+export const generateNonce = (randomSource?: UAEPassRandomSource): string =>
+  randomUrlSafeString(16, randomSource);
+
+/**
+ * Generate PKCE code verifier
+ * 32 random bytes -> 43 base64url characters (RFC 7636 §4.1)
+ */
+export const generateCodeVerifier = (randomSource?: UAEPassRandomSource): string =>
+  randomUrlSafeString(32, randomSource);
+
+/**
+ * Derive the S256 code challenge for a code verifier
+ * BASE64URL(SHA256(ASCII(code_verifier))) as defined in RFC 7636 §4.2
+ */
+export const deriveCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    codeVerifier,
+    { encoding: Crypto.CryptoEncoding.BASE64 }
+  );
+  return base64ToBase64Url(digest);
+};
+
+export default {
+  generateState,
+  generateNonce,
+  generateCodeVerifier,
+  deriveCodeChallenge,
+};
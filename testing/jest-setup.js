@@ -0,0 +1,2 @@
+// Jest setupFiles entry - see src/testing/jestSetup.ts
+require('../lib/testing/jestSetup');